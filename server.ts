@@ -1,5 +1,6 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { startScheduler } from '@/lib/scheduler';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -42,6 +43,9 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Background jobs such as standing order payments
+    startScheduler();
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
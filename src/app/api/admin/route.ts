@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import type { ApiResponse } from '@/lib/api/common'
+import { adminActionRequest, adminQuery, type AdminActionRequest, type RoleAssignment } from '@/lib/api/admin'
+import { parseJsonBody, parseQuery } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { ADMIN_ACTION_PERMISSIONS, ADMIN_QUERY_PERMISSIONS, type Role } from '@/lib/auth/permissions'
+import { assignRole, getUserRoles, isBootstrapAdmin, revokeRole } from '@/lib/auth/roles'
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(adminActionRequest, request)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const auth = await authorize(ADMIN_ACTION_PERMISSIONS[parsed.data.action])
+    if (!auth.success) {
+      return auth.response
+    }
+
+    return await handleAction(parsed.data, auth.userId)
+  } catch (error) {
+    console.error('Admin API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+async function handleAction({ action, data }: AdminActionRequest, userId: string) {
+  const { memberId, role } = data
+  const member = await db.user.findUnique({ where: { id: memberId } })
+  if (!member) {
+    return NextResponse.json({
+      success: false,
+      error: 'Member not found'
+    }, { status: 404 })
+  }
+
+  switch (action) {
+    case 'assign-role':
+      await assignRole(memberId, role, userId)
+
+      return NextResponse.json<ApiResponse<{ roles: Role[], message: string }>>({
+        success: true,
+        data: {
+          roles: await getUserRoles(memberId),
+          message: `Granted ${role} to ${memberId}`
+        }
+      })
+
+    case 'revoke-role':
+      // Admins cannot lock themselves out; another admin has to do it
+      if (role === 'admin' && memberId === userId) {
+        return NextResponse.json({
+          success: false,
+          error: 'You cannot revoke your own admin role'
+        }, { status: 400 })
+      }
+
+      const revoked = await revokeRole(memberId, role)
+      const roles = await getUserRoles(memberId)
+
+      return NextResponse.json<ApiResponse<{ roles: Role[], message: string }>>({
+        success: true,
+        data: {
+          roles,
+          message: !revoked
+            ? `${memberId} did not hold ${role}`
+            : roles.includes(role)
+              ? `Revoked ${role} from ${memberId}, who stays an admin through ADMIN_USER_IDS`
+              : `Revoked ${role} from ${memberId}`
+        }
+      })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const parsed = parseQuery(adminQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const query = parsed.data
+  const auth = await authorize(ADMIN_QUERY_PERMISSIONS[query.action])
+  if (!auth.success) {
+    return auth.response
+  }
+
+  try {
+    switch (query.action) {
+      case 'get-user-roles':
+        return NextResponse.json<ApiResponse<{ memberId: string, roles: Role[], bootstrapAdmin: boolean }>>({
+          success: true,
+          data: {
+            memberId: query.memberId,
+            roles: await getUserRoles(query.memberId),
+            bootstrapAdmin: isBootstrapAdmin(query.memberId)
+          }
+        })
+
+      case 'list-role-assignments':
+        const assignments = await db.userRole.findMany({
+          where: query.role ? { role: query.role } : undefined,
+          orderBy: { createdAt: 'desc' }
+        })
+
+        return NextResponse.json<ApiResponse<{ assignments: RoleAssignment[], totalCount: number }>>({
+          success: true,
+          data: {
+            assignments: assignments.map(assignment => ({
+              memberId: assignment.userId,
+              role: assignment.role,
+              grantedBy: assignment.grantedBy,
+              createdAt: assignment.createdAt.toISOString()
+            })),
+            totalCount: assignments.length
+          }
+        })
+    }
+  } catch (error) {
+    console.error('Admin GET API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
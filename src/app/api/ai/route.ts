@@ -1,12 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
+import { createId } from '@/lib/ids'
+import type { ApiResponse } from '@/lib/api/common'
+import { aiActionRequest, aiQuery, type AIActionResults, type CommunityMetrics } from '@/lib/api/ai'
+import { parseJsonBody, parseQuery } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { AI_ACTION_PERMISSIONS, AI_QUERY_PERMISSIONS } from '@/lib/auth/permissions'
 
 // Store AI conversations and insights
 const aiConversations = new Map<string, any[]>()
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, data, userId } = await request.json()
+    const parsed = await parseJsonBody(aiActionRequest, request)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const auth = await authorize(AI_ACTION_PERMISSIONS[parsed.data.action])
+    if (!auth.success) {
+      return auth.response
+    }
+    const { userId } = auth
+    const { action, data } = parsed.data
 
     switch (action) {
       case 'private-ai-assistant':
@@ -43,7 +58,7 @@ export async function POST(request: NextRequest) {
         const aiResponse = completion.choices[0]?.message?.content || 'I apologize, but I cannot provide a response at this time.'
 
         // Store conversation (without sensitive data)
-        const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        const conversationId = createId('conversation')
         const conversationEntry = {
           id: conversationId,
           query: data.query,
@@ -58,7 +73,7 @@ export async function POST(request: NextRequest) {
         }
         aiConversations.get(userId).push(conversationEntry)
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<AIActionResults['private-ai-assistant']>>({
           success: true,
           data: {
             response: aiResponse,
@@ -75,7 +90,7 @@ export async function POST(request: NextRequest) {
         // Generate insights without exposing individual data
         const insights = await generateCommunityInsights(communityMetrics)
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<AIActionResults['analyze-community-data']>>({
           success: true,
           data: {
             insights,
@@ -121,7 +136,7 @@ export async function POST(request: NextRequest) {
 
         const recommendation = govCompletion.choices[0]?.message?.content || 'Unable to generate recommendation.'
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<AIActionResults['generate-governance-recommendation']>>({
           success: true,
           data: {
             recommendation,
@@ -147,20 +162,21 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
-  const action = searchParams.get('action')
-  const userId = searchParams.get('userId')
+  const parsed = parseQuery(aiQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const query = parsed.data
+  const auth = await authorize(AI_QUERY_PERMISSIONS[query.action])
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
 
   try {
-    switch (action) {
+    switch (query.action) {
       case 'get-conversation-history':
-        if (!userId) {
-          return NextResponse.json({
-            success: false,
-            error: 'User ID required'
-          }, { status: 400 })
-        }
-
-        const conversations = aiConversations.get(userId) || []
+        const conversations = (userId && aiConversations.get(userId)) || []
         
         return NextResponse.json({
           success: true,
@@ -229,7 +245,7 @@ function categorizeQuery(query: string): string {
   return 'general'
 }
 
-async function generateCommunityInsights(metrics: any): Promise<string[]> {
+async function generateCommunityInsights(metrics: CommunityMetrics): Promise<string[]> {
   // Simulate AI analysis of community metrics
   const insights = [
     `Community participation is ${metrics.participationRate > 0.7 ? 'high' : 'moderate'} at ${(metrics.participationRate * 100).toFixed(1)}%`,
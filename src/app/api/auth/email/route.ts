@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emailSignInRequest } from '@/lib/api/auth'
+import { parseJsonBody } from '@/lib/api/validation'
+import { isEmailSignInEnabled, sendSignInLink } from '@/lib/auth/email'
+
+// Sends a magic sign-in link; the link itself is redeemed through signIn('email')
+export async function POST(request: NextRequest) {
+  if (!isEmailSignInEnabled()) {
+    return NextResponse.json({
+      success: false,
+      error: 'Email sign-in is not enabled'
+    }, { status: 404 })
+  }
+
+  try {
+    const parsed = await parseJsonBody(emailSignInRequest, request)
+    if (!parsed.success) {
+      return parsed.response
+    }
+
+    await sendSignInLink(parsed.data.email, process.env.NEXTAUTH_URL ?? request.nextUrl.origin)
+
+    return NextResponse.json({
+      success: true,
+      data: { message: `Sign-in link sent to ${parsed.data.email}` }
+    })
+  } catch (error) {
+    console.error('Email sign-in API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import type { ApiResponse } from '@/lib/api/common'
+import type { SiweNonce } from '@/lib/api/auth'
+import { issueSiweNonce } from '@/lib/auth/wallet'
+
+// Fresh nonce for the next Sign-In with Ethereum message
+export async function GET() {
+  try {
+    const nonce = await issueSiweNonce()
+
+    return NextResponse.json<ApiResponse<SiweNonce>>({
+      success: true,
+      data: { nonce }
+    }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Auth nonce API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { financeExportQuery } from '@/lib/api/finance'
+import { parseQuery } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { FINANCE_EXPORT_PERMISSION } from '@/lib/auth/permissions'
+import { FinanceError } from '@/lib/finance/errors'
+import { DEFAULT_CURRENCY, getBalance } from '@/lib/finance/accounts'
+import {
+  getAllTransactions,
+  transactionsToCSV,
+  transactionsToOFX
+} from '@/lib/finance/history'
+
+// Download transaction history for accounting tools. Accepts the same filters as get-transactions.
+export async function GET(request: NextRequest) {
+  const auth = await authorize(FINANCE_EXPORT_PERMISSION)
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
+
+  const { searchParams } = new URL(request.url)
+  const parsed = parseQuery(financeExportQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const { format, ...filters } = parsed.data
+
+  try {
+    const date = new Date().toISOString().slice(0, 10)
+
+    switch (format) {
+      case 'csv':
+        // Read outside an interactive transaction, which would time out on long histories
+        const transactions = await getAllTransactions(db, userId, filters)
+
+        return new NextResponse(transactionsToCSV(transactions, filters.currency), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="realfi-transactions-${date}.csv"`
+          }
+        })
+
+      case 'ofx':
+        // An OFX statement is single-currency
+        const currency = filters.currency ?? DEFAULT_CURRENCY
+        const account = await db.account.findUnique({ where: { userId } })
+        const statementTransactions = await getAllTransactions(db, userId, { ...filters, currency })
+
+        return new NextResponse(transactionsToOFX(statementTransactions, {
+          accountId: account?.id ?? userId,
+          currency,
+          balance: account ? await getBalance(db, account.id, currency) : 0,
+          from: filters.from,
+          to: filters.to
+        }), {
+          headers: {
+            'Content-Type': 'application/x-ofx; charset=utf-8',
+            'Content-Disposition': `attachment; filename="realfi-transactions-${date}.ofx"`
+          }
+        })
+    }
+  } catch (error) {
+    if (error instanceof FinanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
+    console.error('Finance export API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { paymentLinkActionRequest } from '@/lib/api/finance'
+import { parseJsonBody } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { PAYMENT_LINK_PERMISSION } from '@/lib/auth/permissions'
+import { FinanceError } from '@/lib/finance/errors'
+import { serializeTransaction } from '@/lib/finance/accounts'
+import {
+  claimPaymentLink,
+  getPaymentLink,
+  reclaimPaymentLink,
+  serializePaymentLink
+} from '@/lib/finance/payment-links'
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { code } = await params
+
+  try {
+    const link = await getPaymentLink(db, code)
+
+    return NextResponse.json({
+      success: true,
+      data: serializePaymentLink(link)
+    })
+  } catch (error) {
+    if (error instanceof FinanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
+    console.error('Payment link GET API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { code } = await params
+  const auth = await authorize(PAYMENT_LINK_PERMISSION)
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
+
+  try {
+    const parsed = await parseJsonBody(paymentLinkActionRequest, request)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const { action } = parsed.data
+
+    switch (action) {
+      case 'claim':
+        // Anyone holding the code can claim the escrowed funds
+        const claimResult = await db.$transaction(tx => claimPaymentLink(tx, code, userId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            link: serializePaymentLink(claimResult.link),
+            transaction: serializeTransaction(claimResult.transaction),
+            newBalance: claimResult.newBalance,
+            message: `Claimed ${claimResult.link.currency} ${claimResult.link.amount.toFixed(2)}`
+          }
+        })
+
+      case 'reclaim':
+        // The sender takes back an expired link
+        const reclaimResult = await db.$transaction(tx => reclaimPaymentLink(tx, code, userId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            link: serializePaymentLink(reclaimResult.link),
+            transaction: serializeTransaction(reclaimResult.transaction),
+            newBalance: reclaimResult.newBalance,
+            message: `Refunded ${reclaimResult.link.currency} ${reclaimResult.link.amount.toFixed(2)}`
+          }
+        })
+    }
+  } catch (error) {
+    if (error instanceof FinanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
+    console.error('Payment link API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
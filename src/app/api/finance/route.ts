@@ -1,18 +1,122 @@
 import { NextRequest, NextResponse } from 'next/server'
-import ZAI from 'z-ai-web-dev-sdk'
-
-// Mock user balances and transactions
-const userBalances = new Map<string, any>()
-const transactions = new Map<string, any[]>()
+import { db } from '@/lib/db'
+import { createWalletAddress } from '@/lib/ids'
+import { withIdempotency } from '@/lib/idempotency'
+import type { ApiResponse } from '@/lib/api/common'
+import {
+  financeActionRequest,
+  financeQuery,
+  type FinanceActionRequest,
+  type FinanceActionResults,
+  type FinanceQueryResults
+} from '@/lib/api/finance'
+import { parseBody, parseQuery, readJsonBody } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { FINANCE_ACTION_PERMISSIONS, FINANCE_QUERY_PERMISSIONS } from '@/lib/auth/permissions'
+import { FinanceError } from '@/lib/finance/errors'
+import {
+  getBalance,
+  getOrCreateAccount,
+  serializeTransaction
+} from '@/lib/finance/accounts'
+import { getLedgerBalance, getTrialBalance, savingsAccount } from '@/lib/finance/ledger'
+import { getTransactionPage } from '@/lib/finance/history'
+import {
+  cancelInvoice,
+  createInvoice,
+  enableMerchantMode,
+  getInvoiceByPayload,
+  getInvoices,
+  getSettlementReport,
+  payInvoice,
+  renderInvoiceQRCode,
+  serializeInvoice
+} from '@/lib/finance/invoices'
+import {
+  fundLoanPool,
+  getCreditProfile,
+  getLoanPoolExposure,
+  getLoans,
+  publishReputationChanges,
+  repayLoan,
+  requestLoan
+} from '@/lib/finance/loans'
+import { fundTreasury, getTreasury } from '@/lib/finance/treasury'
+import { createProposal, publishProposalEvents } from '@/lib/governance/proposals'
+import {
+  contributeToCircle,
+  createSavingsCircle,
+  getSavingsCircles,
+  joinSavingsCircle,
+  placeCircleBid,
+  startSavingsCircle
+} from '@/lib/finance/circles'
+import {
+  COMMUNITY_SCOPE,
+  getEffectiveRules,
+  getSpendingUsage,
+  setSpendingLimits
+} from '@/lib/finance/limits'
+import { setFeeRate } from '@/lib/finance/fees'
+import { sendPayment } from '@/lib/finance/payments'
+import {
+  SUPPORTED_CURRENCIES,
+  getConversionRate,
+  getMarketQuotes,
+  valuePortfolio
+} from '@/lib/finance/rates'
+import { getSwapQuote, swapCurrency } from '@/lib/finance/swaps'
+import {
+  cancelStandingOrder,
+  createStandingOrder,
+  getStandingOrders,
+  pauseStandingOrder,
+  resumeStandingOrder
+} from '@/lib/finance/standing-orders'
+import { UBI_AMOUNT, claimUBI, getNextClaimTime } from '@/lib/finance/ubi'
+import {
+  accrueAccountInterest,
+  depositSavings,
+  getSavingsPositions,
+  setSavingsRate,
+  withdrawSavings
+} from '@/lib/finance/savings'
+import { emitToUser } from '@/lib/socket'
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, data, userId } = await request.json()
+    const json = await readJsonBody(request)
+    if (!json.success) {
+      return json.response
+    }
+    const body = json.data
+    const parsed = parseBody(financeActionRequest, body)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const auth = await authorize(FINANCE_ACTION_PERMISSIONS[parsed.data.action])
+    if (!auth.success) {
+      return auth.response
+    }
+    const { userId } = auth
+
+    // Retries carrying the same Idempotency-Key get the first response back
+    return await withIdempotency(request, `finance:${userId}`, body, () => handleAction(parsed.data, userId))
+  } catch (error) {
+    console.error('Finance API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
 
+async function handleAction({ action, data }: FinanceActionRequest, userId: string) {
+  try {
     switch (action) {
       case 'connect-human-wallet':
         // Simulate Human Wallet connection
-        const walletAddress = `0x${Math.random().toString(16).substr(2, 40)}`
+        const walletAddress = createWalletAddress()
         const walletData = {
           walletAddress,
           network: 'Celo',
@@ -20,148 +124,388 @@ export async function POST(request: NextRequest) {
           features: ['stablecoin_payments', 'peanut_links', 'accessible_recovery']
         }
 
-        // Initialize user balance if not exists
-        if (!userBalances.has(userId)) {
-          userBalances.set(userId, {
-            gBalance: 0,
-            usdBalance: 0,
-            savings: 0,
-            walletAddress
-          })
-        }
+        // Create the ledger account on first connection; reconnecting replaces the wallet
+        // and restarts the payment cool-down
+        await db.account.upsert({
+          where: { userId },
+          update: {
+            walletAddress,
+            network: walletData.network,
+            connectedAt: new Date(walletData.connectedAt)
+          },
+          create: {
+            userId,
+            walletAddress,
+            network: walletData.network,
+            connectedAt: new Date(walletData.connectedAt)
+          }
+        })
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<FinanceActionResults['connect-human-wallet']>>({
           success: true,
           data: walletData
         })
 
       case 'claim-ubi':
-        // Simulate GoodDollar UBI claim
-        const userBalance = userBalances.get(userId) || { gBalance: 0, usdBalance: 0, savings: 0 }
-        const ubiAmount = 10 // G$ 10 daily UBI
-        const newBalance = userBalance.gBalance + ubiAmount
-        
-        userBalances.set(userId, {
-          ...userBalance,
-          gBalance: newBalance,
-          lastClaim: new Date().toISOString()
-        })
-
-        // Record transaction
-        const txId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        const transaction = {
-          id: txId,
-          type: 'ubi_claim',
-          amount: ubiAmount,
-          currency: 'G$',
-          timestamp: new Date().toISOString(),
-          status: 'completed'
-        }
-
-        if (!transactions.has(userId)) {
-          transactions.set(userId, [])
-        }
-        transactions.get(userId).push(transaction)
+        // GoodDollar UBI claim, once per claim period
+        const claimResult = await db.$transaction(tx => claimUBI(tx, userId))
 
         return NextResponse.json({
           success: true,
           data: {
-            transaction,
-            newBalance,
-            message: `Successfully claimed G$ ${ubiAmount} UBI`
+            transaction: serializeTransaction(claimResult.transaction),
+            newBalance: claimResult.newBalance,
+            claimStreak: claimResult.claimStreak,
+            nextClaimAt: claimResult.nextClaimAt.toISOString(),
+            message: `Successfully claimed G$ ${UBI_AMOUNT} UBI`
           }
         })
 
       case 'send-payment':
-        // Simulate payment with Peanut Protocol
-        const { recipient, amount, currency } = data
-        const senderBalance = userBalances.get(userId)
-        
-        if (!senderBalance || senderBalance.gBalance < amount) {
-          return NextResponse.json({
-            success: false,
-            error: 'Insufficient balance'
-          }, { status: 400 })
-        }
+        // Peanut-style payment: direct to a known member, otherwise escrowed behind a claim link
+        const { recipient, amount, currency, expiresInHours } = data
 
-        // Calculate fee (0.5%)
-        const fee = amount * 0.005
-        const totalDeduction = amount + fee
-        
-        // Update sender balance
-        userBalances.set(userId, {
-          ...senderBalance,
-          gBalance: senderBalance.gBalance - totalDeduction
-        })
-
-        // Create payment link (Peanut Protocol simulation)
-        const paymentLink = `https://peanut.to/claim/${Math.random().toString(36).substr(2, 16)}`
-        
-        const paymentTx = {
-          id: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          type: 'payment',
-          recipient,
-          amount,
-          currency,
-          fee,
-          paymentLink,
-          timestamp: new Date().toISOString(),
-          status: 'completed'
-        }
-
-        if (!transactions.has(userId)) {
-          transactions.set(userId, [])
-        }
-        transactions.get(userId).push(paymentTx)
+        const paymentResult = await db.$transaction(tx =>
+          sendPayment(tx, userId, { recipient, amount, currency, expiresInHours })
+        )
 
         return NextResponse.json({
           success: true,
           data: {
-            transaction: paymentTx,
-            remainingBalance: userBalances.get(userId).gBalance,
-            message: `Payment sent successfully. Fee: G$ ${fee.toFixed(2)}`
+            transaction: serializeTransaction(paymentResult.transaction),
+            claimCode: paymentResult.claimCode,
+            expiresAt: paymentResult.expiresAt?.toISOString(),
+            remainingBalance: paymentResult.remainingBalance,
+            message: paymentResult.claimCode
+              ? `Payment link created. Fee: G$ ${paymentResult.fee.toFixed(2)}`
+              : `Payment sent successfully. Fee: G$ ${paymentResult.fee.toFixed(2)}`
           }
         })
 
       case 'deposit-savings':
-        // Simulate savings deposit with 5% interest
-        const { depositAmount } = data
-        const currentBalance = userBalances.get(userId)
-        
-        if (!currentBalance || currentBalance.gBalance < depositAmount) {
-          return NextResponse.json({
-            success: false,
-            error: 'Insufficient balance for deposit'
-          }, { status: 400 })
-        }
+        // Savings deposit, flexible or locked for a term
+        const { depositAmount, termDays, earlyWithdrawalPenalty } = data
+
+        const savingsResult = await db.$transaction(tx =>
+          depositSavings(tx, userId, depositAmount, { termDays, earlyWithdrawalPenalty })
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(savingsResult.transaction),
+            positionId: savingsResult.position.id,
+            maturityDate: savingsResult.position.maturityDate?.toISOString() ?? null,
+            totalSavings: savingsResult.totalSavings,
+            message: `Deposited G$ ${depositAmount} to savings (${savingsResult.interestRate}% APY)`
+          }
+        })
+
+      case 'withdraw-savings':
+        // Withdraw from a savings position, early withdrawals may carry a penalty
+        const { positionId, amount: withdrawAmount } = data
 
-        userBalances.set(userId, {
-          ...currentBalance,
-          gBalance: currentBalance.gBalance - depositAmount,
-          savings: currentBalance.savings + depositAmount
+        const withdrawResult = await db.$transaction(tx =>
+          withdrawSavings(tx, userId, positionId, withdrawAmount)
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(withdrawResult.transaction),
+            penalty: withdrawResult.penalty,
+            newBalance: withdrawResult.newBalance,
+            totalSavings: withdrawResult.totalSavings,
+            message: withdrawResult.penalty > 0
+              ? `Withdrew G$ ${withdrawResult.transaction.amount.toFixed(2)} from savings. Early withdrawal penalty: G$ ${withdrawResult.penalty.toFixed(2)}`
+              : `Withdrew G$ ${withdrawResult.transaction.amount.toFixed(2)} from savings`
+          }
         })
 
-        const savingsTx = {
-          id: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          type: 'savings_deposit',
-          amount: depositAmount,
-          currency: 'G$',
-          interestRate: 5,
-          timestamp: new Date().toISOString(),
-          status: 'completed'
-        }
+      case 'set-savings-rate':
+        // Schedule a new community savings rate
+        const savingsRate = await db.$transaction(tx => setSavingsRate(tx, data.rate, data.effectiveFrom))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            rate: savingsRate.rate,
+            effectiveFrom: savingsRate.effectiveFrom.toISOString(),
+            message: `Savings rate set to ${savingsRate.rate}% APY`
+          }
+        })
+
+      case 'set-fee-rate':
+        // Schedule a new payment or swap fee rate
+        const feeRate = await db.$transaction(tx => setFeeRate(tx, data.kind, data.rate, data.effectiveFrom))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            kind: feeRate.kind,
+            rate: feeRate.rate,
+            effectiveFrom: feeRate.effectiveFrom.toISOString(),
+            message: `${data.kind === 'payment' ? 'Payment' : 'Swap'} fee set to ${feeRate.rate}%`
+          }
+        })
+
+      case 'create-standing-order':
+        // Recurring payment on a cron schedule, optionally bounded by end date or run count
+        const standingOrder = await db.$transaction(tx => createStandingOrder(tx, userId, data))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            orderId: standingOrder.id,
+            nextRunAt: standingOrder.nextRunAt.toISOString(),
+            message: `Standing order created. First payment on ${standingOrder.nextRunAt.toISOString()}`
+          }
+        })
+
+      case 'pause-standing-order':
+      case 'resume-standing-order':
+      case 'cancel-standing-order':
+        const updateOrder = {
+          'pause-standing-order': pauseStandingOrder,
+          'resume-standing-order': resumeStandingOrder,
+          'cancel-standing-order': cancelStandingOrder
+        }[action]
+        const updatedOrder = await db.$transaction(tx => updateOrder(tx, userId, data.orderId))
 
-        if (!transactions.has(userId)) {
-          transactions.set(userId, [])
+        return NextResponse.json({
+          success: true,
+          data: {
+            orderId: updatedOrder.id,
+            status: updatedOrder.status,
+            nextRunAt: updatedOrder.nextRunAt.toISOString(),
+            message: `Standing order ${updatedOrder.status}`
+          }
+        })
+
+      case 'create-circle':
+        // Rotating savings circle; the creator is its first member
+        const circle = await db.$transaction(tx => createSavingsCircle(tx, userId, data))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            circleId: circle.id,
+            message: `Savings circle ${circle.name} created. Share its ID so others can join.`
+          }
+        })
+
+      case 'join-circle':
+        await db.$transaction(tx => joinSavingsCircle(tx, userId, data.circleId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            circleId: data.circleId,
+            message: 'Joined savings circle'
+          }
+        })
+
+      case 'start-circle':
+        const started = await db.$transaction(tx => startSavingsCircle(tx, userId, data.circleId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            circleId: started.circle.id,
+            firstRoundDueAt: started.round.dueAt.toISOString(),
+            message: `Savings circle started. First contribution due ${started.round.dueAt.toISOString()}`
+          }
+        })
+
+      case 'contribute-to-circle':
+        const circleContribution = await db.$transaction(tx => contributeToCircle(tx, userId, data.circleId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(circleContribution.transaction),
+            status: circleContribution.contribution.status,
+            penalty: circleContribution.contribution.penalty,
+            message: circleContribution.contribution.penalty > 0
+              ? `Contribution recorded with a late penalty of ${circleContribution.contribution.penalty.toFixed(2)}`
+              : 'Contribution recorded'
+          }
+        })
+
+      case 'place-circle-bid':
+        const circleBid = await db.$transaction(tx => placeCircleBid(tx, userId, data.circleId, data.amount))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            amount: circleBid.amount,
+            message: `Bid of ${circleBid.amount.toFixed(2)} placed`
+          }
+        })
+
+      case 'request-loan':
+        // Small loans to trusted members are paid out at once, others go to a community vote
+        const loanRequest = await db.$transaction(async (tx) => {
+          const request = await requestLoan(tx, userId, data)
+          if (!request.requiresVote) {
+            return { ...request, proposal: null }
+          }
+
+          const { loan } = request
+          const proposal = await createProposal(tx, {
+            title: `Loan request: ${loan.currency} ${loan.principal.toFixed(2)} over ${loan.termMonths} months`,
+            description: loan.purpose || 'Microloan from the community loan pool',
+            category: 'finance',
+            author: userId,
+            budget: loan.principal,
+            loanId: loan.id
+          })
+          return {
+            ...request,
+            loan: await tx.loan.update({ where: { id: loan.id }, data: { proposalId: proposal.proposal.id } }),
+            proposal
+          }
+        })
+        if (loanRequest.proposal) {
+          publishProposalEvents([loanRequest.proposal.event])
         }
-        transactions.get(userId).push(savingsTx)
 
         return NextResponse.json({
           success: true,
           data: {
-            transaction: savingsTx,
-            totalSavings: userBalances.get(userId).savings,
-            message: `Deposited G$ ${depositAmount} to savings (5% APY)`
+            loanId: loanRequest.loan.id,
+            status: loanRequest.loan.status,
+            proposalId: loanRequest.loan.proposalId,
+            message: loanRequest.requiresVote
+              ? 'Loan request submitted for a community vote'
+              : `Loan approved. ${loanRequest.loan.currency} ${loanRequest.loan.principal.toFixed(2)} added to your wallet`
+          }
+        })
+
+      case 'repay-loan':
+        const repayment = await db.$transaction(tx => repayLoan(tx, userId, data.loanId, data.amount))
+        // Human Protocol is slow; sync reputation in the background
+        publishReputationChanges(repayment.reputationChanges)
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(repayment.transaction),
+            status: repayment.loan.status,
+            outstanding: repayment.outstanding,
+            message: repayment.loan.status === 'repaid'
+              ? 'Loan fully repaid'
+              : `Repayment recorded. Outstanding: ${repayment.loan.currency} ${repayment.outstanding.toFixed(2)}`
+          }
+        })
+
+      case 'fund-loan-pool':
+        const poolDeposit = await db.$transaction(tx => fundLoanPool(tx, userId, data.amount, data.currency))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(poolDeposit),
+            message: `Added ${poolDeposit.currency} ${poolDeposit.amount.toFixed(2)} to the loan pool`
+          }
+        })
+
+      case 'fund-treasury':
+        const treasuryDeposit = await db.$transaction(tx => fundTreasury(tx, userId, data.amount, data.currency))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(treasuryDeposit),
+            message: `Added ${treasuryDeposit.currency} ${treasuryDeposit.amount.toFixed(2)} to the community treasury`
+          }
+        })
+
+      case 'set-spending-limits':
+        // Admins set the community rule, or a member override when data.memberId is given
+        const { memberId, ...rules } = data
+        const spendingLimit = await db.$transaction(async (tx) => {
+          let scope = COMMUNITY_SCOPE
+          if (memberId) {
+            const member = await tx.account.findUnique({ where: { userId: memberId } })
+            if (!member) {
+              throw new FinanceError('Member account not found', 404)
+            }
+            scope = member.id
+          }
+          return setSpendingLimits(tx, scope, rules, userId)
+        })
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            limits: spendingLimit,
+            message: memberId ? `Spending limits updated for ${memberId}` : 'Community spending limits updated'
+          }
+        })
+
+      case 'enable-merchant':
+        // Merchant mode lets a member issue invoices for point-of-sale payments
+        const merchantAccount = await db.$transaction(tx => enableMerchantMode(tx, userId, data.merchantName))
+
+        return NextResponse.json<ApiResponse<FinanceActionResults['enable-merchant']>>({
+          success: true,
+          data: {
+            merchantName: data.merchantName,
+            message: `Merchant mode enabled for ${merchantAccount.merchantName}`
+          }
+        })
+
+      case 'create-invoice':
+        // The payload is what the customer scans; the QR image is rendered from it
+        const created = await db.$transaction(tx => createInvoice(tx, userId, data))
+
+        return NextResponse.json<ApiResponse<FinanceActionResults['create-invoice']>>({
+          success: true,
+          data: {
+            invoice: serializeInvoice(created.invoice),
+            payload: created.payload,
+            qrCode: await renderInvoiceQRCode(created.payload),
+            message: `Invoice created for ${created.invoice.currency} ${created.invoice.amount.toFixed(2)}`
+          }
+        })
+
+      case 'pay-invoice':
+        const settled = await db.$transaction(tx => payInvoice(tx, userId, data.payload))
+        // Tell the merchant's till straight away
+        emitToUser(settled.merchantUserId, 'invoice:paid', {
+          invoice: serializeInvoice(settled.invoice),
+          paidBy: userId
+        })
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            invoice: serializeInvoice(settled.invoice),
+            transaction: serializeTransaction(settled.payment.transaction),
+            remainingBalance: settled.payment.remainingBalance,
+            message: `Paid ${settled.merchantName} ${settled.invoice.currency} ${settled.invoice.amount.toFixed(2)}. Fee: ${settled.invoice.currency} ${settled.payment.fee.toFixed(2)}`
+          }
+        })
+
+      case 'cancel-invoice':
+        await db.$transaction(tx => cancelInvoice(tx, userId, data.invoiceId))
+
+        return NextResponse.json({
+          success: true,
+          data: { message: 'Invoice cancelled' }
+        })
+
+      case 'swap':
+        // Exchange between supported currencies at the provider's rate
+        const swapResult = await db.$transaction(tx => swapCurrency(tx, userId, data))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            transaction: serializeTransaction(swapResult.transaction),
+            rate: swapResult.quote.rate,
+            message: `Swapped ${swapResult.quote.fromCurrency} ${swapResult.quote.amount.toFixed(2)} for ${swapResult.quote.toCurrency} ${swapResult.quote.amountOut.toFixed(2)}. Fee: ${swapResult.quote.fromCurrency} ${swapResult.quote.fee.toFixed(2)}`
           }
         })
 
@@ -172,6 +516,14 @@ export async function POST(request: NextRequest) {
         }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof FinanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
     console.error('Finance API error:', error)
     return NextResponse.json({
       success: false,
@@ -182,78 +534,240 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
-  const action = searchParams.get('action')
-  const userId = searchParams.get('userId')
+  const parsed = parseQuery(financeQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const query = parsed.data
+  const auth = await authorize(FINANCE_QUERY_PERMISSIONS[query.action])
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
 
   try {
-    switch (action) {
+    switch (query.action) {
       case 'get-balance':
-        if (!userId) {
-          return NextResponse.json({
-            success: false,
-            error: 'User ID required'
-          }, { status: 400 })
+        // Portfolio is valued in the member's preferred currency
+        const valuationCurrency = query.currency
+        const account = await db.account.findUnique({ where: { userId: userId } })
+        const balances: Record<string, number> = {}
+        for (const currency of SUPPORTED_CURRENCIES) {
+          balances[currency] = account ? await getBalance(db, account.id, currency) : 0
         }
+        const gBalance = balances['G$']
 
-        const balance = userBalances.get(userId) || {
-          gBalance: 0,
-          usdBalance: 0,
-          savings: 0
-        }
+        // Bring interest up to date before reporting savings
+        const positions = account
+          ? await db.$transaction(async (tx) => {
+              await accrueAccountInterest(tx, account.id)
+              return getSavingsPositions(tx, account.id)
+            })
+          : []
+        const savings = account ? await getLedgerBalance(db, savingsAccount(account.id), 'G$') : 0
+        const accruedInterest = positions.reduce((sum, position) => sum + position.accruedInterest, 0)
+        const projectedAnnualReturn = positions.reduce(
+          (sum, position) => sum + position.value * position.currentRate / 100,
+          0
+        )
+        const gUSDRate = await getConversionRate('G$', 'USD')
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-balance']>>({
+          success: true,
+          data: {
+            gBalance,
+            balances,
+            savings,
+            accruedInterest,
+            walletAddress: account?.walletAddress ?? undefined,
+            lastClaim: account?.lastClaim?.toISOString(),
+            nextClaimAt: getNextClaimTime(account?.lastClaim ?? null)?.toISOString() ?? null,
+            claimStreak: account?.claimStreak ?? 0,
+            gUSDValue: gBalance * gUSDRate,
+            savingsUSDValue: savings * gUSDRate,
+            projectedAnnualReturn,
+            valuationCurrency,
+            portfolioValue: await valuePortfolio({ ...balances, 'G$': gBalance + savings }, valuationCurrency)
+          }
+        })
+
+      case 'get-savings':
+        const savingsAccountRecord = await db.account.findUnique({ where: { userId: userId } })
+        const savingsPositions = savingsAccountRecord
+          ? await db.$transaction(async (tx) => {
+              await accrueAccountInterest(tx, savingsAccountRecord.id)
+              return getSavingsPositions(tx, savingsAccountRecord.id)
+            })
+          : []
 
         return NextResponse.json({
           success: true,
           data: {
-            ...balance,
-            gUSDValue: balance.gBalance * 0.01, // G$ to USD conversion
-            savingsUSDValue: balance.savings * 0.01,
-            projectedAnnualReturn: balance.savings * 0.05 // 5% APY
+            positions: savingsPositions,
+            totalCount: savingsPositions.length
           }
         })
 
       case 'get-transactions':
-        if (!userId) {
-          return NextResponse.json({
-            success: false,
-            error: 'User ID required'
-          }, { status: 400 })
-        }
+        // Cursor pagination, filtered by the transactionFilterQuery parameters
+        const transactionPage = await db.$transaction(tx => getTransactionPage(
+          tx,
+          userId,
+          query,
+          {
+            cursor: query.cursor,
+            limit: query.limit
+          }
+        ))
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-transactions']>>({
+          success: true,
+          data: {
+            transactions: transactionPage.transactions.map(serializeTransaction),
+            nextCursor: transactionPage.nextCursor,
+            totalCount: transactionPage.totalCount
+          }
+        })
+
+      case 'get-loans':
+        const borrower = await db.$transaction(async (tx) => {
+          const account = await tx.account.findUnique({ where: { userId: userId } })
+          return {
+            loans: await getLoans(tx, userId),
+            creditProfile: account ? await getCreditProfile(tx, account.id) : null
+          }
+        })
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-loans']>>({
+          success: true,
+          data: borrower
+        })
+
+      case 'get-loan-pool':
+        // Exposure view for lenders
+        const exposure = await db.$transaction(tx =>
+          getLoanPoolExposure(tx, userId, query.currency)
+        )
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-loan-pool']>>({
+          success: true,
+          data: exposure
+        })
+
+      case 'get-treasury':
+        const treasury = await db.$transaction(tx => getTreasury(tx, query.currency))
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-treasury']>>({
+          success: true,
+          data: treasury
+        })
+
+      case 'get-circles':
+        const circles = await db.$transaction(tx => getSavingsCircles(tx, userId))
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-circles']>>({
+          success: true,
+          data: { circles }
+        })
+
+      case 'get-spending-limits':
+        // Effective rules and how much of each the member has used
+        const limitsCurrency = query.currency
+        const spending = await db.$transaction(async (tx) => {
+          const account = await tx.account.findUnique({ where: { userId: userId } })
+          return account
+            ? getSpendingUsage(tx, account, limitsCurrency)
+            : { rules: await getEffectiveRules(tx, null, limitsCurrency) }
+        })
 
-        const userTransactions = transactions.get(userId) || []
-        
         return NextResponse.json({
           success: true,
           data: {
-            transactions: userTransactions.sort((a, b) => 
-              new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-            ),
-            totalCount: userTransactions.length
+            currency: limitsCurrency,
+            ...spending
           }
         })
 
-      case 'get-market-rates':
-        // Simulate market rates
+      case 'get-standing-orders':
+        const orders = await db.$transaction(tx => getStandingOrders(tx, userId))
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-standing-orders']>>({
+          success: true,
+          data: {
+            orders,
+            totalCount: orders.length
+          }
+        })
+
+      case 'get-invoice':
+        // Preview a scanned invoice before paying it
+        const scanned = await db.$transaction(tx => getInvoiceByPayload(tx, query.payload))
+
         return NextResponse.json({
           success: true,
           data: {
-            'G$': {
-              price: 0.01, // 1 G$ = $0.01 USD
-              change24h: 0.5,
-              volume24h: 1500000
-            },
-            'CELO': {
-              price: 0.85,
-              change24h: -2.3,
-              volume24h: 25000000
-            },
-            'USDC': {
-              price: 1.00,
-              change24h: 0.1,
-              volume24h: 50000000
-            }
+            invoice: serializeInvoice(scanned.invoice),
+            merchantName: scanned.merchantName
+          }
+        })
+
+      case 'get-invoices':
+        const invoices = await db.$transaction(tx =>
+          getInvoices(tx, userId, query.status)
+        )
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-invoices']>>({
+          success: true,
+          data: {
+            invoices,
+            totalCount: invoices.length
           }
         })
 
+      case 'get-settlement-report':
+        // One UTC day of settled invoices, today unless `date` (YYYY-MM-DD) is given
+        const report = await db.$transaction(tx => getSettlementReport(tx, userId, query.date))
+
+        return NextResponse.json<ApiResponse<FinanceQueryResults['get-settlement-report']>>({
+          success: true,
+          data: report
+        })
+
+      case 'get-trial-balance':
+        // Every debit must be matched by a credit across the whole book
+        const trialBalance = await getTrialBalance(db)
+
+        return NextResponse.json({
+          success: true,
+          data: trialBalance
+        })
+
+      case 'get-market-rates':
+        // Prices from the configured rate provider
+        const quotes = await getMarketQuotes()
+
+        return NextResponse.json({
+          success: true,
+          data: Object.fromEntries(
+            SUPPORTED_CURRENCIES
+              .filter(currency => quotes[currency])
+              .map(currency => [currency, quotes[currency]])
+          )
+        })
+
+      case 'get-swap-quote':
+        const swapQuote = await getSwapQuote(
+          db,
+          query.from,
+          query.to,
+          query.amount
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: swapQuote
+        })
+
       default:
         return NextResponse.json({
           success: false,
@@ -261,10 +775,18 @@ export async function GET(request: NextRequest) {
         }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof FinanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
     console.error('Finance GET API error:', error)
     return NextResponse.json({
       success: false,
       error: 'Internal server error'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -1,202 +1,453 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
-
-// Mock governance data
-const proposals = new Map<string, any>()
-const votes = new Map<string, any>()
-const communityGoals = new Map<string, any>()
-
-// Initialize sample community goals
-communityGoals.set('solar-project', {
-  id: 'solar-project',
-  title: 'Community Solar Project',
-  description: 'Install solar panels for community energy independence',
-  targetAmount: 50000,
-  currentAmount: 37500,
-  contributors: 45,
-  deadline: new Date('2024-12-31').toISOString(),
-  category: 'infrastructure'
-})
-
-communityGoals.set('food-coop', {
-  id: 'food-coop',
-  title: 'Local Food Cooperative',
-  description: 'Establish community-owned food distribution network',
-  targetAmount: 25000,
-  currentAmount: 15000,
-  contributors: 32,
-  deadline: new Date('2024-11-30').toISOString(),
-  category: 'food_security'
-})
-
-communityGoals.set('education-fund', {
-  id: 'education-fund',
-  title: 'Education Fund',
-  description: 'Support community education and skill development',
-  targetAmount: 15000,
-  currentAmount: 13500,
-  contributors: 28,
-  deadline: new Date('2024-10-31').toISOString(),
-  category: 'education'
-})
+import { withIdempotency } from '@/lib/idempotency'
+import {
+  PROPOSAL_CATEGORIES,
+  PROPOSAL_STATUSES,
+  VOTING_METHODS,
+  governanceActionRequest,
+  governanceQuery,
+  type GovernanceActionRequest,
+  type ProposalStatus
+} from '@/lib/api/governance'
+import { parseBody, parseQuery, readJsonBody } from '@/lib/api/validation'
+import { authorize, unauthorized } from '@/lib/auth/session'
+import { GOVERNANCE_ACTION_PERMISSIONS, GOVERNANCE_QUERY_PERMISSIONS } from '@/lib/auth/permissions'
+import { hasPermission } from '@/lib/auth/roles'
+import { GovernanceError } from '@/lib/governance/errors'
+import {
+  amendProposal,
+  cancelProposal,
+  castBallot,
+  castVote,
+  createProposal,
+  executeProposal,
+  getTally,
+  proposalRelations,
+  openVoting,
+  publishAmendment,
+  publishProposalEvents,
+  queueProposal,
+  serializeProposal,
+  serializeProposalEvent,
+  serializeVote,
+  submitProposal,
+  vetoProposal
+} from '@/lib/governance/proposals'
+import { cancelTranche, releaseTranche, serializeDisbursement } from '@/lib/governance/disbursements'
+import { diffText, serializeSupersededVote, serializeVersion } from '@/lib/governance/versions'
+import {
+  editComment,
+  flagComment,
+  getCommentHistory,
+  getDiscussion,
+  getFlaggedComments,
+  lockDiscussion,
+  moderateComment,
+  postComment,
+  publishComment,
+  serializeComments,
+  toggleReaction
+} from '@/lib/governance/discussion'
+import {
+  cancelGoal,
+  contributeToGoal,
+  createGoal,
+  getPublicContributions,
+  goalRelations,
+  reviewGoalMilestone,
+  serializeContribution,
+  serializeGoal,
+  serializeMilestone,
+  submitGoalEvidence
+} from '@/lib/governance/goals'
+import { serializeTransaction } from '@/lib/finance/accounts'
+import { getVotingPower } from '@/lib/governance/voting'
+import {
+  getDelegations,
+  getRepresentation,
+  revokeDelegation,
+  serializeDelegation,
+  setDelegation
+} from '@/lib/governance/delegation'
+import { db } from '@/lib/db'
+import { FinanceError } from '@/lib/finance/errors'
+
+// Actions that move funds and therefore honour the Idempotency-Key header
+const IDEMPOTENT_ACTIONS = new Set(['contribute-to-goal', 'cancel-goal', 'review-goal-milestone', 'execute-proposal', 'release-tranche'])
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, data, userId } = await request.json()
+    const json = await readJsonBody(request)
+    if (!json.success) {
+      return json.response
+    }
+    const body = json.data
+    const parsed = parseBody(governanceActionRequest, body)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const auth = await authorize(GOVERNANCE_ACTION_PERMISSIONS[parsed.data.action])
+    if (!auth.success) {
+      return auth.response
+    }
+    const { userId } = auth
+
+    if (IDEMPOTENT_ACTIONS.has(parsed.data.action)) {
+      return await withIdempotency(request, `governance:${userId}`, body, () => handleAction(parsed.data, userId))
+    }
+    return await handleAction(parsed.data, userId)
+  } catch (error) {
+    console.error('Governance API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
 
+async function handleAction({ action, data }: GovernanceActionRequest, userId: string) {
+  try {
     switch (action) {
       case 'create-proposal':
-        // Create new governance proposal
-        const proposalId = `prop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        const newProposal = {
-          id: proposalId,
+        // New proposals open for discussion, or stay private drafts until submitted
+        const created = await db.$transaction(tx => createProposal(tx, {
           title: data.title,
           description: data.description,
           category: data.category,
           author: userId,
-          createdAt: new Date().toISOString(),
-          status: 'active',
-          votingDeadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days
-          votes: { for: 0, against: 0, abstain: 0 },
-          quorum: Math.floor(Math.random() * 20) + 10, // 10-30 votes needed
-          budget: data.budget || 0
-        }
+          budget: data.budget,
+          votingMethod: data.votingMethod,
+          ballotType: data.ballotType,
+          options: data.options,
+          payoutMode: data.payoutMode,
+          disbursements: data.disbursements,
+          draft: data.draft
+        }))
+        publishProposalEvents([created.event])
 
-        proposals.set(proposalId, newProposal)
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(created.proposal),
+            message: data.draft ? 'Draft saved' : 'Proposal created and open for discussion'
+          }
+        })
+
+      case 'submit-proposal':
+      case 'open-voting':
+        // The author moves their proposal along before the scheduler would
+        const advance = action === 'submit-proposal' ? submitProposal : openVoting
+        const advanced = await db.$transaction(tx => advance(tx, data.proposalId, userId))
+        publishProposalEvents([advanced.event])
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(advanced.proposal),
+            message: action === 'submit-proposal' ? 'Proposal submitted for discussion' : 'Voting is open'
+          }
+        })
+
+      case 'amend-proposal':
+        const amended = await db.$transaction(tx => amendProposal(tx, data.proposalId, userId, {
+          title: data.title,
+          description: data.description,
+          summary: data.summary
+        }))
+        publishAmendment(amended.amendment, amended.superseded)
 
         return NextResponse.json({
           success: true,
           data: {
-            proposal: newProposal,
-            message: 'Proposal created successfully'
+            proposal: serializeProposal(amended.proposal),
+            version: serializeVersion(amended.version),
+            amendment: amended.amendment,
+            message: amended.amendment.policy
+              ? `Proposal amended to version ${amended.version.version}; ${amended.amendment.supersededVotes} earlier votes no longer count`
+              : `Proposal amended to version ${amended.version.version}`
           }
         })
 
       case 'vote':
-        // Vote on a proposal
-        const { proposalId: propId, voteType, reason } = data
-        
-        if (!proposals.has(propId)) {
-          return NextResponse.json({
-            success: false,
-            error: 'Proposal not found'
-          }, { status: 404 })
-        }
+        const { proposalId: propId, voteType, credits, reason, versionHash } = data
+        const ballot = await db.$transaction(async (tx) => {
+          const result = await castVote(tx, propId, userId, voteType, { credits, reason, versionHash })
+          return { ...result, tally: await getTally(tx, result.proposal) }
+        })
 
-        const existingProposal = proposals.get(propId)
-        
-        // Check if user already voted
-        if (votes.has(`${propId}_${userId}`)) {
-          return NextResponse.json({
-            success: false,
-            error: 'You have already voted on this proposal'
-          }, { status: 400 })
-        }
+        return NextResponse.json({
+          success: true,
+          data: {
+            vote: serializeVote(ballot.vote),
+            currentVotes: serializeProposal(ballot.proposal).votes,
+            tally: ballot.tally,
+            message: `Vote recorded: ${voteType}`
+          }
+        })
 
-        // Check voting deadline
-        if (new Date() > new Date(existingProposal.votingDeadline)) {
-          return NextResponse.json({
-            success: false,
-            error: 'Voting period has ended'
-          }, { status: 400 })
-        }
+      case 'cast-ballot':
+        const cast = await db.$transaction(async (tx) => {
+          const result = await castBallot(tx, data.proposalId, userId, data.ballot, {
+            credits: data.credits,
+            reason: data.reason,
+            versionHash: data.versionHash
+          })
+          return { ...result, tally: await getTally(tx, result.proposal) }
+        })
 
-        // Record vote
-        const vote = {
-          proposalId: propId,
-          userId,
-          voteType, // 'for', 'against', 'abstain'
-          reason: reason || '',
-          timestamp: new Date().toISOString()
-        }
+        return NextResponse.json({
+          success: true,
+          data: {
+            vote: serializeVote(cast.vote),
+            tally: cast.tally,
+            message: 'Ballot recorded'
+          }
+        })
 
-        votes.set(`${propId}_${userId}`, vote)
-        
-        // Update proposal vote counts
-        existingProposal.votes[voteType]++
-        proposals.set(propId, existingProposal)
+      case 'delegate':
+        const delegation = await db.$transaction(tx => setDelegation(tx, userId, data.delegateId, data.category))
 
         return NextResponse.json({
           success: true,
           data: {
-            vote,
-            currentVotes: existingProposal.votes,
-            message: `Vote recorded: ${voteType}`
+            delegation: serializeDelegation(delegation),
+            message: data.category
+              ? `Voting power on ${data.category} proposals delegated`
+              : 'Voting power delegated'
+          }
+        })
+
+      case 'revoke-delegation':
+        await db.$transaction(tx => revokeDelegation(tx, userId, data.category))
+
+        return NextResponse.json({
+          success: true,
+          data: { message: 'Delegation revoked' }
+        })
+
+      case 'post-comment':
+        const posted = await db.$transaction(tx =>
+          postComment(tx, data.proposalId, userId, data.body, data.parentId)
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            comment: await publishComment(db, 'posted', posted),
+            message: 'Comment posted'
+          }
+        })
+
+      case 'edit-comment':
+        const edited = await db.$transaction(tx => editComment(tx, data.commentId, userId, data.body))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            comment: await publishComment(db, 'edited', edited),
+            message: 'Comment updated'
+          }
+        })
+
+      case 'react-to-comment':
+        const reacted = await db.$transaction(tx => toggleReaction(tx, data.commentId, userId, data.reaction))
+        const [reactedComment] = await serializeComments(db, [reacted.comment], userId)
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            comment: reactedComment,
+            added: reacted.added
+          }
+        })
+
+      case 'flag-comment':
+        await db.$transaction(tx => flagComment(tx, data.commentId, userId, data.reason))
+
+        return NextResponse.json({
+          success: true,
+          data: { message: 'Comment reported to the moderators' }
+        })
+
+      case 'moderate-comment':
+        const moderated = await db.$transaction(tx =>
+          moderateComment(tx, data.commentId, userId, data.decision, data.note)
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            comment: await publishComment(db, 'moderated', moderated),
+            message: 'Moderation applied'
+          }
+        })
+
+      case 'lock-discussion':
+        const lockedProposal = await db.$transaction(tx => lockDiscussion(tx, data.proposalId, data.locked))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposalId: lockedProposal.id,
+            locked: lockedProposal.discussionLocked,
+            message: data.locked ? 'Discussion locked' : 'Discussion reopened'
+          }
+        })
+
+      case 'create-goal':
+        const createdGoal = await db.$transaction(tx => createGoal(tx, {
+          title: data.title,
+          description: data.description,
+          category: data.category,
+          ownerId: userId,
+          targetAmount: data.targetAmount,
+          deadline: data.deadline,
+          milestones: data.milestones
+        }))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            goal: serializeGoal(createdGoal),
+            message: 'Community goal created'
           }
         })
 
       case 'contribute-to-goal':
-        // Contribute to community goal
-        const { goalId, amount } = data
-        
-        if (!communityGoals.has(goalId)) {
-          return NextResponse.json({
-            success: false,
-            error: 'Community goal not found'
-          }, { status: 404 })
-        }
+        const contributed = await db.$transaction(tx =>
+          contributeToGoal(tx, data.goalId, userId, data.amount, data.anonymous)
+        )
 
-        const goal = communityGoals.get(goalId)
-        const contributionId = `contrib_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        
-        const contribution = {
-          id: contributionId,
-          goalId,
-          userId,
-          amount,
-          timestamp: new Date().toISOString(),
-          anonymous: data.anonymous || false
-        }
+        return NextResponse.json({
+          success: true,
+          data: {
+            contribution: serializeContribution(contributed.contribution),
+            transaction: serializeTransaction(contributed.transaction),
+            goal: serializeGoal(contributed.goal),
+            message: contributed.goal.status === 'funded'
+              ? `Contributed ${contributed.goal.currency} ${data.amount} and ${contributed.goal.title} is fully funded`
+              : `Contributed ${contributed.goal.currency} ${data.amount} to ${contributed.goal.title}`
+          }
+        })
 
-        // Update goal
-        goal.currentAmount += amount
-        goal.contributors += 1
-        communityGoals.set(goalId, goal)
+      case 'cancel-goal':
+        const canManageGoal = await hasPermission(userId, 'treasury:execute')
+        const cancelledGoal = await db.$transaction(tx => cancelGoal(tx, data.goalId, userId, canManageGoal))
 
         return NextResponse.json({
           success: true,
           data: {
-            contribution,
-            updatedGoal: goal,
-            percentageFunded: (goal.currentAmount / goal.targetAmount * 100).toFixed(1),
-            message: `Contributed G$ ${amount} to ${goal.title}`
+            goal: serializeGoal(cancelledGoal.goal),
+            refunds: cancelledGoal.refunds,
+            message: 'Goal cancelled and contributions refunded'
+          }
+        })
+
+      case 'submit-goal-evidence':
+        const submitted = await db.$transaction(tx =>
+          submitGoalEvidence(tx, data.milestoneId, userId, data.evidence, data.evidenceUrl)
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            milestone: serializeMilestone(submitted),
+            message: 'Evidence submitted for review'
+          }
+        })
+
+      case 'review-goal-milestone':
+        const reviewed = await db.$transaction(tx =>
+          reviewGoalMilestone(tx, data.milestoneId, userId, data.approve, data.note)
+        )
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            milestone: serializeMilestone(reviewed.milestone),
+            transaction: reviewed.transaction ? serializeTransaction(reviewed.transaction) : undefined,
+            message: reviewed.transaction
+              ? `Released ${reviewed.transaction.currency} ${reviewed.transaction.amount.toFixed(2)} to the goal owner`
+              : 'Milestone sent back to the owner'
+          }
+        })
+
+      case 'queue-proposal':
+        // Passed proposals wait in the queue until a treasurer executes them
+        const queued = await db.$transaction(tx => queueProposal(tx, data.proposalId, userId))
+        publishProposalEvents([queued.event])
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(queued.proposal),
+            message: 'Proposal queued for execution'
           }
         })
 
       case 'execute-proposal':
-        // Execute an approved proposal
-        const { proposalId: execPropId } = data
-        const execProposal = proposals.get(execPropId)
-        
-        if (!execProposal) {
-          return NextResponse.json({
-            success: false,
-            error: 'Proposal not found'
-          }, { status: 404 })
-        }
+        const executed = await db.$transaction(tx => executeProposal(tx, data.proposalId, userId))
+        publishProposalEvents([executed.event])
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(executed.proposal),
+            transactions: executed.transactions.map(serializeTransaction),
+            message: executed.proposal.payoutMode === 'milestones' && executed.proposal.budget > 0
+              ? 'Proposal executed; its budget is set aside for the milestone tranches'
+              : 'Proposal executed successfully'
+          }
+        })
 
-        // Check if proposal passed
-        const totalVotes = execProposal.votes.for + execProposal.votes.against + execProposal.votes.abstain
-        const passed = totalVotes >= execProposal.quorum && execProposal.votes.for > execProposal.votes.against
+      case 'veto-proposal':
+        const vetoed = await db.$transaction(tx => vetoProposal(tx, data.proposalId, userId, data.reason))
+        publishProposalEvents([vetoed.event])
 
-        if (!passed) {
-          return NextResponse.json({
-            success: false,
-            error: 'Proposal did not pass voting requirements'
-          }, { status: 400 })
-        }
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(vetoed.proposal),
+            message: 'Proposal vetoed'
+          }
+        })
+
+      case 'release-tranche':
+        const released = await db.$transaction(tx => releaseTranche(tx, data.disbursementId, userId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            disbursement: serializeDisbursement(released.disbursement),
+            transaction: serializeTransaction(released.transaction),
+            message: `Released ${released.transaction.currency} ${released.transaction.amount.toFixed(2)}`
+          }
+        })
+
+      case 'cancel-tranche':
+        const droppedTranche = await db.$transaction(tx => cancelTranche(tx, data.disbursementId, userId))
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            disbursement: serializeDisbursement(droppedTranche),
+            message: 'Tranche cancelled and returned to the treasury'
+          }
+        })
 
-        // Execute proposal
-        execProposal.status = 'executed'
-        execProposal.executedAt = new Date().toISOString()
-        proposals.set(execPropId, execProposal)
+      case 'cancel-proposal':
+        const canManage = await hasPermission(userId, 'treasury:execute')
+        const cancelled = await db.$transaction(tx =>
+          cancelProposal(tx, data.proposalId, userId, canManage, data.reason)
+        )
+        publishProposalEvents([cancelled.event])
 
         return NextResponse.json({
           success: true,
           data: {
-            proposal: execProposal,
-            executionId: `exec_${Date.now()}`,
-            message: 'Proposal executed successfully'
+            proposal: serializeProposal(cancelled.proposal),
+            message: 'Proposal cancelled'
           }
         })
 
@@ -207,6 +458,14 @@ export async function POST(request: NextRequest) {
         }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof FinanceError || error instanceof GovernanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
     console.error('Governance API error:', error)
     return NextResponse.json({
       success: false,
@@ -217,104 +476,265 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
-  const action = searchParams.get('action')
-  const userId = searchParams.get('userId')
+  const parsed = parseQuery(governanceQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const query = parsed.data
+  // Proposals and goals are public; the member's own votes need a session
+  const auth = await authorize(GOVERNANCE_QUERY_PERMISSIONS[query.action])
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
 
   try {
-    switch (action) {
+    switch (query.action) {
       case 'get-proposals':
-        const proposalList = Array.from(proposals.values())
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        // Drafts are only listed for their author
+        const proposalList = await db.proposal.findMany({
+          where: {
+            AND: [
+              query.status ? { status: query.status } : {},
+              { OR: [{ status: { not: 'draft' } }, ...(userId ? [{ author: userId }] : [])] }
+            ]
+          },
+          include: proposalRelations,
+          orderBy: { createdAt: 'desc' }
+        })
 
         return NextResponse.json({
           success: true,
           data: {
-            proposals: proposalList,
+            proposals: proposalList.map(serializeProposal),
             totalCount: proposalList.length
           }
         })
 
       case 'get-proposal':
-        const proposalId = searchParams.get('id')
-        if (!proposalId) {
+        const proposal = await db.proposal.findUnique({
+          where: { id: query.id },
+          include: {
+            ...proposalRelations,
+            events: { orderBy: { createdAt: 'asc' } }
+          }
+        })
+        if (!proposal || (proposal.status === 'draft' && proposal.author !== userId)) {
           return NextResponse.json({
             success: false,
-            error: 'Proposal ID required'
-          }, { status: 400 })
+            error: 'Proposal not found'
+          }, { status: 404 })
         }
 
-        const proposal = proposals.get(proposalId)
-        if (!proposal) {
+        // Check if user voted
+        const userVote = userId
+          ? await db.proposalVote.findUnique({ where: { proposalId_userId: { proposalId: proposal.id, userId } } })
+          : null
+        // A vote an amendment superseded, until the member votes on the new version
+        const supersededVote = userId && !userVote
+          ? await db.supersededVote.findFirst({
+            where: { proposalId: proposal.id, userId },
+            orderBy: { supersededAt: 'desc' }
+          })
+          : null
+        const votingOpen = proposal.status === 'voting' && !!proposal.votingDeadline && new Date() < proposal.votingDeadline
+        // What the member's vote would weigh under this proposal's method
+        const votingPower = userId && !userVote && votingOpen
+          ? await db.$transaction(tx => getVotingPower(tx, proposal, userId))
+          : undefined
+        // Until they vote themselves, whoever the member delegated to votes for them
+        const representedBy = userId && !userVote
+          ? await getRepresentation(db, proposal, userId)
+          : undefined
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            proposal: serializeProposal(proposal),
+            userVote: userVote ? serializeVote(userVote) : undefined,
+            supersededVote: supersededVote ? serializeSupersededVote(supersededVote) : undefined,
+            canVote: !userVote && votingOpen && (votingPower?.eligible ?? false),
+            votingPower,
+            representedBy,
+            votingEnds: proposal.votingDeadline?.toISOString() ?? null,
+            tally: await getTally(db, proposal),
+            history: proposal.events.map(serializeProposalEvent)
+          }
+        })
+
+      case 'get-proposal-versions':
+      case 'get-proposal-diff':
+        const versioned = await db.proposal.findUnique({ where: { id: query.proposalId } })
+        if (!versioned || (versioned.status === 'draft' && versioned.author !== userId)) {
           return NextResponse.json({
             success: false,
             error: 'Proposal not found'
           }, { status: 404 })
         }
+        const versions = await db.proposalVersion.findMany({
+          where: { proposalId: versioned.id },
+          orderBy: { version: 'asc' }
+        })
+
+        if (query.action === 'get-proposal-versions') {
+          return NextResponse.json({
+            success: true,
+            data: { versions: versions.map(serializeVersion) }
+          })
+        }
 
-        // Check if user voted
-        const userVote = votes.get(`${proposalId}_${userId}`)
+        const from = versions.find(version => version.version === query.from)
+        const to = versions.find(version => version.version === query.to)
+        if (!from || !to) {
+          return NextResponse.json({
+            success: false,
+            error: 'Version not found'
+          }, { status: 404 })
+        }
 
         return NextResponse.json({
           success: true,
           data: {
-            proposal,
-            userVote,
-            canVote: !userVote && new Date() < new Date(proposal.votingDeadline),
-            votingEnds: proposal.votingDeadline
+            from: serializeVersion(from),
+            to: serializeVersion(to),
+            title: diffText(from.title, to.title),
+            description: diffText(from.description, to.description)
           }
         })
 
+      case 'get-discussion':
+        const discussed = await db.proposal.findUnique({ where: { id: query.proposalId } })
+        if (!discussed || (discussed.status === 'draft' && discussed.author !== userId)) {
+          return NextResponse.json({
+            success: false,
+            error: 'Proposal not found'
+          }, { status: 404 })
+        }
+
+        return NextResponse.json({
+          success: true,
+          data: await getDiscussion(
+            db,
+            discussed,
+            userId,
+            userId ? await hasPermission(userId, 'governance:moderate') : false
+          )
+        })
+
+      case 'get-comment-history':
+        return NextResponse.json({
+          success: true,
+          data: await getCommentHistory(db, query.commentId, userId)
+        })
+
+      case 'get-flagged-comments':
+        return NextResponse.json({
+          success: true,
+          data: { comments: await getFlaggedComments(db) }
+        })
+
       case 'get-community-goals':
-        const goals = Array.from(communityGoals.values())
-          .map(goal => ({
-            ...goal,
-            percentageFunded: (goal.currentAmount / goal.targetAmount * 100).toFixed(1),
-            daysRemaining: Math.ceil((new Date(goal.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
-          }))
+        const goalList = await db.communityGoal.findMany({
+          where: query.status ? { status: query.status } : {},
+          include: goalRelations,
+          orderBy: { deadline: 'asc' }
+        })
 
         return NextResponse.json({
           success: true,
           data: {
-            goals,
-            totalRaised: goals.reduce((sum, goal) => sum + goal.currentAmount, 0),
-            totalTarget: goals.reduce((sum, goal) => sum + goal.targetAmount, 0)
+            goals: goalList.map(goal => serializeGoal(goal)),
+            totalRaised: goalList.reduce((sum, goal) => sum + goal.raisedAmount, 0),
+            totalTarget: goalList.reduce((sum, goal) => sum + goal.targetAmount, 0)
           }
         })
 
-      case 'get-user-votes':
-        if (!userId) {
+      case 'get-goal':
+        const communityGoal = await db.communityGoal.findUnique({ where: { id: query.id }, include: goalRelations })
+        if (!communityGoal) {
           return NextResponse.json({
             success: false,
-            error: 'User ID required'
-          }, { status: 400 })
+            error: 'Community goal not found'
+          }, { status: 404 })
         }
 
-        const userVotes = Array.from(votes.entries())
-          .filter(([key, vote]) => vote.userId === userId)
-          .map(([key, vote]) => vote)
+        return NextResponse.json({
+          success: true,
+          data: {
+            goal: serializeGoal(communityGoal),
+            contributions: await getPublicContributions(db, communityGoal.id)
+          }
+        })
+
+      case 'get-my-contributions':
+        if (!userId) {
+          return unauthorized()
+        }
+        const myContributions = await db.goalContribution.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' }
+        })
 
         return NextResponse.json({
           success: true,
           data: {
-            votes: userVotes,
+            contributions: myContributions.map(serializeContribution),
+            totalContributed: myContributions
+              .filter(contribution => contribution.status === 'held')
+              .reduce((sum, contribution) => sum + contribution.amount, 0)
+          }
+        })
+
+      case 'get-user-votes':
+        const userVotes = await db.proposalVote.findMany({
+          where: { userId: userId ?? undefined },
+          orderBy: { createdAt: 'desc' }
+        })
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            votes: userVotes.map(serializeVote),
             totalVotes: userVotes.length
           }
         })
 
+      case 'get-delegations':
+        if (!userId) {
+          return unauthorized()
+        }
+
+        return NextResponse.json({
+          success: true,
+          data: await getDelegations(db, userId)
+        })
+
       case 'get-governance-stats':
-        const allProposals = Array.from(proposals.values())
-        const activeProposals = allProposals.filter(p => p.status === 'active')
-        const executedProposals = allProposals.filter(p => p.status === 'executed')
+        const statusCounts = await db.proposal.groupBy({ by: ['status'], _count: true })
+        const countOf = (status: ProposalStatus) =>
+          statusCounts.find(count => count.status === status)?._count ?? 0
+        const closedProposals = await db.proposal.findMany({
+          where: { status: { in: ['passed', 'rejected', 'expired', 'queued', 'executed'] } },
+          select: { quorumReached: true }
+        })
+        const quorumRate = closedProposals.length > 0
+          ? closedProposals.filter(p => p.quorumReached).length / closedProposals.length * 100
+          : 0
+        const methodCounts = await db.proposal.groupBy({ by: ['votingMethod'], _count: true })
 
         return NextResponse.json({
           success: true,
           data: {
-            totalProposals: allProposals.length,
-            activeProposals: activeProposals.length,
-            executedProposals: executedProposals.length,
-            participationRate: userVotes.size > 0 ? (userVotes.size / (allProposals.length * 10)) * 100 : 0, // Assuming 10 users
-            averageVotingTime: '3.2 days', // Mock data
-            categories: ['infrastructure', 'finance', 'governance', 'community', 'education']
+            totalProposals: statusCounts.reduce((sum, count) => sum + count._count, 0),
+            byStatus: Object.fromEntries(PROPOSAL_STATUSES.map(status => [status, countOf(status)])),
+            activeProposals: countOf('discussion') + countOf('voting'),
+            executedProposals: countOf('executed'),
+            totalVotes: await db.proposalVote.count(),
+            quorumRate,
+            byVotingMethod: Object.fromEntries(VOTING_METHODS.map(method =>
+              [method, methodCounts.find(count => count.votingMethod === method)?._count ?? 0]
+            )),
+            categories: PROPOSAL_CATEGORIES
           }
         })
 
@@ -325,6 +745,14 @@ export async function GET(request: NextRequest) {
         }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof GovernanceError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        ...error.details
+      }, { status: error.status })
+    }
+
     console.error('Governance GET API error:', error)
     return NextResponse.json({
       success: false,
@@ -1,38 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server'
 import ZAI from 'z-ai-web-dev-sdk'
+import { db } from '@/lib/db'
+import { createId, createKeyPair } from '@/lib/ids'
+import type { ApiResponse } from '@/lib/api/common'
+import { identityActionRequest, identityQuery, type IdentityActionResults } from '@/lib/api/identity'
+import { parseJsonBody, parseQuery } from '@/lib/api/validation'
+import { authorize } from '@/lib/auth/session'
+import { assignRole } from '@/lib/auth/roles'
+import { humanProtocol } from '@/lib/integrations/human-protocol'
+import { IDENTITY_ACTION_PERMISSIONS, IDENTITY_QUERY_PERMISSIONS } from '@/lib/auth/permissions'
 
 // Mock database for demo purposes
 const identityStore = new Map<string, any>()
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, data } = await request.json()
+    const parsed = await parseJsonBody(identityActionRequest, request)
+    if (!parsed.success) {
+      return parsed.response
+    }
+    const auth = await authorize(IDENTITY_ACTION_PERMISSIONS[parsed.data.action])
+    if (!auth.success) {
+      return auth.response
+    }
+    const { userId } = auth
+    const { action, data } = parsed.data
 
     switch (action) {
       case 'verify-human-passport':
-        // Simulate Human Passport verification
-        const passportId = `passport_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        // Re-verification keeps the passport id, which loans sync reputation changes to
+        const existingPassport = await db.humanPassport.findUnique({ where: { userId } })
+        const passportId = existingPassport?.id ?? createId('humanPassport')
+        const verification = await humanProtocol.verifyHuman(passportId, {
+          biometric: data.biometric,
+          behavioral: data.behavioral,
+          social: data.social,
+          wallet: data.wallet
+        })
+
+        if (!verification.success) {
+          return NextResponse.json({
+            success: false,
+            error: 'Human Passport verification failed; provide more evidence and try again',
+            confidence: verification.confidence
+          }, { status: 403 })
+        }
+
         const verificationResult = {
           success: true,
           passportId,
           verifiedAt: new Date().toISOString(),
-          uniquenessScore: Math.random() * 0.3 + 0.7, // 70-100% uniqueness
-          sybilResistance: true
+          uniquenessScore: verification.passport.uniquenessScore,
+          sybilResistance: verification.passport.sybilResistance
         }
-        
+
         identityStore.set(passportId, {
           ...verificationResult,
-          userData: { ...data, sensitiveData: 'encrypted' }
+          proof: verification.proof,
+          verificationType: verification.verificationType
         })
 
-        return NextResponse.json({
+        // Remember the verification against the member so finance can gate UBI on it,
+        // and give them the verified role
+        await db.humanPassport.upsert({
+          where: { userId },
+          update: {
+            uniquenessScore: verificationResult.uniquenessScore,
+            sybilResistance: verificationResult.sybilResistance,
+            verifiedAt: new Date(verificationResult.verifiedAt)
+          },
+          create: {
+            id: passportId,
+            userId,
+            uniquenessScore: verificationResult.uniquenessScore,
+            sybilResistance: verificationResult.sybilResistance,
+            verifiedAt: new Date(verificationResult.verifiedAt)
+          }
+        })
+        await assignRole(userId, 'verified', null)
+
+        return NextResponse.json<ApiResponse<IdentityActionResults['verify-human-passport']>>({
           success: true,
           data: verificationResult
         })
 
       case 'store-private-data':
         // Simulate Nillion private storage
-        const storageId = `storage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        const storageId = createId('privateStorage')
         const encryptedData = {
           id: storageId,
           encryptedPayload: btoa(JSON.stringify(data)), // Base64 encoding as encryption simulation
@@ -45,7 +99,7 @@ export async function POST(request: NextRequest) {
 
         identityStore.set(storageId, encryptedData)
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<IdentityActionResults['store-private-data']>>({
           success: true,
           data: {
             storageId,
@@ -54,10 +108,11 @@ export async function POST(request: NextRequest) {
         })
 
       case 'generate-did':
-        // Generate Decentralized Identifier
-        const did = `did:human:${Math.random().toString(36).substr(2, 32)}`
+        // Generate Decentralized Identifier, bound to a fresh secp256k1 key
+        const didKeys = createKeyPair()
+        const did = `did:human:${didKeys.address.toLowerCase()}`
         const keyPair = {
-          publicKey: `0x${Math.random().toString(16).substr(2, 64)}`,
+          publicKey: didKeys.publicKey,
           privateKey: 'encrypted_and_securely_stored'
         }
 
@@ -68,7 +123,7 @@ export async function POST(request: NextRequest) {
           services: ['identity', 'finance', 'governance']
         })
 
-        return NextResponse.json({
+        return NextResponse.json<ApiResponse<IdentityActionResults['generate-did']>>({
           success: true,
           data: { did, publicKey: keyPair.publicKey }
         })
@@ -90,19 +145,21 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
-  const action = searchParams.get('action')
-  const id = searchParams.get('id')
+  const parsed = parseQuery(identityQuery, searchParams)
+  if (!parsed.success) {
+    return parsed.response
+  }
+  const query = parsed.data
+  const auth = await authorize(IDENTITY_QUERY_PERMISSIONS[query.action])
+  if (!auth.success) {
+    return auth.response
+  }
+  const { userId } = auth
 
   try {
-    switch (action) {
+    switch (query.action) {
       case 'get-identity':
-        if (!id) {
-          return NextResponse.json({
-            success: false,
-            error: 'ID required'
-          }, { status: 400 })
-        }
-
+        const { id } = query
         const identity = identityStore.get(id)
         if (!identity) {
           return NextResponse.json({
@@ -0,0 +1,15 @@
+import EmailLinkSignIn from '@/components/EmailLinkSignIn'
+
+interface EmailSignInPageProps {
+  searchParams: Promise<{ email?: string, token?: string }>
+}
+
+export default async function EmailSignInPage({ searchParams }: EmailSignInPageProps) {
+  const { email = '', token = '' } = await searchParams
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <EmailLinkSignIn email={email} token={token} />
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { NotificationProvider } from "@/components/NotificationSystem";
 import { PWAInstaller } from "@/components/PWAInstaller";
+import AuthProvider from "@/components/AuthProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -66,7 +67,9 @@ export default function RootLayout({
       >
         <ErrorBoundary>
           <NotificationProvider />
-          {children}
+          <AuthProvider>
+            {children}
+          </AuthProvider>
           <Toaster />
           <PWAInstaller />
         </ErrorBoundary>
@@ -1,16 +1,19 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { signOut, useSession } from 'next-auth/react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
-import { Shield, Users, Wallet, Brain, Globe, Lock, Zap, Heart, User, Settings, Bell, Network } from 'lucide-react'
+import { Shield, Users, Wallet, Brain, Globe, Lock, Zap, Heart, User, Settings, Bell, Network, LogOut } from 'lucide-react'
 import IdentityVerification from '@/components/IdentityVerification'
 import FinanceDashboard from '@/components/FinanceDashboard'
 import AIAssistant from '@/components/AIAssistant'
 import UserProfile from '@/components/UserProfile'
+import SignIn from '@/components/SignIn'
+import ProposalBallots from '@/components/ProposalBallots'
 import { IntegrationsDashboard } from '@/components/IntegrationsDashboard'
 import { useRealTimeUpdates, ConnectionStatus, LivePriceTicker } from '@/components/RealTimeUpdates'
 import { MobileNav, MobileBottomNav } from '@/components/MobileOptimizations'
@@ -23,24 +26,31 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState('overview')
   const [isLoading, setIsLoading] = useState(true)
   const [user, setUser] = useState<any>(null)
+  const { data: session, status } = useSession()
   const { isConnected } = useRealTimeUpdates()
   const { showSuccess } = useNotifications()
 
   useEffect(() => {
+    // Wait for the session; the member's id always comes from the server
+    if (!session) {
+      setIsLoading(status === 'loading')
+      return
+    }
+
     // Initialize user data
     const initializeApp = async () => {
       try {
-        // Load user from storage
-        const savedUser = storage.get('user')
+        // Load user from storage, unless it belongs to another member
+        const savedUser = storage.get<{ id: string }>('user')
         
-        if (savedUser) {
+        if (savedUser?.id === session.user.id) {
           setUser(savedUser)
         } else {
           // Create new user
           const newUser = {
-            id: `user_${Date.now()}`,
-            name: 'RealFi User',
-            email: 'user@realfi.community',
+            id: session.user.id,
+            name: session.user.name ?? 'RealFi User',
+            email: session.user.email ?? '',
             joinDate: new Date().toISOString(),
             verificationLevel: 'basic',
             isFirstTime: true
@@ -61,7 +71,7 @@ export default function Home() {
     }
 
     initializeApp()
-  }, [showSuccess])
+  }, [session, status, showSuccess])
 
   if (isLoading) {
     return (
@@ -75,6 +85,14 @@ export default function Home() {
     )
   }
 
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <SignIn />
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 pb-16 md:pb-8">
       <div className="container mx-auto px-4 py-8">
@@ -93,6 +111,10 @@ export default function Home() {
             <div className="flex items-center gap-3">
               <ConnectionStatus />
               <PWABadge />
+              <Button variant="ghost" size="sm" onClick={() => signOut()}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </Button>
             </div>
           </div>
           
@@ -274,21 +296,8 @@ export default function Home() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-3">
-                    <div className="p-4 border rounded-lg">
-                      <h4 className="font-semibold mb-2">Active Proposals</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Community Fund Allocation</span>
-                          <Badge>2 days left</Badge>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Governance Framework Update</span>
-                          <Badge>5 days left</Badge>
-                        </div>
-                      </div>
-                      <Button className="w-full mt-3" variant="outline">View All Proposals</Button>
-                    </div>
-                    
+                    <ProposalBallots />
+
                     <div className="p-4 bg-muted rounded-lg">
                       <h4 className="font-semibold mb-2">Your Participation</h4>
                       <div className="space-y-2 text-sm">
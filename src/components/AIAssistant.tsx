@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Textarea } from '@/components/ui/textarea'
 import { Brain, MessageCircle, Shield, Lightbulb, BarChart3, Lock } from 'lucide-react'
+import type { ApiResponse } from '@/lib/api/common'
+import type { AIActionResults } from '@/lib/api/ai'
 
 interface Conversation {
   id: string
@@ -23,7 +25,6 @@ interface AIInsight {
 }
 
 export default function AIAssistant() {
-  const [userId] = useState(`user_${Date.now()}`)
   const [query, setQuery] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [conversations, setConversations] = useState<Conversation[]>([])
@@ -37,7 +38,7 @@ export default function AIAssistant() {
 
   const fetchConversationHistory = async () => {
     try {
-      const response = await fetch(`/api/ai?action=get-conversation-history&userId=${userId}`)
+      const response = await fetch('/api/ai?action=get-conversation-history')
       const result = await response.json()
       
       if (result.success) {
@@ -71,7 +72,6 @@ export default function AIAssistant() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'analyze-community-data',
-          userId,
           data: {
             communityMetrics: {
               participationRate: 0.75,
@@ -123,12 +123,11 @@ export default function AIAssistant() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'private-ai-assistant',
-          userId,
           data: { query }
         })
       })
 
-      const result = await response.json()
+      const result: ApiResponse<AIActionResults['private-ai-assistant']> = await response.json()
       
       if (result.success) {
         const newConversation: Conversation = {
@@ -0,0 +1,54 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { signIn } from 'next-auth/react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/LoadingStates'
+import { AlertCircle } from 'lucide-react'
+
+interface EmailLinkSignInProps {
+  email: string
+  token: string
+}
+
+// Redeems the token from an emailed sign-in link, then returns to the app
+export default function EmailLinkSignIn({ email, token }: EmailLinkSignInProps) {
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    signIn('email', { email, token, redirect: false })
+      .then(result => {
+        if (result?.ok) {
+          window.location.replace('/')
+        } else {
+          setError('This sign-in link is invalid or has expired.')
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'))
+  }, [email, token])
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Signing you in</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <>
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/">Back to sign in</Link>
+            </Button>
+          </>
+        ) : (
+          <LoadingSpinner size="lg" className="mx-auto" />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,57 +1,165 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Wallet, TrendingUp, PiggyBank, Send, DollarSign, Activity } from 'lucide-react'
-
-interface Balance {
-  gBalance: number
-  usdBalance: number
-  savings: number
-  gUSDValue: number
-  savingsUSDValue: number
-  projectedAnnualReturn: number
-}
-
-interface Transaction {
-  id: string
-  type: string
-  amount: number
-  currency: string
-  timestamp: string
-  status: string
-  recipient?: string
-  fee?: number
-  paymentLink?: string
-}
+import { Input } from '@/components/ui/input'
+import { Wallet, TrendingUp, PiggyBank, Send, DollarSign, Activity, CalendarClock, ArrowLeftRight, Users, HandCoins, Store } from 'lucide-react'
+import { io } from 'socket.io-client'
+import { toast } from '@/hooks/use-toast'
+import { storage, STORAGE_KEYS, type UserPreferences } from '@/lib/storage'
+import { copyToClipboard } from '@/lib/utils'
+import { createWalletAddress } from '@/lib/ids'
+import type { ApiResponse } from '@/lib/api/common'
+import type {
+  Balance,
+  FinanceAction,
+  FinanceActionData,
+  FinanceActionResult,
+  FinanceQueryResults,
+  Invoice,
+  Loan,
+  LoanPool,
+  SavingsCircle,
+  SettlementReport,
+  StandingOrder,
+  Transaction
+} from '@/lib/api/finance'
+
+const SWAP_CURRENCIES = ['G$', 'CELO', 'USDC', 'cUSD']
 
 export default function FinanceDashboard() {
-  const [userId] = useState(`user_${Date.now()}`)
+  const [valuationCurrency] = useState(() =>
+    storage.get<UserPreferences>(STORAGE_KEYS.PREFERENCES)?.currency ?? 'USD'
+  )
   const [balance, setBalance] = useState<Balance>({
     gBalance: 0,
-    usdBalance: 0,
+    balances: {},
     savings: 0,
     gUSDValue: 0,
     savingsUSDValue: 0,
-    projectedAnnualReturn: 0
+    projectedAnnualReturn: 0,
+    portfolioValue: 0,
+    valuationCurrency
   })
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [walletConnected, setWalletConnected] = useState(false)
+  const [claimError, setClaimError] = useState('')
+  const [paymentError, setPaymentError] = useState('')
+  const [now, setNow] = useState(Date.now())
+  const [standingOrders, setStandingOrders] = useState<StandingOrder[]>([])
+  const [newOrder, setNewOrder] = useState({ recipient: '', amount: '', schedule: '@monthly' })
+  const [orderError, setOrderError] = useState('')
+  const [swap, setSwap] = useState({ fromCurrency: 'G$', toCurrency: 'cUSD', amount: '' })
+  const [swapError, setSwapError] = useState('')
+  const pendingKeys = useRef<Record<string, string>>({})
+  const [circles, setCircles] = useState<SavingsCircle[]>([])
+  const [newCircle, setNewCircle] = useState<{
+    name: string
+    contributionAmount: string
+    schedule: string
+    payoutOrder: SavingsCircle['payoutOrder']
+  }>({ name: '', contributionAmount: '', schedule: '@weekly', payoutOrder: 'fixed' })
+  const [joinCircleId, setJoinCircleId] = useState('')
+  const [circleBids, setCircleBids] = useState<Record<string, string>>({})
+  const [circleError, setCircleError] = useState('')
+  const [loans, setLoans] = useState<Loan[]>([])
+  const [loanPool, setLoanPool] = useState<LoanPool | null>(null)
+  const [loanRequest, setLoanRequest] = useState({ amount: '', termMonths: '6', purpose: '' })
+  const [poolDeposit, setPoolDeposit] = useState('')
+  const [loanError, setLoanError] = useState('')
+  const [merchantName, setMerchantName] = useState<string | null>(null)
+  const [merchantNameInput, setMerchantNameInput] = useState('')
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [settlement, setSettlement] = useState<SettlementReport | null>(null)
+  const [newInvoice, setNewInvoice] = useState({ amount: '', memo: '', expiresInMinutes: '60' })
+  const [invoiceQRCode, setInvoiceQRCode] = useState<{ payload: string, image: string } | null>(null)
+  const [invoicePayload, setInvoicePayload] = useState('')
+  const [merchantError, setMerchantError] = useState('')
 
   useEffect(() => {
     fetchBalance()
     fetchTransactions()
+    fetchStandingOrders()
+    fetchCircles()
+    fetchLoans()
+    fetchInvoices()
+  }, [])
+
+  // Paid invoices are pushed over the socket so the till updates without polling
+  useEffect(() => {
+    // The server puts the connection in this member's room from the session cookie
+    const socket = io({ path: '/api/socketio' })
+    socket.on('invoice:paid', () => {
+      setInvoiceQRCode(null)
+      fetchInvoices()
+      fetchBalance()
+      fetchTransactions()
+    })
+    socket.on('standing-order:failed', (failure: { recipient: string, amount: number, currency: string, error: string, gaveUp: boolean }) => {
+      toast({
+        title: failure.gaveUp ? 'Standing order skipped' : 'Standing order failed',
+        description: `${failure.currency} ${failure.amount.toFixed(2)} to ${failure.recipient}: ${failure.error}`,
+        variant: 'destructive'
+      })
+      fetchStandingOrders()
+    })
+    return () => {
+      socket.disconnect()
+    }
+  }, [])
+
+  // Tick once a second so the UBI countdown stays current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
   }, [])
 
+  const msUntilNextClaim = balance.nextClaimAt
+    ? Math.max(0, new Date(balance.nextClaimAt).getTime() - now)
+    : 0
+
+  const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000)
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':')
+  }
+
+  // Repeat submits of an action reuse one Idempotency-Key until the server has answered,
+  // so a double click or a retried request is only applied once
+  const postAction = async <A extends FinanceAction>(
+    action: A,
+    data?: FinanceActionData<A>
+  ): Promise<ApiResponse<FinanceActionResult<A>>> => {
+    const key = pendingKeys.current[action] ??= crypto.randomUUID()
+
+    const response = await fetch('/api/finance', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+      body: JSON.stringify({ action, data })
+    })
+    delete pendingKeys.current[action]
+
+    return response.json()
+  }
+
+  const getQuery = async <A extends keyof FinanceQueryResults>(
+    action: A,
+    params: Record<string, string> = {}
+  ): Promise<ApiResponse<FinanceQueryResults[A]>> => {
+    const response = await fetch(`/api/finance?${new URLSearchParams({ action, ...params })}`)
+    return response.json()
+  }
+
   const fetchBalance = async () => {
     try {
-      const response = await fetch(`/api/finance?action=get-balance&userId=${userId}`)
-      const result = await response.json()
+      const result = await getQuery('get-balance', { currency: valuationCurrency })
       
       if (result.success) {
         setBalance(result.data)
@@ -63,8 +171,7 @@ export default function FinanceDashboard() {
 
   const fetchTransactions = async () => {
     try {
-      const response = await fetch(`/api/finance?action=get-transactions&userId=${userId}`)
-      const result = await response.json()
+      const result = await getQuery('get-transactions', { limit: '5' })
       
       if (result.success) {
         setTransactions(result.data.transactions)
@@ -74,20 +181,73 @@ export default function FinanceDashboard() {
     }
   }
 
+  const fetchStandingOrders = async () => {
+    try {
+      const result = await getQuery('get-standing-orders')
+      
+      if (result.success) {
+        setStandingOrders(result.data.orders)
+      }
+    } catch (error) {
+      console.error('Failed to fetch standing orders:', error)
+    }
+  }
+
+  const fetchCircles = async () => {
+    try {
+      const result = await getQuery('get-circles')
+      
+      if (result.success) {
+        setCircles(result.data.circles)
+      }
+    } catch (error) {
+      console.error('Failed to fetch savings circles:', error)
+    }
+  }
+
+  const fetchLoans = async () => {
+    try {
+      const [loansResult, poolResult] = await Promise.all([
+        getQuery('get-loans'),
+        getQuery('get-loan-pool')
+      ])
+      
+      if (loansResult.success) {
+        setLoans(loansResult.data.loans)
+      }
+      if (poolResult.success) {
+        setLoanPool(poolResult.data)
+      }
+    } catch (error) {
+      console.error('Failed to fetch loans:', error)
+    }
+  }
+
+  const fetchInvoices = async () => {
+    try {
+      const [invoicesResult, reportResult] = await Promise.all([
+        getQuery('get-invoices'),
+        getQuery('get-settlement-report')
+      ])
+      
+      // Both fail with 403 until merchant mode is enabled
+      if (invoicesResult.success) {
+        setInvoices(invoicesResult.data.invoices)
+      }
+      if (reportResult.success) {
+        setMerchantName(reportResult.data.merchantName)
+        setSettlement(reportResult.data)
+      }
+    } catch (error) {
+      console.error('Failed to fetch invoices:', error)
+    }
+  }
+
   const handleConnectWallet = async () => {
     setIsLoading(true)
     
     try {
-      const response = await fetch('/api/finance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'connect-human-wallet',
-          userId
-        })
-      })
-
-      const result = await response.json()
+      const result = await postAction('connect-human-wallet')
       
       if (result.success) {
         setWalletConnected(true)
@@ -107,22 +267,20 @@ export default function FinanceDashboard() {
 
   const handleClaimUBI = async () => {
     setIsLoading(true)
+    setClaimError('')
     
     try {
-      const response = await fetch('/api/finance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'claim-ubi',
-          userId
-        })
-      })
-
-      const result = await response.json()
+      const result = await postAction('claim-ubi')
       
       if (result.success) {
         await fetchBalance()
         await fetchTransactions()
+      } else {
+        setClaimError(result.error || 'UBI claim failed')
+        const { nextClaimAt } = result
+        if (typeof nextClaimAt === 'string') {
+          setBalance(prev => ({ ...prev, nextClaimAt }))
+        }
       }
     } catch (error) {
       console.error('Failed to claim UBI:', error)
@@ -133,27 +291,23 @@ export default function FinanceDashboard() {
 
   const handleSendPayment = async () => {
     setIsLoading(true)
+    setPaymentError('')
     
     try {
-      const response = await fetch('/api/finance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'send-payment',
-          userId,
-          data: {
-            recipient: `0x${Math.random().toString(16).substr(2, 40)}`,
-            amount: 5,
-            currency: 'G$'
-          }
-        })
+      const result = await postAction('send-payment', {
+        recipient: createWalletAddress(),
+        amount: 5,
+        currency: 'G$'
       })
-
-      const result = await response.json()
       
       if (result.success) {
         await fetchBalance()
         await fetchTransactions()
+      } else {
+        // Spending limit rejections carry a reason code and, for cool-downs, when payments reopen
+        setPaymentError(typeof result.availableAt === 'string'
+          ? `${result.error} until ${new Date(result.availableAt).toLocaleString()}`
+          : result.error || 'Payment failed')
       }
     } catch (error) {
       console.error('Failed to send payment:', error)
@@ -166,19 +320,9 @@ export default function FinanceDashboard() {
     setIsLoading(true)
     
     try {
-      const response = await fetch('/api/finance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'deposit-savings',
-          userId,
-          data: {
-            depositAmount: 10
-          }
-        })
+      const result = await postAction('deposit-savings', {
+        depositAmount: 10
       })
-
-      const result = await response.json()
       
       if (result.success) {
         await fetchBalance()
@@ -191,6 +335,160 @@ export default function FinanceDashboard() {
     }
   }
 
+  const handleCreateStandingOrder = async () => {
+    setIsLoading(true)
+    setOrderError('')
+    
+    try {
+      const result = await postAction('create-standing-order', {
+        recipient: newOrder.recipient,
+        amount: Number(newOrder.amount),
+        currency: 'G$',
+        schedule: newOrder.schedule
+      })
+      
+      if (result.success) {
+        setNewOrder({ recipient: '', amount: '', schedule: '@monthly' })
+        await fetchStandingOrders()
+      } else {
+        setOrderError(result.error || 'Failed to schedule payment')
+      }
+    } catch (error) {
+      console.error('Failed to create standing order:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleUpdateStandingOrder = async (
+    action: 'pause-standing-order' | 'resume-standing-order' | 'cancel-standing-order',
+    orderId: string
+  ) => {
+    setIsLoading(true)
+    setOrderError('')
+    
+    try {
+      const result = await postAction(action, { orderId })
+      
+      if (result.success) {
+        await fetchStandingOrders()
+      } else {
+        setOrderError(result.error || 'Failed to update standing order')
+      }
+    } catch (error) {
+      console.error('Failed to update standing order:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSwap = async () => {
+    setIsLoading(true)
+    setSwapError('')
+    
+    try {
+      const result = await postAction('swap', {
+        fromCurrency: swap.fromCurrency,
+        toCurrency: swap.toCurrency,
+        amount: Number(swap.amount)
+      })
+      
+      if (result.success) {
+        setSwap(prev => ({ ...prev, amount: '' }))
+        await fetchBalance()
+        await fetchTransactions()
+      } else {
+        setSwapError(result.error || 'Swap failed')
+      }
+    } catch (error) {
+      console.error('Failed to swap currency:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCircleAction = async <A extends FinanceAction>(action: A, data: FinanceActionData<A>) => {
+    setIsLoading(true)
+    setCircleError('')
+    
+    try {
+      const result = await postAction(action, data)
+      
+      if (result.success) {
+        if (action === 'create-circle') {
+          setNewCircle({ name: '', contributionAmount: '', schedule: '@weekly', payoutOrder: 'fixed' })
+        }
+        if (action === 'join-circle') {
+          setJoinCircleId('')
+        }
+        await fetchCircles()
+        await fetchBalance()
+      } else {
+        setCircleError(result.error || 'Savings circle action failed')
+      }
+    } catch (error) {
+      console.error('Failed to update savings circle:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleMerchantAction = async <A extends FinanceAction>(
+    action: A,
+    data: FinanceActionData<A>,
+    onSuccess?: (result: FinanceActionResult<A>) => void
+  ) => {
+    setIsLoading(true)
+    setMerchantError('')
+    
+    try {
+      const result = await postAction(action, data)
+      
+      if (result.success) {
+        onSuccess?.(result.data)
+        if (action === 'pay-invoice') {
+          setInvoicePayload('')
+          await fetchBalance()
+          await fetchTransactions()
+        }
+        await fetchInvoices()
+      } else {
+        setMerchantError(result.error || 'Merchant action failed')
+      }
+    } catch (error) {
+      console.error('Failed to update invoice:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleLoanAction = async <A extends FinanceAction>(action: A, data: FinanceActionData<A>) => {
+    setIsLoading(true)
+    setLoanError('')
+    
+    try {
+      const result = await postAction(action, data)
+      
+      if (result.success) {
+        if (action === 'request-loan') {
+          setLoanRequest({ amount: '', termMonths: '6', purpose: '' })
+        }
+        if (action === 'fund-loan-pool') {
+          setPoolDeposit('')
+        }
+        await fetchLoans()
+        await fetchBalance()
+        await fetchTransactions()
+      } else {
+        setLoanError(result.error || 'Loan action failed')
+      }
+    } catch (error) {
+      console.error('Failed to update loan:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   if (!walletConnected) {
     return (
       <Card>
@@ -239,7 +537,10 @@ export default function FinanceDashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{balance.savings.toFixed(2)}</div>
             <p className="text-xs text-muted-foreground">
-              5% APY → ${balance.projectedAnnualReturn.toFixed(2)}/year
+              Interest earned: G$ {(balance.accruedInterest ?? 0).toFixed(2)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Projected: G$ {balance.projectedAnnualReturn.toFixed(2)}/year
             </p>
           </CardContent>
         </Card>
@@ -251,11 +552,18 @@ export default function FinanceDashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ${(balance.gUSDValue + balance.savingsUSDValue).toFixed(2)}
+              {balance.portfolioValue.toFixed(2)} {balance.valuationCurrency}
             </div>
             <p className="text-xs text-muted-foreground">
               Combined portfolio value
             </p>
+            {Object.entries(balance.balances)
+              .filter(([currency, amount]) => currency !== 'G$' && amount > 0)
+              .map(([currency, amount]) => (
+                <p key={currency} className="text-xs text-muted-foreground">
+                  {currency} {amount.toFixed(2)}
+                </p>
+              ))}
           </CardContent>
         </Card>
       </div>
@@ -272,12 +580,17 @@ export default function FinanceDashboard() {
           <div className="grid md:grid-cols-3 gap-4">
             <Button 
               onClick={handleClaimUBI} 
-              disabled={isLoading}
+              disabled={isLoading || msUntilNextClaim > 0}
               className="h-auto p-4 flex flex-col items-center gap-2"
             >
               <DollarSign className="h-6 w-6" />
               <span>Claim Daily UBI</span>
-              <span className="text-xs opacity-75">Get G$ 10</span>
+              <span className="text-xs opacity-75">
+                {msUntilNextClaim > 0 ? `Next claim in ${formatCountdown(msUntilNextClaim)}` : 'Get G$ 10'}
+              </span>
+              {!!balance.claimStreak && (
+                <span className="text-xs opacity-75">{balance.claimStreak} day streak</span>
+              )}
             </Button>
             
             <Button 
@@ -302,66 +615,713 @@ export default function FinanceDashboard() {
               <span className="text-xs opacity-75">5% APY</span>
             </Button>
           </div>
+          {claimError && (
+            <p className="text-sm text-red-600 mt-4">{claimError}</p>
+          )}
+          {paymentError && (
+            <p className="text-sm text-red-600 mt-4">{paymentError}</p>
+          )}
         </CardContent>
       </Card>
 
-      {/* Recent Transactions */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Activity className="h-5 w-5" />
-            Recent Transactions
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {transactions.length === 0 ? (
-            <p className="text-center text-muted-foreground py-8">
-              No transactions yet. Start by claiming your daily UBI!
-            </p>
-          ) : (
-            <div className="space-y-3">
-              {transactions.slice(0, 5).map((tx) => (
-                <div key={tx.id} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-full ${
-                      tx.type === 'ubi_claim' ? 'bg-green-100' :
-                      tx.type === 'payment' ? 'bg-blue-100' :
-                      tx.type === 'savings_deposit' ? 'bg-purple-100' : 'bg-gray-100'
-                    }`}>
-                      {tx.type === 'ubi_claim' && <DollarSign className="h-4 w-4 text-green-600" />}
-                      {tx.type === 'payment' && <Send className="h-4 w-4 text-blue-600" />}
-                      {tx.type === 'savings_deposit' && <PiggyBank className="h-4 w-4 text-purple-600" />}
+      <Tabs defaultValue="activity">
+        <TabsList>
+          <TabsTrigger value="activity">Activity</TabsTrigger>
+          <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
+          <TabsTrigger value="circles">Circles</TabsTrigger>
+          <TabsTrigger value="loans">Loans</TabsTrigger>
+          <TabsTrigger value="swap">Swap</TabsTrigger>
+          <TabsTrigger value="merchant">Merchant</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="activity">
+          {/* Recent Transactions */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  Recent Transactions
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" asChild>
+                    <a href="/api/finance/export?format=csv">Export CSV</a>
+                  </Button>
+                  <Button size="sm" variant="outline" asChild>
+                    <a href="/api/finance/export?format=ofx&currency=G$">Export OFX</a>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {transactions.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  No transactions yet. Start by claiming your daily UBI!
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {transactions.map((tx) => (
+                    <div key={tx.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <div className={`p-2 rounded-full ${
+                          tx.type === 'ubi_claim' ? 'bg-green-100' :
+                          tx.type === 'payment' ? 'bg-blue-100' :
+                          tx.type === 'savings_deposit' ? 'bg-purple-100' : 'bg-gray-100'
+                        }`}>
+                          {tx.type === 'ubi_claim' && <DollarSign className="h-4 w-4 text-green-600" />}
+                          {tx.type === 'payment' && <Send className="h-4 w-4 text-blue-600" />}
+                          {tx.type === 'savings_deposit' && <PiggyBank className="h-4 w-4 text-purple-600" />}
+                        </div>
+                        <div>
+                          <p className="font-medium capitalize">
+                            {tx.type.replace('_', ' ')}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {new Date(tx.timestamp).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-medium ${
+                          tx.type === 'ubi_claim' ? 'text-green-600' :
+                          tx.type === 'payment' ? 'text-red-600' :
+                          'text-purple-600'
+                        }`}>
+                          {tx.type === 'ubi_claim' ? '+' : tx.type === 'payment' ? '-' : '+'}
+                          {tx.currency} {tx.amount.toFixed(2)}
+                        </p>
+                        {tx.counterCurrency && tx.counterAmount !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            → {tx.counterCurrency} {tx.counterAmount.toFixed(2)}
+                          </p>
+                        )}
+                        {tx.fee && (
+                          <p className="text-xs text-muted-foreground">
+                            Fee: G$ {tx.fee.toFixed(2)}
+                          </p>
+                        )}
+                        {tx.paymentLink && tx.status === 'pending' && (
+                          <button
+                            onClick={() => copyToClipboard(`${window.location.origin}${tx.paymentLink}`)}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Copy claim link
+                          </button>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium capitalize">
-                        {tx.type.replace('_', ' ')}
-                      </p>
-                      <p className="text-sm text-muted-foreground">
-                        {new Date(tx.timestamp).toLocaleDateString()}
-                      </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="scheduled">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Scheduled Payments
+              </CardTitle>
+              <CardDescription>
+                Standing orders run automatically on their schedule
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-2">
+                <Input
+                  placeholder="Recipient"
+                  value={newOrder.recipient}
+                  onChange={(e) => setNewOrder(prev => ({ ...prev, recipient: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Amount (G$)"
+                  value={newOrder.amount}
+                  onChange={(e) => setNewOrder(prev => ({ ...prev, amount: e.target.value }))}
+                />
+                <Input
+                  placeholder="Schedule, e.g. @monthly"
+                  value={newOrder.schedule}
+                  onChange={(e) => setNewOrder(prev => ({ ...prev, schedule: e.target.value }))}
+                />
+                <Button
+                  onClick={handleCreateStandingOrder}
+                  disabled={isLoading || !newOrder.recipient || !(Number(newOrder.amount) > 0)}
+                >
+                  Schedule
+                </Button>
+              </div>
+              {orderError && (
+                <p className="text-sm text-red-600">{orderError}</p>
+              )}
+
+              {standingOrders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  No scheduled payments yet.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {standingOrders.map((order) => (
+                    <div key={order.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">
+                            {order.currency} {order.amount.toFixed(2)} → {order.recipient}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {order.schedule} · {order.runCount}{order.maxRuns ? `/${order.maxRuns}` : ''} runs
+                          </p>
+                        </div>
+                        <Badge variant={order.status === 'active' ? 'default' : 'secondary'}>
+                          {order.status}
+                        </Badge>
+                      </div>
+                      {order.upcomingRuns.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Upcoming: {order.upcomingRuns.map(run => new Date(run).toLocaleString()).join(', ')}
+                        </p>
+                      )}
+                      {order.lastError && (
+                        <p className="text-xs text-red-600">
+                          Last attempt failed: {order.lastError}
+                          {order.retryAt && ` (retrying ${new Date(order.retryAt).toLocaleString()})`}
+                        </p>
+                      )}
+                      {(order.status === 'active' || order.status === 'paused') && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isLoading}
+                            onClick={() => handleUpdateStandingOrder(
+                              order.status === 'active' ? 'pause-standing-order' : 'resume-standing-order',
+                              order.id
+                            )}
+                          >
+                            {order.status === 'active' ? 'Pause' : 'Resume'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isLoading}
+                            onClick={() => handleUpdateStandingOrder('cancel-standing-order', order.id)}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="circles">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Savings Circles
+              </CardTitle>
+              <CardDescription>
+                Save together: every round each member pays in and one member takes the pot
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-5 gap-2">
+                <Input
+                  placeholder="Circle name"
+                  value={newCircle.name}
+                  onChange={(e) => setNewCircle(prev => ({ ...prev, name: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Contribution (G$)"
+                  value={newCircle.contributionAmount}
+                  onChange={(e) => setNewCircle(prev => ({ ...prev, contributionAmount: e.target.value }))}
+                />
+                <Input
+                  placeholder="Cadence, e.g. @weekly"
+                  value={newCircle.schedule}
+                  onChange={(e) => setNewCircle(prev => ({ ...prev, schedule: e.target.value }))}
+                />
+                <select
+                  value={newCircle.payoutOrder}
+                  onChange={(e) => setNewCircle(prev => ({ ...prev, payoutOrder: e.target.value as SavingsCircle['payoutOrder'] }))}
+                  className="px-3 py-1 border rounded-md text-sm"
+                >
+                  <option value="fixed">Fixed order</option>
+                  <option value="random">Random order</option>
+                  <option value="bid">Bidding</option>
+                </select>
+                <Button
+                  onClick={() => handleCircleAction('create-circle', {
+                    ...newCircle,
+                    contributionAmount: Number(newCircle.contributionAmount)
+                  })}
+                  disabled={isLoading || !newCircle.name || !(Number(newCircle.contributionAmount) > 0)}
+                >
+                  Create
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Circle ID to join"
+                  value={joinCircleId}
+                  onChange={(e) => setJoinCircleId(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleCircleAction('join-circle', { circleId: joinCircleId })}
+                  disabled={isLoading || !joinCircleId}
+                >
+                  Join
+                </Button>
+              </div>
+              {circleError && (
+                <p className="text-sm text-red-600">{circleError}</p>
+              )}
+
+              {circles.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  You are not in any savings circle yet.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {circles.map((circle) => (
+                    <div key={circle.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{circle.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {circle.currency} {circle.contributionAmount.toFixed(2)} · {circle.schedule} · {circle.payoutOrder} payout · {circle.members.length} members
+                          </p>
+                        </div>
+                        <Badge variant={circle.status === 'active' ? 'default' : 'secondary'}>
+                          {circle.status}
+                        </Badge>
+                      </div>
+                      {circle.status === 'forming' && (
+                        <div className="flex items-center justify-between">
+                          <button
+                            onClick={() => copyToClipboard(circle.id)}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Copy circle ID to invite members
+                          </button>
+                          {circle.isCreator && (
+                            <Button
+                              size="sm"
+                              disabled={isLoading || circle.members.length < 2}
+                              onClick={() => handleCircleAction('start-circle', { circleId: circle.id })}
+                            >
+                              Start circle
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {circle.status === 'active' && circle.round && (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            Round {circle.round.number} of {circle.members.length} · due {new Date(circle.round.dueAt).toLocaleString()} · pot {circle.currency} {circle.pot.toFixed(2)} · {circle.round.contributions}/{circle.members.length} paid
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {circle.me.payoutRound
+                              ? `You received the pot in round ${circle.me.payoutRound}`
+                              : circle.payoutOrder === 'bid'
+                                ? `Highest bid this round: ${circle.currency} ${circle.round.highestBid.toFixed(2)}`
+                                : `Your payout position: ${circle.me.position}`}
+                          </p>
+                          {circle.me.arrears > 0 && (
+                            <p className="text-xs text-red-600">
+                              You owe {circle.currency} {circle.me.arrears.toFixed(2)} from missed rounds; it is added to your next contribution
+                            </p>
+                          )}
+                          {circle.me.status === 'defaulted' ? (
+                            <p className="text-xs text-red-600">You were removed after missing too many contributions</p>
+                          ) : (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                disabled={isLoading || circle.me.contributedThisRound}
+                                onClick={() => handleCircleAction('contribute-to-circle', { circleId: circle.id })}
+                              >
+                                {circle.me.contributedThisRound ? 'Contributed' : 'Contribute'}
+                              </Button>
+                              {circle.payoutOrder === 'bid' && !circle.me.payoutRound && (
+                                <>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    placeholder="Discount you give up"
+                                    className="h-8 w-48"
+                                    value={circleBids[circle.id] ?? ''}
+                                    onChange={(e) => setCircleBids(prev => ({ ...prev, [circle.id]: e.target.value }))}
+                                  />
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={isLoading || !(Number(circleBids[circle.id]) >= 0) || !circleBids[circle.id]}
+                                    onClick={() => handleCircleAction('place-circle-bid', {
+                                      circleId: circle.id,
+                                      amount: Number(circleBids[circle.id])
+                                    })}
+                                  >
+                                    Bid
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="loans">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HandCoins className="h-5 w-5" />
+                Community Loans
+              </CardTitle>
+              <CardDescription>
+                Borrow from the community pool. Larger requests go to a community vote.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Amount (G$)"
+                  value={loanRequest.amount}
+                  onChange={(e) => setLoanRequest(prev => ({ ...prev, amount: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Months"
+                  value={loanRequest.termMonths}
+                  onChange={(e) => setLoanRequest(prev => ({ ...prev, termMonths: e.target.value }))}
+                />
+                <Input
+                  placeholder="Purpose"
+                  value={loanRequest.purpose}
+                  onChange={(e) => setLoanRequest(prev => ({ ...prev, purpose: e.target.value }))}
+                />
+                <Button
+                  onClick={() => handleLoanAction('request-loan', {
+                    amount: Number(loanRequest.amount),
+                    termMonths: Number(loanRequest.termMonths),
+                    purpose: loanRequest.purpose
+                  })}
+                  disabled={isLoading || !(Number(loanRequest.amount) > 0) || !(Number(loanRequest.termMonths) > 0)}
+                >
+                  Request loan
+                </Button>
+              </div>
+              {loanError && (
+                <p className="text-sm text-red-600">{loanError}</p>
+              )}
+
+              {loans.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  No loans yet.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {loans.map((loan) => (
+                    <div key={loan.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">
+                            {loan.currency} {loan.principal.toFixed(2)} · {loan.termMonths} months at {loan.interestRate}% APR
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {loan.status === 'pending'
+                              ? 'Awaiting community vote'
+                              : `Outstanding ${loan.currency} ${loan.outstanding.toFixed(2)} · ${loan.installments.filter(installment => installment.status === 'paid').length}/${loan.termMonths} installments paid`}
+                          </p>
+                        </div>
+                        <Badge variant={loan.status === 'active' ? 'default' : loan.status === 'defaulted' ? 'destructive' : 'secondary'}>
+                          {loan.status}
+                        </Badge>
+                      </div>
+                      {loan.installments.some(installment => installment.status === 'overdue') && (
+                        <p className="text-xs text-red-600">You have overdue installments</p>
+                      )}
+                      {loan.nextInstallment && (loan.status === 'active' || loan.status === 'defaulted') && (
+                        <div className="flex items-center justify-between">
+                          <p className="text-xs text-muted-foreground">
+                            Next: {loan.currency} {loan.nextInstallment.amount.toFixed(2)} due {new Date(loan.nextInstallment.dueDate).toLocaleDateString()}
+                          </p>
+                          <Button
+                            size="sm"
+                            disabled={isLoading || balance.gBalance < loan.nextInstallment.amount}
+                            onClick={() => handleLoanAction('repay-loan', { loanId: loan.id })}
+                          >
+                            Repay installment
+                          </Button>
+                        </div>
+                      )}
                     </div>
+                  ))}
+                </div>
+              )}
+
+              {loanPool && (
+                <div className="p-3 border rounded-lg space-y-2">
+                  <p className="font-medium">Loan pool</p>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-muted-foreground">
+                    <span>Available: G$ {loanPool.available.toFixed(2)}</span>
+                    <span>Lent out: G$ {loanPool.outstandingPrincipal.toFixed(2)}</span>
+                    <span>Active loans: {loanPool.activeLoans}</span>
+                    <span>Overdue: G$ {loanPool.overdueAmount.toFixed(2)}</span>
+                    <span>Defaulted: G$ {loanPool.defaultedPrincipal.toFixed(2)}</span>
+                    <span>Utilization: {(loanPool.utilization * 100).toFixed(1)}%</span>
                   </div>
-                  <div className="text-right">
-                    <p className={`font-medium ${
-                      tx.type === 'ubi_claim' ? 'text-green-600' :
-                      tx.type === 'payment' ? 'text-red-600' :
-                      'text-purple-600'
-                    }`}>
-                      {tx.type === 'ubi_claim' ? '+' : tx.type === 'payment' ? '-' : '+'}
-                      G$ {tx.amount.toFixed(2)}
-                    </p>
-                    {tx.fee && (
-                      <p className="text-xs text-muted-foreground">
-                        Fee: G$ {tx.fee.toFixed(2)}
-                      </p>
-                    )}
+                  <Progress value={loanPool.utilization * 100} />
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder={`Lend to the pool (you have lent G$ ${loanPool.yourDeposits.toFixed(2)})`}
+                      value={poolDeposit}
+                      onChange={(e) => setPoolDeposit(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => handleLoanAction('fund-loan-pool', { amount: Number(poolDeposit) })}
+                      disabled={isLoading || !(Number(poolDeposit) > 0)}
+                    >
+                      Lend
+                    </Button>
                   </div>
                 </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="swap">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                Swap Currencies
+              </CardTitle>
+              <CardDescription>
+                Exchange at current market rates. 0.3% fee.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-2">
+                <select
+                  value={swap.fromCurrency}
+                  onChange={(e) => setSwap(prev => ({ ...prev, fromCurrency: e.target.value }))}
+                  className="px-3 py-1 border rounded-md text-sm"
+                >
+                  {SWAP_CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <select
+                  value={swap.toCurrency}
+                  onChange={(e) => setSwap(prev => ({ ...prev, toCurrency: e.target.value }))}
+                  className="px-3 py-1 border rounded-md text-sm"
+                >
+                  {SWAP_CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder={`Amount (${swap.fromCurrency})`}
+                  value={swap.amount}
+                  onChange={(e) => setSwap(prev => ({ ...prev, amount: e.target.value }))}
+                />
+                <Button
+                  onClick={handleSwap}
+                  disabled={isLoading || swap.fromCurrency === swap.toCurrency || !(Number(swap.amount) > 0)}
+                >
+                  Swap
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Available: {swap.fromCurrency} {(balance.balances[swap.fromCurrency] ?? 0).toFixed(2)}
+              </p>
+              {swapError && (
+                <p className="text-sm text-red-600">{swapError}</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="merchant">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Store className="h-5 w-5" />
+                {merchantName ?? 'Merchant'}
+              </CardTitle>
+              <CardDescription>
+                Issue invoices customers pay by scanning a QR code, or pay one you have scanned.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Paste an invoice code to pay it"
+                  value={invoicePayload}
+                  onChange={(e) => setInvoicePayload(e.target.value)}
+                />
+                <Button
+                  onClick={() => handleMerchantAction('pay-invoice', { payload: invoicePayload.trim() })}
+                  disabled={isLoading || !invoicePayload.trim()}
+                >
+                  Pay
+                </Button>
+              </div>
+              {merchantError && (
+                <p className="text-sm text-red-600">{merchantError}</p>
+              )}
+
+              {!merchantName ? (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Business name"
+                    value={merchantNameInput}
+                    onChange={(e) => setMerchantNameInput(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleMerchantAction(
+                      'enable-merchant',
+                      { merchantName: merchantNameInput },
+                      result => setMerchantName(result.merchantName)
+                    )}
+                    disabled={isLoading || !merchantNameInput.trim()}
+                  >
+                    Enable merchant mode
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="grid md:grid-cols-4 gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Amount (G$)"
+                      value={newInvoice.amount}
+                      onChange={(e) => setNewInvoice(prev => ({ ...prev, amount: e.target.value }))}
+                    />
+                    <Input
+                      placeholder="Memo"
+                      value={newInvoice.memo}
+                      onChange={(e) => setNewInvoice(prev => ({ ...prev, memo: e.target.value }))}
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Expires in (minutes)"
+                      value={newInvoice.expiresInMinutes}
+                      onChange={(e) => setNewInvoice(prev => ({ ...prev, expiresInMinutes: e.target.value }))}
+                    />
+                    <Button
+                      onClick={() => handleMerchantAction('create-invoice', {
+                        amount: Number(newInvoice.amount),
+                        memo: newInvoice.memo,
+                        expiresInMinutes: Number(newInvoice.expiresInMinutes)
+                      }, result => {
+                        setNewInvoice({ amount: '', memo: '', expiresInMinutes: '60' })
+                        setInvoiceQRCode({ payload: result.payload, image: result.qrCode })
+                      })}
+                      disabled={isLoading || !(Number(newInvoice.amount) > 0) || !(Number(newInvoice.expiresInMinutes) > 0)}
+                    >
+                      Create invoice
+                    </Button>
+                  </div>
+
+                  {invoiceQRCode && (
+                    <div className="flex flex-col items-center gap-2 p-3 border rounded-lg">
+                      <img src={invoiceQRCode.image} alt="Invoice QR code" className="h-48 w-48" />
+                      <Button variant="outline" size="sm" onClick={() => copyToClipboard(invoiceQRCode.payload)}>
+                        Copy invoice code
+                      </Button>
+                    </div>
+                  )}
+
+                  {settlement && (
+                    <div className="p-3 border rounded-lg space-y-1">
+                      <p className="font-medium">Settled today ({settlement.date})</p>
+                      {Object.keys(settlement.totals).length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No invoices paid yet today</p>
+                      ) : (
+                        Object.entries(settlement.totals).map(([currency, total]) => (
+                          <p key={currency} className="text-xs text-muted-foreground">
+                            {currency} {total.gross.toFixed(2)} from {total.count} invoice{total.count === 1 ? '' : 's'}
+                          </p>
+                        ))
+                      )}
+                    </div>
+                  )}
+
+                  {invoices.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">
+                      No invoices yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {invoices.map((invoice) => (
+                        <div key={invoice.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium">
+                              {invoice.currency} {invoice.amount.toFixed(2)}{invoice.memo ? ` · ${invoice.memo}` : ''}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {invoice.paidAt
+                                ? `Paid ${new Date(invoice.paidAt).toLocaleString()}`
+                                : `Expires ${new Date(invoice.expiresAt).toLocaleString()}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'}>
+                              {invoice.status}
+                            </Badge>
+                            {invoice.status === 'open' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={isLoading}
+                                onClick={() => handleMerchantAction('cancel-invoice', { invoiceId: invoice.id })}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
\ No newline at end of file
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Shield, CheckCircle, AlertCircle, Lock } from 'lucide-react'
+import type { ApiResponse } from '@/lib/api/common'
+import type { IdentityActionResults } from '@/lib/api/identity'
 
 interface IdentityData {
   passportId?: string
@@ -33,12 +35,17 @@ export default function IdentityVerification() {
           action: 'verify-human-passport',
           data: {
             timestamp: new Date().toISOString(),
-            userAgent: navigator.userAgent
+            userAgent: navigator.userAgent,
+            behavioral: {
+              language: navigator.language,
+              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+              touch: navigator.maxTouchPoints > 0
+            }
           }
         })
       })
 
-      const result = await response.json()
+      const result: ApiResponse<IdentityActionResults['verify-human-passport']> = await response.json()
       
       if (result.success) {
         setIdentityData(prev => ({ ...prev, ...result.data }))
@@ -73,7 +80,7 @@ export default function IdentityVerification() {
         })
       })
 
-      const result = await response.json()
+      const result: ApiResponse<IdentityActionResults['store-private-data']> = await response.json()
       
       if (result.success) {
         setIdentityData(prev => ({ ...prev, storageId: result.data.storageId }))
@@ -103,7 +110,7 @@ export default function IdentityVerification() {
         })
       })
 
-      const result = await response.json()
+      const result: ApiResponse<IdentityActionResults['generate-did']> = await response.json()
       
       if (result.success) {
         setIdentityData(prev => ({ ...prev, ...result.data }))
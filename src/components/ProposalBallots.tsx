@@ -0,0 +1,496 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Slider } from '@/components/ui/slider'
+import { AlertCircle, ArrowLeft } from 'lucide-react'
+import ProposalDiscussion from '@/components/ProposalDiscussion'
+import type { ApiResponse } from '@/lib/api/common'
+import {
+  SCORE_MAX,
+  type Ballot,
+  type BallotType,
+  type DiffPart,
+  type GovernanceQueryResults,
+  type OptionTally,
+  type Proposal,
+  type ProposalVersion,
+  type VersionDiff,
+  type ProposalDetail,
+  type VoteType
+} from '@/lib/api/governance'
+
+const BALLOT_LABELS: Record<BallotType, string> = {
+  'binary': 'Yes / No',
+  'plurality': 'Pick one',
+  'ranked-choice': 'Ranked choice',
+  'approval': 'Approval',
+  'score': 'Score'
+}
+
+const BALLOT_HINTS: Record<BallotType, string> = {
+  'binary': 'Vote for, against, or abstain.',
+  'plurality': 'Choose the one option you support most.',
+  'ranked-choice': 'Click options in order of preference. Leave out any you would never support.',
+  'approval': 'Tick every option you would be happy with.',
+  'score': `Rate each option from 0 to ${SCORE_MAX}.`
+}
+
+const DIFF_STYLES: Record<DiffPart['kind'], string> = {
+  same: '',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-900 line-through'
+}
+
+const getQuery = async <A extends keyof GovernanceQueryResults>(
+  action: A,
+  params: Record<string, string> = {}
+): Promise<ApiResponse<GovernanceQueryResults[A]>> => {
+  const response = await fetch(`/api/governance?${new URLSearchParams({ action, ...params })}`)
+  return response.json()
+}
+
+function daysLeft(deadline: string | null) {
+  if (!deadline) return null
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
+}
+
+// Open proposals with a ballot for whichever method each one uses, the results so far and the discussion
+export default function ProposalBallots() {
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [detail, setDetail] = useState<ProposalDetail | null>(null)
+  const [choice, setChoice] = useState('')
+  const [ranking, setRanking] = useState<string[]>([])
+  const [approved, setApproved] = useState<string[]>([])
+  const [scores, setScores] = useState<Record<string, number>>({})
+  const [credits, setCredits] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchProposals()
+  }, [])
+
+  const fetchProposals = async () => {
+    try {
+      // Proposals still being discussed are listed too, so members can weigh in before voting
+      const [voting, discussion] = await Promise.all([
+        getQuery('get-proposals', { status: 'voting' }),
+        getQuery('get-proposals', { status: 'discussion' })
+      ])
+
+      if (voting.success && discussion.success) {
+        setProposals([...voting.data.proposals, ...discussion.data.proposals])
+      }
+    } catch (error) {
+      console.error('Failed to fetch proposals:', error)
+    }
+  }
+
+  const openProposal = async (proposalId: string) => {
+    setError('')
+    setChoice('')
+    setRanking([])
+    setApproved([])
+    setScores({})
+    setCredits('')
+
+    try {
+      const result = await getQuery('get-proposal', { id: proposalId })
+
+      if (result.success) {
+        setDetail(result.data)
+      } else {
+        setError(result.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch proposal:', error)
+    }
+  }
+
+  const buildBallot = (ballotType: BallotType): Ballot | null => {
+    switch (ballotType) {
+      case 'plurality':
+        return choice ? { type: 'plurality', optionId: choice } : null
+      case 'ranked-choice':
+        return ranking.length > 0 ? { type: 'ranked-choice', ranking } : null
+      case 'approval':
+        return approved.length > 0 ? { type: 'approval', approved } : null
+      case 'score':
+        return { type: 'score', scores }
+      default:
+        return null
+    }
+  }
+
+  const submit = async (voteType?: VoteType) => {
+    if (!detail) return
+    const { proposal } = detail
+    const ballot = proposal.ballotType === 'binary' ? null : buildBallot(proposal.ballotType)
+    if (proposal.ballotType !== 'binary' && !ballot) {
+      setError('Fill in your ballot first')
+      return
+    }
+
+    setIsLoading(true)
+    setError('')
+
+    try {
+      // Binds the vote to the version on screen; the server refuses it if an amendment landed meanwhile
+      const shared = {
+        proposalId: proposal.id,
+        versionHash: proposal.contentHash ?? undefined,
+        credits: proposal.votingMethod === 'quadratic' ? Number(credits) || undefined : undefined
+      }
+      const response = await fetch('/api/governance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ballot
+          ? { action: 'cast-ballot', data: { ...shared, ballot } }
+          : { action: 'vote', data: { ...shared, voteType } }
+        )
+      })
+      const result: ApiResponse<{ message: string }> = await response.json()
+
+      if (result.success) {
+        await openProposal(proposal.id)
+      } else {
+        setError(Object.values(result.fields ?? {})[0]?.[0] || result.error)
+      }
+    } catch (error) {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleRanked = (optionId: string) => {
+    setRanking(prev => prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId])
+  }
+
+  const toggleApproved = (optionId: string, checked: boolean) => {
+    setApproved(prev => checked ? [...prev, optionId] : prev.filter(id => id !== optionId))
+  }
+
+  if (!detail) {
+    return (
+      <div className="p-4 border rounded-lg">
+        <h4 className="font-semibold mb-2">Active Proposals</h4>
+        <div className="space-y-2">
+          {proposals.length === 0 && (
+            <p className="text-sm text-muted-foreground">No proposals are open for discussion or voting</p>
+          )}
+          {proposals.map(proposal => (
+            <button
+              key={proposal.id}
+              className="flex w-full justify-between items-center gap-2 text-left hover:bg-muted rounded p-1"
+              onClick={() => openProposal(proposal.id)}
+            >
+              <span className="text-sm">{proposal.title}</span>
+              <span className="flex gap-1 shrink-0">
+                <Badge variant="outline">{BALLOT_LABELS[proposal.ballotType]}</Badge>
+                {proposal.status === 'discussion'
+                  ? <Badge variant="secondary">In discussion</Badge>
+                  : <Badge>{daysLeft(proposal.votingDeadline)} days left</Badge>}
+              </span>
+            </button>
+          ))}
+        </div>
+        <Button className="w-full mt-3" variant="outline" onClick={fetchProposals}>Refresh Proposals</Button>
+      </div>
+    )
+  }
+
+  const { proposal, tally, votingPower } = detail
+  const optionLabel = (optionId: string) =>
+    proposal.options.find(option => option.id === optionId)?.label ?? optionId
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="font-semibold">{proposal.title}</h4>
+          <p className="text-sm text-muted-foreground">{proposal.description}</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setDetail(null)}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="outline">{BALLOT_LABELS[proposal.ballotType]}</Badge>
+        <Badge variant="outline">{proposal.votingMethod}</Badge>
+        <Badge>{proposal.status}</Badge>
+        {proposal.version > 1 && <Badge variant="secondary">v{proposal.version}</Badge>}
+      </div>
+
+      {detail.canVote && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{BALLOT_HINTS[proposal.ballotType]}</p>
+
+          {proposal.ballotType === 'plurality' && (
+            <RadioGroup value={choice} onValueChange={setChoice}>
+              {proposal.options.map(option => (
+                <div key={option.id} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.id} id={`choice-${option.id}`} />
+                  <Label htmlFor={`choice-${option.id}`}>{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+
+          {proposal.ballotType === 'ranked-choice' && (
+            <div className="space-y-1">
+              {proposal.options.map(option => {
+                const rank = ranking.indexOf(option.id)
+                return (
+                  <Button
+                    key={option.id}
+                    variant={rank >= 0 ? 'default' : 'outline'}
+                    className="w-full justify-start"
+                    onClick={() => toggleRanked(option.id)}
+                  >
+                    <span className="w-6">{rank >= 0 ? rank + 1 : '–'}</span>
+                    {option.label}
+                  </Button>
+                )
+              })}
+            </div>
+          )}
+
+          {proposal.ballotType === 'approval' && proposal.options.map(option => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`approve-${option.id}`}
+                checked={approved.includes(option.id)}
+                onCheckedChange={(checked) => toggleApproved(option.id, checked === true)}
+              />
+              <Label htmlFor={`approve-${option.id}`}>{option.label}</Label>
+            </div>
+          ))}
+
+          {proposal.ballotType === 'score' && proposal.options.map(option => (
+            <div key={option.id} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{option.label}</span>
+                <span className="font-medium">{scores[option.id] ?? 0}</span>
+              </div>
+              <Slider
+                min={0}
+                max={SCORE_MAX}
+                step={1}
+                value={[scores[option.id] ?? 0]}
+                onValueChange={([score]) => setScores(prev => ({ ...prev, [option.id]: score }))}
+              />
+            </div>
+          ))}
+
+          {proposal.votingMethod === 'quadratic' && votingPower?.credits && (
+            <div className="space-y-1">
+              <Label htmlFor="quadratic-credits">
+                Credits to spend ({votingPower.credits.remaining} of {votingPower.credits.budget} left)
+              </Label>
+              <Input
+                id="quadratic-credits"
+                type="number"
+                min={1}
+                max={votingPower.credits.remaining}
+                value={credits}
+                onChange={(e) => setCredits(e.target.value)}
+              />
+            </div>
+          )}
+
+          {proposal.ballotType === 'binary' ? (
+            <div className="grid grid-cols-3 gap-2">
+              <Button onClick={() => submit('for')} disabled={isLoading}>For</Button>
+              <Button variant="outline" onClick={() => submit('against')} disabled={isLoading}>Against</Button>
+              <Button variant="ghost" onClick={() => submit('abstain')} disabled={isLoading}>Abstain</Button>
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => submit()} disabled={isLoading}>Cast Ballot</Button>
+          )}
+        </div>
+      )}
+
+      {!detail.canVote && votingPower && !votingPower.eligible && (
+        <p className="text-sm text-muted-foreground">{votingPower.reason}</p>
+      )}
+      {detail.userVote && (
+        <p className="text-sm text-muted-foreground">
+          Your vote is recorded.
+          {detail.userVote.versionHash !== proposal.contentHash && ' It was cast on an earlier version; the proposal has had minor amendments since.'}
+        </p>
+      )}
+      {detail.supersededVote && (
+        <p className="text-sm text-amber-700">
+          Your vote no longer counts: version {detail.supersededVote.byVersion} changed the proposal materially.
+          {detail.canVote && ' Review the changes and vote again.'}
+        </p>
+      )}
+      {detail.representedBy && (
+        <p className="text-sm text-muted-foreground">
+          {detail.representedBy.voterId
+            ? `${detail.representedBy.voterId} is voting on your behalf through delegation.`
+            : `You delegated to ${detail.representedBy.chain[0]}, who has not voted yet.`}
+          {' '}Voting yourself overrides this.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-semibold">Results</span>
+          <span className="text-muted-foreground">
+            {tally.voters} voters · quorum {tally.quorumReached ? 'reached' : `${tally.quorum} ${tally.quorumBasis}`}
+          </span>
+        </div>
+
+        {tally.ballotType === 'binary' ? (
+          (['for', 'against', 'abstain'] as const).map(voteType => (
+            <div key={voteType} className="space-y-1">
+              <div className="flex justify-between text-sm capitalize">
+                <span>{voteType}</span>
+                <span>
+                  {tally[voteType].toFixed(1)}
+                  {tally.delegated[voteType] > 0 && ` (${tally.delegated[voteType].toFixed(1)} delegated)`}
+                </span>
+              </div>
+              <Progress value={tally.total > 0 ? tally[voteType] / tally.total * 100 : 0} className="h-2" />
+            </div>
+          ))
+        ) : (
+          <OptionRounds tally={tally} optionLabel={optionLabel} />
+        )}
+      </div>
+
+      {proposal.version > 1 && <VersionHistory proposalId={proposal.id} />}
+
+      <ProposalDiscussion proposalId={proposal.id} />
+    </div>
+  )
+}
+
+function OptionRounds({ tally, optionLabel }: { tally: OptionTally, optionLabel: (optionId: string) => string }) {
+  return (
+    <div className="space-y-3">
+      {tally.rounds.map(round => {
+        const roundTotal = Object.values(round.counts).reduce((sum, count) => sum + count, 0)
+        return (
+          <div key={round.round} className="space-y-1">
+            {tally.rounds.length > 1 && (
+              <p className="text-xs font-medium text-muted-foreground">Round {round.round}</p>
+            )}
+            {Object.entries(round.counts).map(([optionId, count]) => (
+              <div key={optionId} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className={round.eliminated.includes(optionId) ? 'line-through text-muted-foreground' : ''}>
+                    {optionLabel(optionId)}
+                  </span>
+                  <span>
+                    {count.toFixed(1)}
+                    {round.delegated[optionId] > 0 && ` (${round.delegated[optionId].toFixed(1)} delegated)`}
+                  </span>
+                </div>
+                <Progress value={roundTotal > 0 ? count / roundTotal * 100 : 0} className="h-2" />
+              </div>
+            ))}
+            {round.exhausted > 0 && (
+              <p className="text-xs text-muted-foreground">Exhausted ballots: {round.exhausted.toFixed(1)}</p>
+            )}
+          </div>
+        )
+      })}
+      <p className="text-sm">
+        Leading: <span className="font-medium">{tally.winner ? optionLabel(tally.winner) : 'no outright winner yet'}</span>
+      </p>
+    </div>
+  )
+}
+
+// Each version of an amended proposal, with the changes one made to the version before it
+function VersionHistory({ proposalId }: { proposalId: string }) {
+  const [versions, setVersions] = useState<ProposalVersion[] | null>(null)
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+
+  const fetchVersions = async () => {
+    if (versions) {
+      setVersions(null)
+      setDiff(null)
+      return
+    }
+
+    try {
+      const result = await getQuery('get-proposal-versions', { proposalId })
+
+      if (result.success) {
+        setVersions(result.data.versions)
+      }
+    } catch (error) {
+      console.error('Failed to fetch proposal versions:', error)
+    }
+  }
+
+  const showChanges = async (version: number) => {
+    try {
+      const result = await getQuery('get-proposal-diff', {
+        proposalId,
+        from: String(version - 1),
+        to: String(version)
+      })
+
+      if (result.success) {
+        setDiff(result.data)
+      }
+    } catch (error) {
+      console.error('Failed to fetch proposal changes:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" size="sm" className="w-full" onClick={fetchVersions}>
+        {versions ? 'Hide version history' : 'Version history'}
+      </Button>
+
+      {versions?.map(version => (
+        <button
+          key={version.version}
+          className="flex w-full justify-between gap-2 rounded p-1 text-left text-sm hover:bg-muted disabled:hover:bg-transparent"
+          disabled={version.version === 1}
+          onClick={() => showChanges(version.version)}
+        >
+          <span>
+            v{version.version} · {version.summary ?? 'Original proposal'}
+            {version.material && <Badge variant="outline" className="ml-1">material</Badge>}
+          </span>
+          <span className="font-mono text-xs text-muted-foreground">{version.contentHash.slice(0, 8)}</span>
+        </button>
+      ))}
+
+      {diff && (
+        <div className="rounded border p-2 space-y-2 text-sm">
+          <p className="text-xs text-muted-foreground">Changes from v{diff.from.version} to v{diff.to.version}</p>
+          <p className="font-medium">
+            {diff.title.map((part, index) => <span key={index} className={DIFF_STYLES[part.kind]}>{part.text}</span>)}
+          </p>
+          <p className="whitespace-pre-wrap">
+            {diff.description.map((part, index) => <span key={index} className={DIFF_STYLES[part.kind]}>{part.text}</span>)}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,390 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import ReactMarkdown from 'react-markdown'
+import { io } from 'socket.io-client'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertCircle, Flag, History, Lock, MessageSquare } from 'lucide-react'
+import type { ApiResponse } from '@/lib/api/common'
+import {
+  COMMENT_REACTIONS,
+  MAX_COMMENT_DEPTH,
+  type CommentEvent,
+  type CommentReaction,
+  type CommentRevision,
+  type GovernanceActionRequest,
+  type GovernanceQueryResults,
+  type ModerationDecision,
+  type ProposalComment,
+  type ProposalDiscussion as Discussion,
+  type ReputationBadge
+} from '@/lib/api/governance'
+
+const REACTION_LABELS: Record<CommentReaction, string> = {
+  agree: '👍',
+  disagree: '👎',
+  insightful: '💡',
+  question: '❓',
+  celebrate: '🎉'
+}
+
+const BADGE_STYLES: Record<ReputationBadge, string> = {
+  unverified: 'bg-muted text-muted-foreground',
+  verified: 'bg-blue-100 text-blue-800',
+  trusted: 'bg-green-100 text-green-800',
+  pillar: 'bg-purple-100 text-purple-800'
+}
+
+type ActionName = GovernanceActionRequest['action']
+type ActionData<A extends ActionName> = Extract<GovernanceActionRequest, { action: A }>['data']
+
+const postAction = async <A extends ActionName>(
+  action: A,
+  data: ActionData<A>
+): Promise<ApiResponse<{ comment?: ProposalComment, message?: string }>> => {
+  const response = await fetch('/api/governance', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, data })
+  })
+  return response.json()
+}
+
+const errorMessage = (result: { error: string, fields?: Record<string, string[]> }) =>
+  Object.values(result.fields ?? {})[0]?.[0] || result.error
+
+// Threaded comments on one proposal, kept live over the socket
+export default function ProposalDiscussion({ proposalId }: { proposalId: string }) {
+  const [discussion, setDiscussion] = useState<Discussion | null>(null)
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<string | null>(null)
+  const [flagging, setFlagging] = useState<string | null>(null)
+  const [text, setText] = useState('')
+  const [history, setHistory] = useState<{ commentId: string, revisions: CommentRevision[] } | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchDiscussion()
+  }, [proposalId])
+
+  // Comments from other members arrive over the socket as they are posted
+  useEffect(() => {
+    const socket = io({ path: '/api/socketio' })
+    socket.on('proposal:comment', (event: CommentEvent) => {
+      if (event.comment.proposalId === proposalId) {
+        mergeComment(event.comment)
+      }
+    })
+    return () => {
+      socket.disconnect()
+    }
+  }, [proposalId])
+
+  const fetchDiscussion = async () => {
+    try {
+      const response = await fetch(`/api/governance?${new URLSearchParams({ action: 'get-discussion', proposalId })}`)
+      const result: ApiResponse<GovernanceQueryResults['get-discussion']> = await response.json()
+
+      if (result.success) {
+        setDiscussion(result.data)
+      } else {
+        setError(result.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch discussion:', error)
+    }
+  }
+
+  // Broadcast comments carry no viewer, so the member's own reactions are kept from before
+  const mergeComment = (comment: ProposalComment, own = false) => {
+    setDiscussion(prev => {
+      if (!prev) return prev
+      const existing = prev.comments.find(entry => entry.id === comment.id)
+      if (!existing) {
+        return { ...prev, comments: [...prev.comments, comment] }
+      }
+      const merged = own ? comment : { ...comment, myReactions: existing.myReactions }
+      return { ...prev, comments: prev.comments.map(entry => entry.id === comment.id ? merged : entry) }
+    })
+  }
+
+  const run = async <A extends ActionName>(action: A, data: ActionData<A>) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const result = await postAction(action, data)
+
+      if (!result.success) {
+        setError(errorMessage(result))
+        return false
+      }
+      if (result.data.comment) {
+        mergeComment(result.data.comment, true)
+      }
+      return true
+    } catch (error) {
+      setError('Network error. Please try again.')
+      return false
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const submitComment = async () => {
+    if (!draft.trim()) return
+    if (await run('post-comment', { proposalId, body: draft })) {
+      setDraft('')
+    }
+  }
+
+  const submitInline = async (commentId: string) => {
+    if (!text.trim()) return
+    const done = replyTo === commentId
+      ? await run('post-comment', { proposalId, body: text, parentId: commentId })
+      : editing === commentId
+        ? await run('edit-comment', { commentId, body: text })
+        : await run('flag-comment', { commentId, reason: text })
+    if (done) {
+      closeInline()
+    }
+  }
+
+  const closeInline = () => {
+    setReplyTo(null)
+    setEditing(null)
+    setFlagging(null)
+    setText('')
+  }
+
+  const openInline = (mode: 'reply' | 'edit' | 'flag', comment: ProposalComment) => {
+    closeInline()
+    if (mode === 'reply') setReplyTo(comment.id)
+    if (mode === 'edit') {
+      setEditing(comment.id)
+      setText(comment.body ?? '')
+    }
+    if (mode === 'flag') setFlagging(comment.id)
+  }
+
+  const showHistory = async (commentId: string) => {
+    if (history?.commentId === commentId) {
+      setHistory(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/governance?${new URLSearchParams({ action: 'get-comment-history', commentId })}`)
+      const result: ApiResponse<GovernanceQueryResults['get-comment-history']> = await response.json()
+
+      if (result.success) {
+        setHistory({ commentId, revisions: result.data.revisions })
+      } else {
+        setError(result.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch comment history:', error)
+    }
+  }
+
+  const moderate = (commentId: string, decision: ModerationDecision) => run('moderate-comment', { commentId, decision })
+
+  const toggleLock = async () => {
+    if (!discussion) return
+    if (await run('lock-discussion', { proposalId, locked: !discussion.locked })) {
+      await fetchDiscussion()
+    }
+  }
+
+  if (!discussion) {
+    return null
+  }
+
+  const replies = (parentId: string | null) =>
+    discussion.comments.filter(comment => comment.parentId === parentId)
+
+  const renderComment = (comment: ProposalComment) => {
+    const isOwn = comment.author.id === discussion.viewerId
+    const inlineOpen = replyTo === comment.id || editing === comment.id || flagging === comment.id
+
+    return (
+      <div key={comment.id} className={comment.depth > 0 ? 'ml-4 border-l pl-3' : ''}>
+        <div className="py-2 space-y-1">
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            <span className="font-medium">{comment.author.name ?? comment.author.id}</span>
+            <span className={`rounded px-1.5 py-0.5 ${BADGE_STYLES[comment.author.badge]}`}>
+              {comment.author.badge}
+              {comment.author.reputation !== null && ` · ${Math.round(comment.author.reputation)}`}
+            </span>
+            {comment.author.moderator && <Badge variant="outline">moderator</Badge>}
+            <span className="text-muted-foreground">{new Date(comment.createdAt).toLocaleString()}</span>
+            {comment.editedAt && (
+              <button className="flex items-center gap-0.5 text-muted-foreground underline" onClick={() => showHistory(comment.id)}>
+                <History className="h-3 w-3" /> edited
+              </button>
+            )}
+            {comment.locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+          </div>
+
+          {comment.hidden ? (
+            <p className="text-sm italic text-muted-foreground">
+              Hidden by a moderator{comment.moderationNote && `: ${comment.moderationNote}`}
+            </p>
+          ) : (
+            <div className="text-sm space-y-2 break-words [&_a]:underline [&_code]:bg-muted [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5">
+              <ReactMarkdown>{comment.body ?? ''}</ReactMarkdown>
+            </div>
+          )}
+
+          {history?.commentId === comment.id && (
+            <div className="rounded bg-muted p-2 space-y-2 text-xs">
+              {history.revisions.length === 0 && <p>No earlier versions</p>}
+              {history.revisions.map(revision => (
+                <div key={revision.replacedAt}>
+                  <p className="text-muted-foreground">Replaced {new Date(revision.replacedAt).toLocaleString()}</p>
+                  <p className="whitespace-pre-wrap">{revision.body}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!comment.hidden && (
+            <div className="flex flex-wrap items-center gap-1">
+              {COMMENT_REACTIONS.map(reaction => (
+                <Button
+                  key={reaction}
+                  size="sm"
+                  variant={comment.myReactions.includes(reaction) ? 'secondary' : 'ghost'}
+                  className="h-6 px-2 text-xs"
+                  disabled={!discussion.open || !discussion.viewerId || isLoading}
+                  onClick={() => run('react-to-comment', { commentId: comment.id, reaction })}
+                >
+                  {REACTION_LABELS[reaction]} {comment.reactions[reaction] || ''}
+                </Button>
+              ))}
+              {discussion.open && discussion.viewerId && !comment.locked && comment.depth < MAX_COMMENT_DEPTH && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => openInline('reply', comment)}>
+                  <MessageSquare className="h-3 w-3 mr-1" /> Reply
+                </Button>
+              )}
+              {discussion.open && isOwn && !comment.locked && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => openInline('edit', comment)}>
+                  Edit
+                </Button>
+              )}
+              {discussion.viewerId && !isOwn && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => openInline('flag', comment)}>
+                  <Flag className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )}
+
+          {discussion.canModerate && (
+            <div className="flex flex-wrap gap-1">
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" disabled={isLoading}
+                onClick={() => moderate(comment.id, comment.hidden ? 'unhide' : 'hide')}>
+                {comment.hidden ? 'Unhide' : 'Hide'}
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" disabled={isLoading}
+                onClick={() => moderate(comment.id, comment.locked ? 'unlock' : 'lock')}>
+                {comment.locked ? 'Unlock' : 'Lock'}
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" disabled={isLoading}
+                onClick={() => moderate(comment.id, 'dismiss-flags')}>
+                Dismiss flags
+              </Button>
+            </div>
+          )}
+
+          {inlineOpen && (
+            <div className="space-y-1">
+              {flagging === comment.id ? (
+                <Input
+                  placeholder="Why should a moderator look at this?"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                />
+              ) : (
+                <Textarea
+                  placeholder={editing === comment.id ? 'Edit your comment' : 'Write a reply (markdown supported)'}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                />
+              )}
+              <div className="flex gap-1">
+                <Button size="sm" disabled={isLoading} onClick={() => submitInline(comment.id)}>
+                  {flagging === comment.id ? 'Report' : editing === comment.id ? 'Save' : 'Reply'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={closeInline}>Cancel</Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {replies(comment.id).map(renderComment)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm">Discussion ({discussion.comments.length})</span>
+        {discussion.canModerate && (
+          <Button size="sm" variant="outline" onClick={toggleLock} disabled={isLoading}>
+            <Lock className="h-3 w-3 mr-1" /> {discussion.locked ? 'Reopen discussion' : 'Lock discussion'}
+          </Button>
+        )}
+      </div>
+
+      {discussion.locked && (
+        <p className="text-sm text-muted-foreground">A moderator has locked this discussion.</p>
+      )}
+
+      {discussion.voteReasons.length > 0 && (
+        <div className="rounded bg-muted p-2 space-y-1">
+          <p className="text-xs font-medium">Reasons given by voters</p>
+          {discussion.voteReasons.map((reason, index) => (
+            <p key={`${reason.at}-${index}`} className="text-xs">
+              {reason.voteType && <Badge variant="outline" className="mr-1 capitalize">{reason.voteType}</Badge>}
+              {reason.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="divide-y">
+        {replies(null).map(renderComment)}
+        {discussion.comments.length === 0 && (
+          <p className="text-sm text-muted-foreground py-2">No comments yet</p>
+        )}
+      </div>
+
+      {discussion.open && discussion.viewerId && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Share your view on this proposal (markdown supported)"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <Button className="w-full" onClick={submitComment} disabled={isLoading || !draft.trim()}>
+            Post Comment
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
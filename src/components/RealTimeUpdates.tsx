@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react'
 import { toast } from '@/hooks/use-toast'
 import { useNotifications } from '@/components/NotificationSystem'
 import { cache } from '@/lib/storage'
+import { createId, randomHex } from '@/lib/ids'
 
 interface RealTimeEvent {
   id: string
@@ -26,26 +27,26 @@ export function useRealTimeUpdates() {
       const interval = setInterval(() => {
         const events: RealTimeEvent[] = [
           {
-            id: `tx_${Date.now()}`,
+            id: createId('realtimeEvent'),
             type: 'transaction',
             data: {
-              hash: `0x${Math.random().toString(16).substr(2, 64)}`,
+              hash: randomHex(32),
               status: 'completed',
               amount: Math.random() * 100
             },
             timestamp: Date.now()
           },
           {
-            id: `gov_${Date.now()}`,
+            id: createId('realtimeEvent'),
             type: 'governance',
             data: {
-              proposalId: `prop_${Math.random().toString(16).substr(2, 16)}`,
+              proposalId: createId('proposal'),
               votes: Math.floor(Math.random() * 50) + 10
             },
             timestamp: Date.now()
           },
           {
-            id: `price_${Date.now()}`,
+            id: createId('realtimeEvent'),
             type: 'price',
             data: {
               symbol: 'G$',
@@ -110,7 +111,7 @@ export function useRealTimeUpdates() {
 
   const simulateEvent = (type: RealTimeEvent['type']) => {
     const event: RealTimeEvent = {
-      id: `manual_${Date.now()}`,
+      id: createId('realtimeEvent'),
       type,
       data: { source: 'manual' },
       timestamp: Date.now()
@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getProviders, signIn } from 'next-auth/react'
+import { BrowserProvider, type Eip1193Provider } from 'ethers'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Shield, Wallet, Mail, AlertCircle } from 'lucide-react'
+import type { ApiResponse } from '@/lib/api/common'
+import type { SiweNonce } from '@/lib/api/auth'
+import { SIWE_STATEMENT, createSiweMessage } from '@/lib/auth/siwe'
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider
+  }
+}
+
+export default function SignIn() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [emailEnabled, setEmailEnabled] = useState(false)
+  const [email, setEmail] = useState('')
+  const [emailSent, setEmailSent] = useState('')
+
+  useEffect(() => {
+    // The email provider is only registered when the server has SMTP configured
+    getProviders().then(providers => setEmailEnabled(!!providers?.email))
+  }, [])
+
+  const handleWalletSignIn = async () => {
+    if (!window.ethereum) {
+      setError('No Ethereum wallet found. Install a browser wallet such as MetaMask.')
+      return
+    }
+
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const provider = new BrowserProvider(window.ethereum)
+      const signer = await provider.getSigner()
+      const { chainId } = await provider.getNetwork()
+
+      const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' })
+      const nonceResult: ApiResponse<SiweNonce> = await nonceResponse.json()
+      if (!nonceResult.success) {
+        setError(nonceResult.error)
+        return
+      }
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address: await signer.getAddress(),
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: Number(chainId),
+        nonce: nonceResult.data.nonce,
+        issuedAt: new Date().toISOString()
+      })
+      const signature = await signer.signMessage(message)
+
+      const result = await signIn('siwe', { message, signature, redirect: false })
+      if (!result?.ok) {
+        setError('Signature could not be verified. Please try again.')
+      }
+    } catch (err) {
+      setError('Wallet sign-in was cancelled or failed.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleEmailSignIn = async () => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const result: ApiResponse<{ message: string }> = await response.json()
+
+      if (result.success) {
+        setEmailSent(result.data.message)
+      } else {
+        setError(result.fields?.email?.[0] || result.error)
+      }
+    } catch (err) {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Sign in to RealFi Hub
+        </CardTitle>
+        <CardDescription>
+          Sign a message with your wallet to prove it is yours. No transaction is sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button onClick={handleWalletSignIn} disabled={isLoading} className="w-full">
+          <Wallet className="h-4 w-4 mr-2" />
+          Sign in with Ethereum
+        </Button>
+
+        {emailEnabled && (
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="sign-in-email">Or get a sign-in link by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="sign-in-email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleEmailSignIn} disabled={isLoading || !email}>
+                <Mail className="h-4 w-4 mr-2" />
+                Send
+              </Button>
+            </div>
+            {emailSent && <p className="text-sm text-muted-foreground">{emailSent}</p>}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Skeleton } from '@/components/ui/skeleton'
 import { User, Shield, Wallet, Brain, Settings, Award, TrendingUp, Calendar } from 'lucide-react'
 import { useNotifications } from '@/components/NotificationSystem'
+import { storage, STORAGE_KEYS } from '@/lib/storage'
+import { createId } from '@/lib/ids'
 
 interface UserProfile {
   id: string
@@ -29,6 +31,7 @@ interface UserProfile {
     notifications: boolean
     privacy: 'basic' | 'enhanced' | 'maximum'
     theme: 'light' | 'dark' | 'system'
+    currency: string
   }
 }
 
@@ -51,7 +54,7 @@ export default function UserProfile() {
       } else {
         // Create default profile
         const defaultProfile: UserProfile = {
-          id: `user_${Date.now()}`,
+          id: createId('user'),
           name: 'RealFi User',
           email: 'user@realfi.community',
           joinDate: new Date().toISOString(),
@@ -66,7 +69,8 @@ export default function UserProfile() {
           preferences: {
             notifications: true,
             privacy: 'maximum',
-            theme: 'system'
+            theme: 'system',
+            currency: 'USD'
           }
         }
         setProfile(defaultProfile)
@@ -91,12 +95,13 @@ export default function UserProfile() {
   const updatePreferences = (key: string, value: any) => {
     if (!profile) return
     
-    updateProfile({
-      preferences: {
-        ...profile.preferences,
-        [key]: value
-      }
-    })
+    const preferences = {
+      ...profile.preferences,
+      [key]: value
+    }
+    updateProfile({ preferences })
+    // Shared with the rest of the app, e.g. portfolio valuation in the finance dashboard
+    storage.set(STORAGE_KEYS.PREFERENCES, preferences)
   }
 
   const getVerificationColor = (level: string) => {
@@ -383,6 +388,23 @@ export default function UserProfile() {
                     <option value="system">System</option>
                   </select>
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Display Currency</p>
+                    <p className="text-sm text-muted-foreground">Currency your portfolio is valued in</p>
+                  </div>
+                  <select
+                    value={profile.preferences.currency ?? 'USD'}
+                    onChange={(e) => updatePreferences('currency', e.target.value)}
+                    className="px-3 py-1 border rounded-md text-sm"
+                  >
+                    <option value="USD">USD</option>
+                    <option value="EUR">EUR</option>
+                    <option value="G$">G$</option>
+                    <option value="cUSD">cUSD</option>
+                  </select>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import { ASSIGNABLE_ROLES } from '@/lib/auth/permissions'
+import { id } from './common'
+
+const action = <A extends string, D extends z.ZodType>(name: A, data: D) =>
+  z.object({ action: z.literal(name), data })
+
+const roleChange = z.object({
+  memberId: id,
+  role: z.enum(ASSIGNABLE_ROLES)
+})
+
+export const adminActionRequest = z.discriminatedUnion('action', [
+  action('assign-role', roleChange),
+  action('revoke-role', roleChange)
+], { error: 'Unknown action' })
+
+export type AdminActionRequest = z.output<typeof adminActionRequest>
+export type AdminAction = AdminActionRequest['action']
+
+export const adminQuery = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('get-user-roles'), memberId: id }),
+  z.object({ action: z.literal('list-role-assignments'), role: z.enum(ASSIGNABLE_ROLES).optional() })
+], { error: 'Unknown action' })
+
+export type AdminQuery = z.output<typeof adminQuery>
+
+export interface RoleAssignment {
+  memberId: string
+  role: string
+  grantedBy: string | null
+  createdAt: string
+}
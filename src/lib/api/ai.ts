@@ -0,0 +1,55 @@
+import { z } from 'zod'
+
+const action = <A extends string, D extends z.ZodType>(name: A, data: D) =>
+  z.object({ action: z.literal(name), data })
+
+// Rates are fractions between 0 and 1
+const rate = z.number().min(0).max(1)
+
+export const communityMetrics = z.object({
+  participationRate: rate,
+  ubiTrend: z.enum(['increasing', 'stable', 'decreasing']),
+  savingsRate: rate,
+  transactionGrowth: z.number()
+})
+
+export type CommunityMetrics = z.output<typeof communityMetrics>
+
+export const aiActionRequest = z.discriminatedUnion('action', [
+  action('private-ai-assistant', z.object({
+    query: z.string().trim().min(1).max(2000)
+  })),
+  action('analyze-community-data', z.object({ communityMetrics })),
+  action('generate-governance-recommendation', z.object({
+    proposal: z.string().trim().min(1).max(5000),
+    communityContext: z.record(z.string(), z.unknown()).optional()
+  }))
+], { error: 'Unknown action' })
+
+export type AIActionRequest = z.output<typeof aiActionRequest>
+
+export const aiQuery = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('get-conversation-history') }),
+  z.object({ action: z.literal('get-ai-capabilities') })
+], { error: 'Unknown action' })
+
+export type AIQuery = z.output<typeof aiQuery>
+
+export interface AIActionResults {
+  'private-ai-assistant': {
+    response: string
+    conversationId: string
+    category: string
+    privacyNote: string
+  }
+  'analyze-community-data': {
+    insights: string[]
+    privacyGuarantee: string
+    timestamp: string
+  }
+  'generate-governance-recommendation': {
+    recommendation: string
+    analysisFactors: string[]
+    confidence: number
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod'
+
+export const email = z.string().trim().toLowerCase().pipe(z.email('Invalid email address'))
+
+// Credentials posted to next-auth by signIn('siwe', ...)
+export const siweCredentials = z.object({
+  message: z.string().min(1).max(2000),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'Invalid signature')
+})
+
+// Credentials posted to next-auth by signIn('email', ...) from the emailed link
+export const emailCredentials = z.object({
+  email,
+  token: z.string().trim().min(1)
+})
+
+// /api/auth/email
+export const emailSignInRequest = z.object({ email })
+
+export interface SiweNonce {
+  nonce: string
+}
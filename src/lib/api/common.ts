@@ -0,0 +1,35 @@
+import { z } from 'zod'
+
+// Request schemas and response types shared by the API routes and the client components.
+// Nothing in src/lib/api may import server-only modules.
+
+export interface ApiSuccess<T> {
+  success: true
+  data: T
+}
+
+export interface ApiFailure {
+  success: false
+  error: string
+  // Validation messages keyed by dotted field path, e.g. "data.amount"
+  fields?: Record<string, string[]>
+  [detail: string]: unknown
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure
+
+export const amount = z.number().positive('Must be positive')
+export const currency = z.string().trim().min(1)
+export const id = z.string().trim().min(1)
+
+// Actions that take no payload
+export const noData = z.object({}).optional()
+
+export function fieldErrors(error: z.ZodError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || 'request'
+    fields[key] = [...(fields[key] ?? []), issue.message]
+  }
+  return fields
+}
@@ -0,0 +1,328 @@
+import { z } from 'zod'
+import { amount, currency, id, noData } from './common'
+
+// Charges whose rate treasurers can change, see set-fee-rate
+export const FEE_KINDS = ['payment', 'swap'] as const
+
+export type FeeKind = typeof FEE_KINDS[number]
+
+const action = <A extends string, D extends z.ZodType>(name: A, data: D) =>
+  z.object({ action: z.literal(name), data })
+
+const limitValue = z.number().nonnegative().nullable().optional()
+// Counts are whole numbers, as in the Int column they are stored in
+const countLimit = z.number().int().nonnegative().nullable().optional()
+
+export const financeActionRequest = z.discriminatedUnion('action', [
+  action('connect-human-wallet', noData),
+  action('claim-ubi', noData),
+  action('send-payment', z.object({
+    recipient: z.string().trim().min(1),
+    amount,
+    currency: currency.default('G$'),
+    expiresInHours: z.number().positive().optional()
+  })),
+  action('deposit-savings', z.object({
+    depositAmount: amount,
+    termDays: z.number().int().positive().optional(),
+    earlyWithdrawalPenalty: z.number().min(0).max(100).optional()
+  })),
+  action('withdraw-savings', z.object({
+    positionId: id,
+    amount: amount.optional()
+  })),
+  action('set-savings-rate', z.object({
+    rate: z.number().nonnegative(),
+    effectiveFrom: z.coerce.date().optional()
+  })),
+  action('set-fee-rate', z.object({
+    kind: z.enum(FEE_KINDS),
+    rate: z.number().min(0).max(100),
+    effectiveFrom: z.coerce.date().optional()
+  })),
+  action('create-standing-order', z.object({
+    recipient: z.string().trim().min(1),
+    amount,
+    currency: currency.optional(),
+    schedule: z.string().trim().min(1),
+    startAt: z.string().optional(),
+    endDate: z.string().optional(),
+    maxRuns: z.number().int().positive().optional()
+  })),
+  action('pause-standing-order', z.object({ orderId: id })),
+  action('resume-standing-order', z.object({ orderId: id })),
+  action('cancel-standing-order', z.object({ orderId: id })),
+  action('create-circle', z.object({
+    name: z.string().trim().min(1),
+    contributionAmount: amount,
+    currency: currency.optional(),
+    schedule: z.string().trim().min(1),
+    payoutOrder: z.enum(['fixed', 'random', 'bid']),
+    maxMembers: z.number().int().min(2).optional(),
+    latePenalty: z.number().nonnegative().optional(),
+    gracePeriodHours: z.number().nonnegative().optional(),
+    maxMissed: z.number().int().positive().optional()
+  })),
+  action('join-circle', z.object({ circleId: id })),
+  action('start-circle', z.object({ circleId: id })),
+  action('contribute-to-circle', z.object({ circleId: id })),
+  action('place-circle-bid', z.object({ circleId: id, amount })),
+  action('request-loan', z.object({
+    amount,
+    termMonths: z.number().int().positive(),
+    purpose: z.string().trim().max(500).optional()
+  })),
+  action('repay-loan', z.object({
+    loanId: id,
+    amount: amount.optional()
+  })),
+  action('fund-loan-pool', z.object({
+    amount,
+    currency: currency.optional()
+  })),
+  // Deposit into the community treasury that pays out proposal budgets
+  action('fund-treasury', z.object({
+    amount,
+    currency: currency.optional()
+  })),
+  action('set-spending-limits', z.object({
+    memberId: z.string().trim().min(1).optional(),
+    currency: currency.optional(),
+    perTransactionLimit: limitValue,
+    dailyLimit: limitValue,
+    weeklyLimit: limitValue,
+    newRecipientsPerDay: countLimit,
+    connectCooldownHours: limitValue
+  })),
+  action('enable-merchant', z.object({
+    merchantName: z.string().trim().min(1).max(100)
+  })),
+  action('create-invoice', z.object({
+    amount,
+    currency: currency.optional(),
+    memo: z.string().trim().max(140).optional(),
+    expiresInMinutes: z.number().positive().optional()
+  })),
+  action('pay-invoice', z.object({ payload: z.string().trim().min(1) })),
+  action('cancel-invoice', z.object({ invoiceId: id })),
+  action('swap', z.object({
+    fromCurrency: currency,
+    toCurrency: currency,
+    amount,
+    quotedRate: z.number().positive().optional(),
+    maxSlippage: z.number().nonnegative().optional()
+  }))
+], { error: 'Unknown action' })
+
+export type FinanceActionRequest = z.output<typeof financeActionRequest>
+export type FinanceAction = FinanceActionRequest['action']
+// What the client sends for each action, before defaults are applied
+type FinanceActionInputs = {
+  [R in z.input<typeof financeActionRequest> as R['action']]: R['data']
+}
+export type FinanceActionData<A extends FinanceAction> = FinanceActionInputs[A]
+
+// Query parameters left blank by a form mean "no filter"
+const optionalParam = <S extends z.ZodType>(schema: S) =>
+  z.preprocess(value => value === '' ? undefined : value, schema.optional())
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+const filterDate = z.string().trim().refine(value => !isNaN(Date.parse(value)), 'Invalid date')
+
+// Transaction history filters shared by get-transactions and /api/finance/export
+export const transactionFilterQuery = {
+  // Comma separated transaction types
+  type: optionalParam(z.string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .transform(types => types.length ? types : undefined)),
+  currency: optionalParam(currency),
+  from: optionalParam(filterDate.transform(value => new Date(value))),
+  // A date-only `to` covers that whole UTC day, up to its last millisecond
+  to: optionalParam(filterDate.transform(value =>
+    new Date(Date.parse(value) + (DATE_ONLY.test(value) ? DAY_MS - 1 : 0)))),
+  minAmount: optionalParam(z.coerce.number()),
+  maxAmount: optionalParam(z.coerce.number())
+}
+
+const query = <A extends string, S extends z.ZodRawShape>(name: A, shape: S) =>
+  z.object({ action: z.literal(name), ...shape })
+
+export const financeQuery = z.discriminatedUnion('action', [
+  query('get-balance', { currency: currency.default('USD') }),
+  query('get-savings', {}),
+  query('get-transactions', {
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().optional(),
+    ...transactionFilterQuery
+  }),
+  query('get-loans', {}),
+  query('get-loan-pool', { currency: currency.default('G$') }),
+  query('get-treasury', { currency: currency.default('G$') }),
+  query('get-circles', {}),
+  query('get-spending-limits', { currency: currency.default('G$') }),
+  query('get-standing-orders', {}),
+  query('get-invoice', { payload: z.string().trim().min(1) }),
+  query('get-invoices', { status: z.enum(['open', 'paid', 'expired', 'cancelled']).optional() }),
+  // One UTC day, today unless a date (YYYY-MM-DD) is given
+  query('get-settlement-report', { date: z.coerce.date().default(() => new Date()) }),
+  query('get-trial-balance', {}),
+  query('get-market-rates', {}),
+  query('get-swap-quote', { from: currency, to: currency, amount: z.coerce.number().positive() })
+], { error: 'Unknown action' })
+
+export type FinanceQuery = z.output<typeof financeQuery>
+
+// /api/finance/export, which accepts the same filters as get-transactions
+export const financeExportQuery = z.object({
+  format: z.enum(['csv', 'ofx']).default('csv'),
+  ...transactionFilterQuery
+})
+
+// /api/finance/links/[code]
+export const paymentLinkActionRequest = z.object({
+  action: z.enum(['claim', 'reclaim'])
+})
+
+export interface Balance {
+  gBalance: number
+  balances: Record<string, number>
+  savings: number
+  gUSDValue: number
+  savingsUSDValue: number
+  projectedAnnualReturn: number
+  portfolioValue: number
+  valuationCurrency: string
+  walletAddress?: string
+  lastClaim?: string
+  accruedInterest?: number
+  nextClaimAt?: string | null
+  claimStreak?: number
+}
+
+export interface Transaction {
+  id: string
+  type: string
+  amount: number
+  currency: string
+  timestamp: string
+  status: string
+  recipient?: string
+  fee?: number
+  paymentLink?: string
+  counterAmount?: number
+  counterCurrency?: string
+}
+
+export interface SavingsCircle {
+  id: string
+  name: string
+  contributionAmount: number
+  currency: string
+  schedule: string
+  payoutOrder: 'fixed' | 'random' | 'bid'
+  latePenalty: number
+  status: string
+  isCreator: boolean
+  pot: number
+  me: {
+    position: number | null
+    status: string
+    arrears: number
+    payoutRound: number | null
+    contributedThisRound: boolean
+  }
+  members: { userId: string, position: number | null, status: string, payoutRound: number | null }[]
+  round: { number: number, dueAt: string, contributions: number, highestBid: number } | null
+}
+
+export interface Loan {
+  id: string
+  principal: number
+  currency: string
+  interestRate: number
+  termMonths: number
+  purpose: string | null
+  status: string
+  proposalId: string | null
+  outstanding: number
+  nextInstallment: { number: number, dueDate: string, amount: number } | null
+  installments: { number: number, status: string }[]
+}
+
+export interface LoanPool {
+  available: number
+  yourDeposits: number
+  activeLoans: number
+  outstandingPrincipal: number
+  overdueAmount: number
+  defaultedPrincipal: number
+  utilization: number
+}
+
+export interface Treasury {
+  currency: string
+  available: number
+  // Set aside for milestone tranches of executed proposals
+  reserved: number
+  totalDeposited: number
+  totalDisbursed: number
+}
+
+export interface StandingOrder {
+  id: string
+  recipient: string
+  amount: number
+  currency: string
+  schedule: string
+  status: string
+  runCount: number
+  maxRuns: number | null
+  retryAt: string | null
+  lastError: string | null
+  upcomingRuns: string[]
+}
+
+export interface Invoice {
+  id: string
+  amount: number
+  currency: string
+  memo: string | null
+  status: string
+  expiresAt: string
+  paidAt: string | null
+  createdAt: string
+  payload?: string | null
+}
+
+export interface SettlementReport {
+  merchantName: string
+  date: string
+  totals: Record<string, { count: number, gross: number }>
+  invoicesCreated: Record<string, number>
+  invoices: Invoice[]
+}
+
+// Response data for the queries the dashboard reads
+export interface FinanceQueryResults {
+  'get-balance': Balance
+  'get-transactions': { transactions: Transaction[], nextCursor: string | null, totalCount: number }
+  'get-standing-orders': { orders: StandingOrder[], totalCount: number }
+  'get-circles': { circles: SavingsCircle[] }
+  'get-loans': { loans: Loan[] }
+  'get-loan-pool': LoanPool
+  'get-treasury': Treasury
+  'get-invoices': { invoices: Invoice[], totalCount: number }
+  'get-settlement-report': SettlementReport
+}
+
+// Response data for actions whose result the dashboard reads; the rest return a message
+export interface FinanceActionResults {
+  'connect-human-wallet': { walletAddress: string, network: string, connectedAt: string, features: string[] }
+  'enable-merchant': { merchantName: string, message: string }
+  'create-invoice': { invoice: Invoice, payload: string, qrCode: string, message: string }
+}
+
+export type FinanceActionResult<A extends FinanceAction> =
+  A extends keyof FinanceActionResults ? FinanceActionResults[A] : { message: string }
@@ -0,0 +1,632 @@
+import { z } from 'zod'
+import { amount, id } from './common'
+
+export const PROPOSAL_CATEGORIES = ['infrastructure', 'finance', 'governance', 'community', 'education'] as const
+export const VOTE_TYPES = ['for', 'against', 'abstain'] as const
+
+export type ProposalCategory = typeof PROPOSAL_CATEGORIES[number]
+// A delegation covers one proposal category, or every category
+export type DelegationScope = ProposalCategory | 'all'
+
+export type VoteType = typeof VOTE_TYPES[number]
+
+export const VOTING_METHODS = ['one-person-one-vote', 'quadratic', 'reputation', 'token'] as const
+
+export type VotingMethod = typeof VOTING_METHODS[number]
+
+// How members answer a proposal: yes/no (binary) or a choice between its options
+export const BALLOT_TYPES = ['binary', 'plurality', 'ranked-choice', 'approval', 'score'] as const
+
+export type BallotType = typeof BALLOT_TYPES[number]
+export type OptionBallotType = Exclude<BallotType, 'binary'>
+
+// Executed budgets are paid at once, or in tranches released as milestones are delivered
+export const PAYOUT_MODES = ['lump-sum', 'milestones'] as const
+
+export type PayoutMode = typeof PAYOUT_MODES[number]
+
+// What an amendment during voting does to the votes already cast. Either way they
+// stop counting and are kept on record; reset also restarts the voting period.
+export const AMENDMENT_POLICIES = ['reset', 'invalidate'] as const
+
+export type AmendmentPolicy = typeof AMENDMENT_POLICIES[number]
+
+export const DISBURSEMENT_STATUSES = ['pending', 'paid', 'cancelled'] as const
+
+export type DisbursementStatus = typeof DISBURSEMENT_STATUSES[number]
+
+// open: raising until the target or deadline. funded: target met, milestones being released.
+// completed: every milestone released. refunded: missed the deadline. cancelled: withdrawn and refunded.
+export const GOAL_STATUSES = ['open', 'funded', 'completed', 'refunded', 'cancelled'] as const
+
+export type GoalStatus = typeof GOAL_STATUSES[number]
+
+export const MILESTONE_STATUSES = ['pending', 'submitted', 'released'] as const
+
+export type MilestoneStatus = typeof MILESTONE_STATUSES[number]
+
+// Reactions members can leave on a discussion comment
+export const COMMENT_REACTIONS = ['agree', 'disagree', 'insightful', 'question', 'celebrate'] as const
+
+export type CommentReaction = typeof COMMENT_REACTIONS[number]
+
+export const MODERATION_DECISIONS = ['hide', 'unhide', 'lock', 'unlock', 'dismiss-flags'] as const
+
+export type ModerationDecision = typeof MODERATION_DECISIONS[number]
+
+// Shown next to comment authors, from their Human Passport reputation score
+export const REPUTATION_BADGES = ['unverified', 'verified', 'trusted', 'pillar'] as const
+
+export type ReputationBadge = typeof REPUTATION_BADGES[number]
+
+export const MAX_COMMENT_LENGTH = 10000
+// Replies nest at most this deep below a top-level comment
+export const MAX_COMMENT_DEPTH = 5
+export const MAX_GOAL_MILESTONES = 10
+export const MAX_PROPOSAL_OPTIONS = 10
+export const MAX_DISBURSEMENTS = 20
+// Score voting rates every option from 0 to SCORE_MAX
+export const SCORE_MAX = 5
+
+export const PROPOSAL_STATUSES = [
+  'draft',
+  'discussion',
+  'voting',
+  'passed',
+  'rejected',
+  'expired',
+  'queued',
+  'executed',
+  'cancelled'
+] as const
+
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number]
+
+const action = <A extends string, D extends z.ZodType>(name: A, data: D) =>
+  z.object({ action: z.literal(name), data })
+
+const versionHash = z.string().trim().min(1).optional()
+
+const commentBody = z.string().trim().min(1).max(MAX_COMMENT_LENGTH)
+
+const proposalOption = z.object({
+  label: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).optional()
+})
+
+const disbursement = z.object({
+  recipientId: id,
+  amount,
+  milestone: z.string().trim().min(1).max(500).optional()
+})
+
+// A ballot on a multi-option proposal; its type must match the proposal's ballot type
+export const ballot = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('plurality'), optionId: id }),
+  // Most preferred first; options left out are not ranked
+  z.object({ type: z.literal('ranked-choice'), ranking: z.array(id).min(1).max(MAX_PROPOSAL_OPTIONS) }),
+  z.object({ type: z.literal('approval'), approved: z.array(id).min(1).max(MAX_PROPOSAL_OPTIONS) }),
+  // Options left out score 0
+  z.object({ type: z.literal('score'), scores: z.record(id, z.number().int().min(0).max(SCORE_MAX)) })
+])
+
+export type Ballot = z.output<typeof ballot>
+
+export const governanceActionRequest = z.discriminatedUnion('action', [
+  action('create-proposal', z.object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().min(1).max(5000),
+    category: z.enum(PROPOSAL_CATEGORIES),
+    budget: z.number().nonnegative().optional(),
+    votingMethod: z.enum(VOTING_METHODS).default('one-person-one-vote'),
+    ballotType: z.enum(BALLOT_TYPES).default('binary'),
+    options: z.array(proposalOption).max(MAX_PROPOSAL_OPTIONS).optional(),
+    // Who the budget is paid to once the proposal is executed; the amounts add up to the budget
+    payoutMode: z.enum(PAYOUT_MODES).default('lump-sum'),
+    disbursements: z.array(disbursement).max(MAX_DISBURSEMENTS).optional(),
+    // Drafts stay private to the author until submitted for discussion
+    draft: z.boolean().optional()
+  }).refine(
+    data => data.ballotType === 'binary' ? !data.options?.length : (data.options?.length ?? 0) >= 2,
+    { message: 'Multi-option proposals need at least two options; yes/no proposals take none', path: ['options'] }
+  ).refine(
+    // Executing a multi-option proposal enacts its winning option, which has no budget to pay out
+    data => data.ballotType === 'binary' || (!data.budget && !data.disbursements?.length),
+    { message: 'Only yes/no proposals can carry a budget', path: ['budget'] }
+  ).refine(
+    data => data.payoutMode === 'lump-sum' || (data.disbursements ?? []).every(tranche => tranche.milestone),
+    { message: 'Every milestone tranche needs a milestone', path: ['disbursements'] }
+  )),
+  action('submit-proposal', z.object({ proposalId: id })),
+  action('open-voting', z.object({ proposalId: id })),
+  // The author rewords their proposal; amendments during voting supersede earlier votes
+  action('amend-proposal', z.object({
+    proposalId: id,
+    title: z.string().trim().min(1).max(200).optional(),
+    description: z.string().trim().min(1).max(5000).optional(),
+    summary: z.string().trim().min(1).max(1000)
+  }).refine(data => data.title !== undefined || data.description !== undefined, {
+    message: 'Change the title or the description',
+    path: ['description']
+  })),
+  action('vote', z.object({
+    proposalId: id,
+    voteType: z.enum(VOTE_TYPES),
+    // Quadratic voting only: credits to spend, for a weight of their square root
+    credits: z.number().int().positive().optional(),
+    reason: z.string().trim().max(1000).optional(),
+    // Content hash of the version the member read; refused if the proposal was amended since
+    versionHash
+  })),
+  action('cast-ballot', z.object({
+    proposalId: id,
+    ballot,
+    credits: z.number().int().positive().optional(),
+    reason: z.string().trim().max(1000).optional(),
+    versionHash
+  })),
+  // Without a category, delegates voting power on every category not delegated separately
+  action('delegate', z.object({
+    delegateId: id,
+    category: z.enum(PROPOSAL_CATEGORIES).optional()
+  })),
+  action('revoke-delegation', z.object({
+    category: z.enum(PROPOSAL_CATEGORIES).optional()
+  })),
+  // Markdown comment on a proposal in discussion or voting, optionally replying to another
+  action('post-comment', z.object({
+    proposalId: id,
+    body: commentBody,
+    parentId: id.optional()
+  })),
+  action('edit-comment', z.object({
+    commentId: id,
+    body: commentBody
+  })),
+  // Toggles the member's reaction on or off
+  action('react-to-comment', z.object({
+    commentId: id,
+    reaction: z.enum(COMMENT_REACTIONS)
+  })),
+  action('flag-comment', z.object({
+    commentId: id,
+    reason: z.string().trim().min(1).max(1000)
+  })),
+  action('moderate-comment', z.object({
+    commentId: id,
+    decision: z.enum(MODERATION_DECISIONS),
+    note: z.string().trim().max(1000).optional()
+  })),
+  // Close or reopen a proposal's whole discussion
+  action('lock-discussion', z.object({
+    proposalId: id,
+    locked: z.boolean()
+  })),
+  // Milestone amounts add up to the target; each is released to the owner on approved evidence
+  action('create-goal', z.object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().min(1).max(5000),
+    category: z.enum(PROPOSAL_CATEGORIES),
+    targetAmount: amount,
+    deadline: z.coerce.date(),
+    milestones: z.array(z.object({
+      title: z.string().trim().min(1).max(200),
+      amount
+    })).min(1).max(MAX_GOAL_MILESTONES)
+  })),
+  action('contribute-to-goal', z.object({
+    goalId: id,
+    amount,
+    // Anonymous contributions count toward the goal but never show who made them
+    anonymous: z.boolean().optional()
+  })),
+  action('cancel-goal', z.object({
+    goalId: id,
+    reason: z.string().trim().max(1000).optional()
+  })),
+  action('submit-goal-evidence', z.object({
+    milestoneId: id,
+    evidence: z.string().trim().min(1).max(5000),
+    evidenceUrl: z.url().max(2000).optional()
+  })),
+  action('review-goal-milestone', z.object({
+    milestoneId: id,
+    approve: z.boolean(),
+    note: z.string().trim().max(1000).optional()
+  })),
+  action('queue-proposal', z.object({ proposalId: id })),
+  action('execute-proposal', z.object({ proposalId: id })),
+  // Stop a queued proposal during its timelock
+  action('veto-proposal', z.object({
+    proposalId: id,
+    reason: z.string().trim().max(1000).optional()
+  })),
+  action('release-tranche', z.object({ disbursementId: id })),
+  action('cancel-tranche', z.object({
+    disbursementId: id,
+    reason: z.string().trim().max(1000).optional()
+  })),
+  action('cancel-proposal', z.object({
+    proposalId: id,
+    reason: z.string().trim().max(1000).optional()
+  }))
+], { error: 'Unknown action' })
+
+export type GovernanceActionRequest = z.output<typeof governanceActionRequest>
+
+const query = <A extends string, S extends z.ZodRawShape>(name: A, shape: S) =>
+  z.object({ action: z.literal(name), ...shape })
+
+export const governanceQuery = z.discriminatedUnion('action', [
+  query('get-proposals', { status: z.enum(PROPOSAL_STATUSES).optional() }),
+  // Includes the signed-in member's vote, if any
+  query('get-proposal', { id }),
+  query('get-community-goals', { status: z.enum(GOAL_STATUSES).optional() }),
+  query('get-goal', { id }),
+  // The signed-in member's own contributions, anonymous ones included
+  query('get-my-contributions', {}),
+  query('get-user-votes', {}),
+  // Delegations the signed-in member has given and received
+  query('get-delegations', {}),
+  query('get-proposal-versions', { proposalId: id }),
+  // Word-by-word changes between two versions of a proposal
+  query('get-proposal-diff', {
+    proposalId: id,
+    from: z.coerce.number().int().positive(),
+    to: z.coerce.number().int().positive()
+  }),
+  // Comments and the reasons voters gave, for anyone to read
+  query('get-discussion', { proposalId: id }),
+  // Earlier versions of an edited comment
+  query('get-comment-history', { commentId: id }),
+  // Moderation queue: comments with unresolved flags
+  query('get-flagged-comments', {}),
+  query('get-governance-stats', {})
+], { error: 'Unknown action' })
+
+export type GovernanceQuery = z.output<typeof governanceQuery>
+
+// Vote totals are weights in the proposal's voting method. Quorum counts voters,
+// except for token voting where it is a share of the G$ supply snapshot.
+export interface Tally {
+  ballotType: 'binary'
+  method: VotingMethod
+  for: number
+  against: number
+  abstain: number
+  total: number
+  voters: number
+  // The part of each total cast through delegation, and how many members it came from
+  delegated: { for: number, against: number, abstain: number }
+  delegatedVoters: number
+  quorumBasis: 'voters' | 'weight'
+  quorum: number
+  quorumReached: boolean
+}
+
+// One counting round on a multi-option proposal. Counts are per option id: vote weight,
+// or weighted score totals for score voting. Only instant-runoff has more than one round.
+export interface OptionRound {
+  round: number
+  counts: Record<string, number>
+  eliminated: string[]
+  // The part of each count that came from delegated power
+  delegated: Record<string, number>
+  // Weight of ranked ballots with no option left in the running
+  exhausted: number
+}
+
+export interface OptionTally {
+  ballotType: OptionBallotType
+  method: VotingMethod
+  // Weight of all ballots cast, directly or through delegation
+  total: number
+  voters: number
+  delegatedWeight: number
+  delegatedVoters: number
+  quorumBasis: 'voters' | 'weight'
+  quorum: number
+  quorumReached: boolean
+  rounds: OptionRound[]
+  // Null while nobody has voted or when the leaders tie
+  winner: string | null
+}
+
+export type ProposalTally = Tally | OptionTally
+
+// What the signed-in member could cast on a proposal right now
+export interface VotingPower {
+  eligible: boolean
+  reason?: string
+  // Weight of a vote; for quadratic voting the most the remaining credits can buy
+  weight: number
+  credits?: { budget: number, spent: number, remaining: number, epochEndsAt: string }
+}
+
+export interface ProposalOption {
+  id: string
+  label: string
+  description: string | null
+}
+
+export interface GoalMilestone {
+  id: string
+  title: string
+  amount: number
+  status: MilestoneStatus
+  evidence: string | null
+  evidenceUrl: string | null
+  reviewNote: string | null
+  submittedAt: string | null
+  releasedAt: string | null
+}
+
+export interface CommunityGoal {
+  id: string
+  title: string
+  description: string
+  category: string
+  ownerId: string
+  currency: string
+  targetAmount: number
+  raisedAmount: number
+  releasedAmount: number
+  // Unique named contributors, plus one per anonymous contribution
+  contributorCount: number
+  percentageFunded: number
+  deadline: string
+  daysRemaining: number
+  status: GoalStatus
+  milestones: GoalMilestone[]
+  fundedAt: string | null
+  // Once funded, milestones not released by then are refunded to contributors
+  deliverBy: string | null
+  closedAt: string | null
+  createdAt: string
+}
+
+// A contribution as anyone can see it; anonymous ones carry no contributor
+export interface PublicContribution {
+  contributorId: string | null
+  amount: number
+  at: string
+}
+
+// A contribution as its contributor sees it
+export interface Contribution {
+  id: string
+  goalId: string
+  amount: number
+  anonymous: boolean
+  status: 'held' | 'refunded'
+  transactionId: string
+  refundTransactionId: string | null
+  at: string
+}
+
+export interface Disbursement {
+  id: string
+  recipientId: string
+  amount: number
+  milestone: string | null
+  status: DisbursementStatus
+  // The recipient's treasury_disbursement transaction once paid
+  transactionId: string | null
+  releasedBy: string | null
+  paidAt: string | null
+  cancelledAt: string | null
+}
+
+export interface Proposal {
+  id: string
+  title: string
+  description: string
+  category: string
+  author: string
+  status: ProposalStatus
+  budget: number
+  payoutMode: PayoutMode
+  disbursements: Disbursement[]
+  loanId: string | null
+  votingMethod: VotingMethod
+  ballotType: BallotType
+  options: ProposalOption[]
+  version: number
+  contentHash: string | null
+  winningOptionId: string | null
+  votes: { for: number, against: number, abstain: number }
+  voterCount: number
+  snapshotSupply: number | null
+  quorum: number
+  quorumReached: boolean | null
+  discussionStartsAt: string | null
+  discussionEndsAt: string | null
+  discussionLocked: boolean
+  votingStartsAt: string | null
+  votingDeadline: string | null
+  closedAt: string | null
+  queuedAt: string | null
+  executableAt: string | null
+  executedAt: string | null
+  cancelledAt: string | null
+  createdAt: string
+}
+
+export interface Vote {
+  proposalId: string
+  userId: string
+  voteType: VoteType | null
+  ballot: Ballot | null
+  weight: number
+  credits: number | null
+  reason: string
+  // The proposal version the vote was cast on
+  versionHash: string | null
+  timestamp: string
+}
+
+// A vote that stopped counting when the proposal was materially amended
+export interface SupersededVote {
+  voteType: VoteType | null
+  ballot: Ballot | null
+  weight: number
+  versionHash: string | null
+  castAt: string
+  supersededAt: string
+  byVersion: number
+}
+
+export interface ProposalVersion {
+  version: number
+  title: string
+  description: string
+  contentHash: string
+  summary: string | null
+  material: boolean
+  authorId: string
+  createdAt: string
+}
+
+export interface DiffPart {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface VersionDiff {
+  from: ProposalVersion
+  to: ProposalVersion
+  title: DiffPart[]
+  description: DiffPart[]
+}
+
+// Payload of the proposal:amended socket event
+export interface ProposalAmendment {
+  proposalId: string
+  version: number
+  contentHash: string
+  material: boolean
+  // Set when the amendment came during voting and affected the votes cast so far
+  policy: AmendmentPolicy | null
+  supersededVotes: number
+}
+
+// Payload of the proposal:transition socket event, also returned by get-proposal
+export interface ProposalTransition {
+  proposalId: string
+  from: ProposalStatus | null
+  to: ProposalStatus
+  actor: string | null
+  data: Record<string, unknown> | null
+  at: string
+}
+
+export interface Delegation {
+  delegatorId: string
+  delegateId: string
+  scope: DelegationScope
+  createdAt: string
+}
+
+// A delegation given by the signed-in member, and who it currently leads to
+export interface GivenDelegation extends Delegation {
+  // Every member the power passes through, ending with the last one in the chain
+  chain: string[]
+}
+
+// Who carries the signed-in member's vote on a proposal they have not voted on directly
+export interface Representation {
+  chain: string[]
+  // The first member in the chain who has voted, or null while nobody has
+  voterId: string | null
+}
+
+export interface ProposalDetail {
+  proposal: Proposal
+  userVote?: Vote
+  // The member's earlier vote, if an amendment superseded it and they have not voted again
+  supersededVote?: SupersededVote
+  representedBy?: Representation
+  canVote: boolean
+  votingPower?: VotingPower
+  votingEnds: string | null
+  tally: ProposalTally
+  history: ProposalTransition[]
+}
+
+export interface CommentAuthor {
+  id: string
+  name: string | null
+  badge: ReputationBadge
+  reputation: number | null
+  moderator: boolean
+}
+
+export interface ProposalComment {
+  id: string
+  proposalId: string
+  parentId: string | null
+  depth: number
+  author: CommentAuthor
+  // null while a moderator has the comment hidden
+  body: string | null
+  hidden: boolean
+  locked: boolean
+  reactions: Record<CommentReaction, number>
+  // The signed-in member's own reactions
+  myReactions: CommentReaction[]
+  editedAt: string | null
+  moderationNote: string | null
+  createdAt: string
+}
+
+export interface CommentRevision {
+  body: string
+  replacedAt: string
+}
+
+// A comment in the moderation queue, hidden body included
+export interface FlaggedComment {
+  comment: ProposalComment
+  body: string
+  flags: { userId: string, reason: string, at: string }[]
+}
+
+// Voters are left out so that giving a reason does not reveal who cast which vote
+export interface VoteReason {
+  voteType: VoteType | null
+  reason: string
+  at: string
+}
+
+export interface ProposalDiscussion {
+  proposalId: string
+  // Whether new comments, edits and reactions are accepted right now
+  open: boolean
+  locked: boolean
+  discussionEndsAt: string | null
+  // The signed-in member, and whether they can use the moderator tools
+  viewerId: string | null
+  canModerate: boolean
+  comments: ProposalComment[]
+  voteReasons: VoteReason[]
+}
+
+// Payload of the proposal:comment socket event
+export interface CommentEvent {
+  kind: 'posted' | 'edited' | 'moderated'
+  comment: ProposalComment
+}
+
+export interface GovernanceQueryResults {
+  'get-proposals': { proposals: Proposal[], totalCount: number }
+  'get-proposal': ProposalDetail
+  'get-delegations': { given: GivenDelegation[], received: Delegation[] }
+  'get-community-goals': { goals: CommunityGoal[], totalRaised: number, totalTarget: number }
+  'get-goal': { goal: CommunityGoal, contributions: PublicContribution[] }
+  'get-my-contributions': { contributions: Contribution[], totalContributed: number }
+  'get-proposal-versions': { versions: ProposalVersion[] }
+  'get-proposal-diff': VersionDiff
+  'get-discussion': ProposalDiscussion
+  'get-comment-history': { comment: ProposalComment, revisions: CommentRevision[] }
+  'get-flagged-comments': { comments: FlaggedComment[] }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+import { id } from './common'
+
+const action = <A extends string, D extends z.ZodType>(name: A, data: D) =>
+  z.object({ action: z.literal(name), data })
+
+export const identityActionRequest = z.discriminatedUnion('action', [
+  // Evidence checked by Human Protocol; one kind on its own is not enough to pass
+  action('verify-human-passport', z.object({
+    timestamp: z.string().optional(),
+    userAgent: z.string().max(500).optional(),
+    biometric: z.string().max(10_000).optional(),
+    behavioral: z.record(z.string(), z.unknown()).optional(),
+    social: z.record(z.string(), z.unknown()).optional(),
+    wallet: z.string().trim().min(1).optional()
+  })),
+  // Free-form private data, stored encrypted
+  action('store-private-data', z.record(z.string(), z.unknown())),
+  action('generate-did', z.object({
+    services: z.array(z.enum(['identity', 'finance', 'governance'])).optional()
+  }).optional())
+], { error: 'Unknown action' })
+
+export type IdentityActionRequest = z.output<typeof identityActionRequest>
+export type IdentityAction = IdentityActionRequest['action']
+
+export const identityQuery = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('get-identity'), id }),
+  z.object({ action: z.literal('list-stored-data') })
+], { error: 'Unknown action' })
+
+export type IdentityQuery = z.output<typeof identityQuery>
+
+export interface IdentityActionResults {
+  'verify-human-passport': {
+    success: boolean
+    passportId: string
+    verifiedAt: string
+    uniquenessScore: number
+    sybilResistance: boolean
+  }
+  'store-private-data': { storageId: string, message: string }
+  'generate-did': { did: string, publicKey: string }
+}
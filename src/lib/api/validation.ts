@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+import { fieldErrors, type ApiFailure } from './common'
+
+export type Parsed<T> =
+  | { success: true, data: T }
+  | { success: false, response: NextResponse<ApiFailure> }
+
+function invalidRequest(error: z.ZodError): NextResponse<ApiFailure> {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid request',
+    fields: fieldErrors(error)
+  }, { status: 400 })
+}
+
+export function parseBody<S extends z.ZodType>(schema: S, body: unknown): Parsed<z.output<S>> {
+  const result = schema.safeParse(body)
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: invalidRequest(result.error) }
+}
+
+// A body that is not JSON is invalid input like any other, not a server error
+export async function readJsonBody(request: Request): Promise<Parsed<unknown>> {
+  try {
+    return { success: true, data: await request.json() }
+  } catch {
+    return {
+      success: false,
+      response: NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        fields: { request: ['Request body must be valid JSON'] }
+      }, { status: 400 })
+    }
+  }
+}
+
+export async function parseJsonBody<S extends z.ZodType>(schema: S, request: Request): Promise<Parsed<z.output<S>>> {
+  const body = await readJsonBody(request)
+  return body.success ? parseBody(schema, body.data) : body
+}
+
+// Query strings arrive as strings; schemas coerce the numeric fields they need
+export function parseQuery<S extends z.ZodType>(schema: S, searchParams: URLSearchParams): Parsed<z.output<S>> {
+  return parseBody(schema, Object.fromEntries(searchParams))
+}
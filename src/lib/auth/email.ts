@@ -0,0 +1,63 @@
+import CryptoJS from 'crypto-js'
+import nodemailer from 'nodemailer'
+import { db } from '@/lib/db'
+import { randomToken } from '@/lib/ids'
+
+// Magic-link sign-in is optional and only offered when an SMTP server is configured
+const EMAIL_SERVER = process.env.EMAIL_SERVER
+const EMAIL_FROM = process.env.EMAIL_FROM
+
+export const EMAIL_LINK_TTL_MINUTES = Number(process.env.EMAIL_LINK_TTL_MINUTES) || 15
+
+export function isEmailSignInEnabled(): boolean {
+  return !!EMAIL_SERVER && !!EMAIL_FROM
+}
+
+function hashToken(token: string): string {
+  return CryptoJS.SHA256(token).toString()
+}
+
+// Emails a single-use sign-in link pointing at /auth/email on baseUrl
+export async function sendSignInLink(email: string, baseUrl: string): Promise<void> {
+  if (!EMAIL_SERVER || !EMAIL_FROM) {
+    throw new Error('Email sign-in is not configured')
+  }
+
+  const now = new Date()
+  await db.emailSignInToken.deleteMany({ where: { expiresAt: { lte: now } } })
+
+  const token = randomToken(32)
+  await db.emailSignInToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      email,
+      expiresAt: new Date(now.getTime() + EMAIL_LINK_TTL_MINUTES * 60 * 1000)
+    }
+  })
+
+  const url = new URL('/auth/email', baseUrl)
+  url.search = new URLSearchParams({ email, token }).toString()
+
+  await nodemailer.createTransport(EMAIL_SERVER).sendMail({
+    to: email,
+    from: EMAIL_FROM,
+    subject: 'Sign in to RealFi Hub',
+    text: `Sign in to RealFi Hub:\n${url}\n\nThe link expires in ${EMAIL_LINK_TTL_MINUTES} minutes. If you did not ask for it you can ignore this email.`
+  })
+}
+
+// Redeems a link token and returns the member it signs in, creating them on first sign-in
+export async function verifyEmailSignIn(email: string, token: string) {
+  const redeemed = await db.emailSignInToken.deleteMany({
+    where: { tokenHash: hashToken(token), email, expiresAt: { gt: new Date() } }
+  })
+  if (redeemed.count !== 1) {
+    return null
+  }
+
+  return db.user.upsert({
+    where: { email },
+    update: {},
+    create: { email }
+  })
+}
@@ -0,0 +1,71 @@
+import type { NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { emailCredentials, siweCredentials } from '@/lib/api/auth'
+import { isEmailSignInEnabled, verifyEmailSignIn } from './email'
+import { verifySiweSignIn } from './wallet'
+
+// SIWE messages must name the host serving the app; NEXTAUTH_URL wins over the request's Host header
+function expectedDomain(headers: Record<string, string> | undefined): string {
+  return process.env.NEXTAUTH_URL ? new URL(process.env.NEXTAUTH_URL).host : headers?.host ?? ''
+}
+
+const siweProvider = CredentialsProvider({
+  id: 'siwe',
+  name: 'Ethereum',
+  credentials: {
+    message: { label: 'Message', type: 'text' },
+    signature: { label: 'Signature', type: 'text' }
+  },
+  async authorize(credentials, req) {
+    const parsed = siweCredentials.safeParse(credentials)
+    if (!parsed.success) {
+      return null
+    }
+
+    const user = await verifySiweSignIn(parsed.data.message, parsed.data.signature, expectedDomain(req.headers))
+    return user && { id: user.id, name: user.name, email: user.email, walletAddress: user.walletAddress }
+  }
+})
+
+const emailProvider = CredentialsProvider({
+  id: 'email',
+  name: 'Email',
+  credentials: {
+    email: { label: 'Email', type: 'email' },
+    token: { label: 'Token', type: 'text' }
+  },
+  async authorize(credentials) {
+    const parsed = emailCredentials.safeParse(credentials)
+    if (!parsed.success) {
+      return null
+    }
+
+    const user = await verifyEmailSignIn(parsed.data.email, parsed.data.token)
+    return user && { id: user.id, name: user.name, email: user.email, walletAddress: user.walletAddress }
+  }
+})
+
+export const authOptions: NextAuthOptions = {
+  // Sessions live in a signed, encrypted cookie, which the socket server can read as well
+  session: { strategy: 'jwt' },
+  pages: { signIn: '/' },
+  providers: isEmailSignInEnabled() ? [siweProvider, emailProvider] : [siweProvider],
+  callbacks: {
+    jwt({ token, user }) {
+      if (user) {
+        token.walletAddress = user.walletAddress ?? null
+      }
+      return token
+    },
+    session({ session, token }) {
+      if (token.sub) {
+        session.user = {
+          ...session.user,
+          id: token.sub,
+          walletAddress: token.walletAddress ?? null
+        }
+      }
+      return session
+    }
+  }
+}
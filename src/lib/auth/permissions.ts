@@ -0,0 +1,177 @@
+import type { AIActionRequest, AIQuery } from '@/lib/api/ai'
+import type { FinanceAction, FinanceQuery } from '@/lib/api/finance'
+import type { GovernanceActionRequest, GovernanceQuery } from '@/lib/api/governance'
+import type { IdentityAction, IdentityQuery } from '@/lib/api/identity'
+import type { AdminAction, AdminQuery } from '@/lib/api/admin'
+
+// Roles, what each role may do, and the permission every API action needs, kept in one place
+
+// Every signed-in member holds `member`; the other roles are assigned through /api/admin
+export const ROLES = ['member', 'verified', 'moderator', 'treasurer', 'admin'] as const
+export type Role = typeof ROLES[number]
+export const ASSIGNABLE_ROLES = ['verified', 'moderator', 'treasurer', 'admin'] as const
+export type AssignableRole = typeof ASSIGNABLE_ROLES[number]
+
+const MEMBER_PERMISSIONS = [
+  'finance:use',
+  'governance:propose',
+  'governance:vote',
+  'governance:contribute',
+  'identity:use',
+  'ai:use'
+] as const
+
+export const PERMISSIONS = [
+  ...MEMBER_PERMISSIONS,
+  'governance:moderate',
+  'governance:veto',
+  'treasury:execute',
+  'treasury:audit',
+  'rates:manage',
+  'limits:manage',
+  'identity:read-all',
+  'roles:manage'
+] as const
+export type Permission = typeof PERMISSIONS[number]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  member: MEMBER_PERMISSIONS,
+  verified: MEMBER_PERMISSIONS,
+  moderator: [...MEMBER_PERMISSIONS, 'governance:moderate', 'governance:veto'],
+  treasurer: [...MEMBER_PERMISSIONS, 'treasury:execute', 'treasury:audit', 'rates:manage'],
+  admin: PERMISSIONS
+}
+
+export function rolesHavePermission(roles: readonly Role[], permission: Permission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission))
+}
+
+export const FINANCE_ACTION_PERMISSIONS: Record<FinanceAction, Permission> = {
+  'connect-human-wallet': 'finance:use',
+  'claim-ubi': 'finance:use',
+  'send-payment': 'finance:use',
+  'deposit-savings': 'finance:use',
+  'withdraw-savings': 'finance:use',
+  'set-savings-rate': 'rates:manage',
+  'set-fee-rate': 'rates:manage',
+  'create-standing-order': 'finance:use',
+  'pause-standing-order': 'finance:use',
+  'resume-standing-order': 'finance:use',
+  'cancel-standing-order': 'finance:use',
+  'create-circle': 'finance:use',
+  'join-circle': 'finance:use',
+  'start-circle': 'finance:use',
+  'contribute-to-circle': 'finance:use',
+  'place-circle-bid': 'finance:use',
+  'request-loan': 'finance:use',
+  'repay-loan': 'finance:use',
+  'fund-loan-pool': 'finance:use',
+  'fund-treasury': 'finance:use',
+  'set-spending-limits': 'limits:manage',
+  'enable-merchant': 'finance:use',
+  'create-invoice': 'finance:use',
+  'pay-invoice': 'finance:use',
+  'cancel-invoice': 'finance:use',
+  'swap': 'finance:use'
+}
+
+export const FINANCE_QUERY_PERMISSIONS: Record<FinanceQuery['action'], Permission> = {
+  'get-balance': 'finance:use',
+  'get-savings': 'finance:use',
+  'get-transactions': 'finance:use',
+  'get-loans': 'finance:use',
+  'get-loan-pool': 'finance:use',
+  'get-treasury': 'finance:use',
+  'get-circles': 'finance:use',
+  'get-spending-limits': 'finance:use',
+  'get-standing-orders': 'finance:use',
+  'get-invoice': 'finance:use',
+  'get-invoices': 'finance:use',
+  'get-settlement-report': 'finance:use',
+  'get-trial-balance': 'treasury:audit',
+  'get-market-rates': 'finance:use',
+  'get-swap-quote': 'finance:use'
+}
+
+// /api/finance/export and /api/finance/links/[code]
+export const FINANCE_EXPORT_PERMISSION: Permission = 'finance:use'
+export const PAYMENT_LINK_PERMISSION: Permission = 'finance:use'
+
+export const GOVERNANCE_ACTION_PERMISSIONS: Record<GovernanceActionRequest['action'], Permission> = {
+  'create-proposal': 'governance:propose',
+  'submit-proposal': 'governance:propose',
+  'open-voting': 'governance:propose',
+  'amend-proposal': 'governance:propose',
+  'vote': 'governance:vote',
+  'cast-ballot': 'governance:vote',
+  'delegate': 'governance:vote',
+  'revoke-delegation': 'governance:vote',
+  'post-comment': 'governance:vote',
+  'edit-comment': 'governance:vote',
+  'react-to-comment': 'governance:vote',
+  'flag-comment': 'governance:vote',
+  'moderate-comment': 'governance:moderate',
+  'lock-discussion': 'governance:moderate',
+  'create-goal': 'governance:propose',
+  'contribute-to-goal': 'governance:contribute',
+  // Owners withdraw their own; treasury:execute is checked for anyone else's
+  'cancel-goal': 'governance:propose',
+  'submit-goal-evidence': 'governance:propose',
+  'review-goal-milestone': 'treasury:execute',
+  'queue-proposal': 'treasury:execute',
+  'execute-proposal': 'treasury:execute',
+  'veto-proposal': 'governance:veto',
+  'release-tranche': 'treasury:execute',
+  'cancel-tranche': 'treasury:execute',
+  // Authors withdraw their own; treasury:execute is checked for anyone else's
+  'cancel-proposal': 'governance:propose'
+}
+
+// `null` marks a public read that works without signing in
+export const GOVERNANCE_QUERY_PERMISSIONS: Record<GovernanceQuery['action'], Permission | null> = {
+  'get-proposals': null,
+  'get-proposal': null,
+  'get-proposal-versions': null,
+  'get-proposal-diff': null,
+  'get-community-goals': null,
+  'get-goal': null,
+  'get-my-contributions': 'governance:contribute',
+  'get-user-votes': 'governance:vote',
+  'get-delegations': 'governance:vote',
+  'get-discussion': null,
+  'get-comment-history': null,
+  'get-flagged-comments': 'governance:moderate',
+  'get-governance-stats': null
+}
+
+export const IDENTITY_ACTION_PERMISSIONS: Record<IdentityAction, Permission> = {
+  'verify-human-passport': 'identity:use',
+  'store-private-data': 'identity:use',
+  'generate-did': 'identity:use'
+}
+
+export const IDENTITY_QUERY_PERMISSIONS: Record<IdentityQuery['action'], Permission | null> = {
+  'get-identity': null,
+  'list-stored-data': 'identity:read-all'
+}
+
+export const AI_ACTION_PERMISSIONS: Record<AIActionRequest['action'], Permission> = {
+  'private-ai-assistant': 'ai:use',
+  'analyze-community-data': 'ai:use',
+  'generate-governance-recommendation': 'ai:use'
+}
+
+export const AI_QUERY_PERMISSIONS: Record<AIQuery['action'], Permission | null> = {
+  'get-conversation-history': 'ai:use',
+  'get-ai-capabilities': null
+}
+
+export const ADMIN_ACTION_PERMISSIONS: Record<AdminAction, Permission> = {
+  'assign-role': 'roles:manage',
+  'revoke-role': 'roles:manage'
+}
+
+export const ADMIN_QUERY_PERMISSIONS: Record<AdminQuery['action'], Permission> = {
+  'get-user-roles': 'roles:manage',
+  'list-role-assignments': 'roles:manage'
+}
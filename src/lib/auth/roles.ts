@@ -0,0 +1,39 @@
+import { db } from '@/lib/db'
+import { ROLES, rolesHavePermission, type AssignableRole, type Permission, type Role } from './permissions'
+
+// Members listed in the comma separated ADMIN_USER_IDS are always admins, so a fresh
+// community can sign in and hand out the first roles
+const ADMIN_USER_IDS = new Set(
+  (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+)
+
+export function isBootstrapAdmin(userId: string): boolean {
+  return ADMIN_USER_IDS.has(userId)
+}
+
+export async function getUserRoles(userId: string): Promise<Role[]> {
+  const assigned = await db.userRole.findMany({ where: { userId }, select: { role: true } })
+  const roles = new Set<string>(['member', ...assigned.map(({ role }) => role)])
+  if (isBootstrapAdmin(userId)) {
+    roles.add('admin')
+  }
+  return ROLES.filter(role => roles.has(role))
+}
+
+export async function hasPermission(userId: string, permission: Permission): Promise<boolean> {
+  return rolesHavePermission(await getUserRoles(userId), permission)
+}
+
+// grantedBy is null for roles the system grants itself, such as verified after a passport check
+export async function assignRole(userId: string, role: AssignableRole, grantedBy: string | null) {
+  return db.userRole.upsert({
+    where: { userId_role: { userId, role } },
+    update: {},
+    create: { userId, role, grantedBy }
+  })
+}
+
+export async function revokeRole(userId: string, role: AssignableRole): Promise<boolean> {
+  const { count } = await db.userRole.deleteMany({ where: { userId, role } })
+  return count > 0
+}
@@ -0,0 +1,48 @@
+import { getServerSession } from 'next-auth'
+import { NextResponse } from 'next/server'
+import type { ApiFailure } from '@/lib/api/common'
+import { authOptions } from './options'
+import type { Permission } from './permissions'
+import { hasPermission } from './roles'
+
+// The signed-in member for the current request. Routes never take a user id from the client.
+export async function getSessionUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions)
+  return session?.user?.id ?? null
+}
+
+export function unauthorized(): NextResponse<ApiFailure> {
+  return NextResponse.json({
+    success: false,
+    error: 'Sign in required'
+  }, { status: 401 })
+}
+
+export function forbidden(): NextResponse<ApiFailure> {
+  return NextResponse.json({
+    success: false,
+    error: 'You do not have permission to do that'
+  }, { status: 403 })
+}
+
+export type Authorization<U> =
+  | { success: true, userId: U }
+  | { success: false, response: NextResponse<ApiFailure> }
+
+// Resolves the session and checks it holds `permission`. A null permission is a public
+// read: it passes without a session, and userId is the member when one is signed in.
+export async function authorize(permission: Permission): Promise<Authorization<string>>
+export async function authorize(permission: Permission | null): Promise<Authorization<string | null>>
+export async function authorize(permission: Permission | null): Promise<Authorization<string | null>> {
+  const userId = await getSessionUserId()
+  if (permission === null) {
+    return { success: true, userId }
+  }
+  if (!userId) {
+    return { success: false, response: unauthorized() }
+  }
+  if (!await hasPermission(userId, permission)) {
+    return { success: false, response: forbidden() }
+  }
+  return { success: true, userId }
+}
@@ -0,0 +1,94 @@
+import { getAddress } from 'ethers'
+
+// Sign-In with Ethereum (EIP-4361) messages. The browser builds and signs one,
+// the server parses it back and checks every field before trusting the signature.
+
+export const SIWE_STATEMENT = 'Sign in to RealFi Hub. This request will not trigger a transaction or cost any gas.'
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement: string
+  uri: string
+  version: '1'
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+export function createSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    message.address,
+    '',
+    message.statement,
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  ]
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`)
+  }
+  return lines.join('\n')
+}
+
+// Returns null for anything that is not a well-formed message in the layout createSiweMessage produces
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const [header, address, blank, statement, separator, ...rest] = text.split('\n')
+  if (!header?.endsWith(HEADER_SUFFIX) || blank !== '' || separator !== '' || !statement) {
+    return null
+  }
+
+  const fields = new Map<string, string>()
+  for (const line of rest) {
+    const match = /^([A-Za-z ]+): (.+)$/.exec(line)
+    if (!match || fields.has(match[1])) {
+      return null
+    }
+    fields.set(match[1], match[2])
+  }
+
+  const uri = fields.get('URI')
+  const chainId = Number(fields.get('Chain ID'))
+  const nonce = fields.get('Nonce')
+  const issuedAt = fields.get('Issued At')
+  if (
+    !uri ||
+    fields.get('Version') !== '1' ||
+    !Number.isInteger(chainId) ||
+    !nonce ||
+    !/^[A-Za-z0-9]{8,}$/.test(nonce) ||
+    !issuedAt ||
+    Number.isNaN(Date.parse(issuedAt))
+  ) {
+    return null
+  }
+
+  const expirationTime = fields.get('Expiration Time')
+  if (expirationTime !== undefined && Number.isNaN(Date.parse(expirationTime))) {
+    return null
+  }
+
+  try {
+    return {
+      domain: header.slice(0, -HEADER_SUFFIX.length),
+      address: getAddress(address),
+      statement,
+      uri,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt,
+      expirationTime
+    }
+  } catch {
+    // Not a valid Ethereum address
+    return null
+  }
+}
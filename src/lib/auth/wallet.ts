@@ -0,0 +1,63 @@
+import { verifyMessage } from 'ethers'
+import { db } from '@/lib/db'
+import { randomToken } from '@/lib/ids'
+import { parseSiweMessage } from './siwe'
+
+// A nonce must be used within this window, which also bounds how old a signed message may be
+export const SIWE_NONCE_TTL_MINUTES = 10
+
+export async function issueSiweNonce(): Promise<string> {
+  const now = new Date()
+  await db.authNonce.deleteMany({ where: { expiresAt: { lte: now } } })
+
+  const nonce = randomToken(24)
+  await db.authNonce.create({
+    data: {
+      nonce,
+      expiresAt: new Date(now.getTime() + SIWE_NONCE_TTL_MINUTES * 60 * 1000)
+    }
+  })
+  return nonce
+}
+
+// Checks a signed SIWE message and returns the member it signs in, creating them on first sign-in.
+// Returns null when the message, nonce or signature does not hold up.
+export async function verifySiweSignIn(message: string, signature: string, expectedDomain: string) {
+  const siwe = parseSiweMessage(message)
+  if (!siwe || siwe.domain !== expectedDomain) {
+    return null
+  }
+
+  const now = Date.now()
+  const issuedAt = Date.parse(siwe.issuedAt)
+  if (issuedAt > now + 60 * 1000 || issuedAt < now - SIWE_NONCE_TTL_MINUTES * 60 * 1000) {
+    return null
+  }
+  if (siwe.expirationTime && Date.parse(siwe.expirationTime) <= now) {
+    return null
+  }
+
+  let signer: string
+  try {
+    signer = verifyMessage(message, signature)
+  } catch {
+    return null
+  }
+  if (signer !== siwe.address) {
+    return null
+  }
+
+  // Consume the nonce only once the signature checks out, so a bad attempt cannot burn it
+  const consumed = await db.authNonce.deleteMany({
+    where: { nonce: siwe.nonce, expiresAt: { gt: new Date(now) } }
+  })
+  if (consumed.count !== 1) {
+    return null
+  }
+
+  return db.user.upsert({
+    where: { walletAddress: siwe.address },
+    update: {},
+    create: { walletAddress: siwe.address }
+  })
+}
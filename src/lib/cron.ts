@@ -0,0 +1,147 @@
+// Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Supports `*`, lists, ranges, steps and the common @ aliases.
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *'
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7] // day of week, Sunday = 0 or 7
+]
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    let start = min
+    let end = max
+
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number)
+      start = from
+      end = to === undefined ? (stepText === undefined ? from : max) : to
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}"`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim()] ?? expression.trim()
+  const fields = normalized.split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got "${expression}"`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  )
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate())
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay())
+
+  // Standard cron: when both day fields are restricted, either one may match
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+// First time strictly after `after` that matches the expression
+export function getNextCronTime(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const date = new Date(after.getTime())
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+  // Five years of skipping is far more than any valid expression needs
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+    return date
+  }
+
+  throw new Error(`Cron expression never fires: "${expression}"`)
+}
+
+// The next `count` run times after `after`
+export function getUpcomingCronTimes(expression: string, after: Date, count: number): Date[] {
+  const schedule = parseCron(expression)
+  const times: Date[] = []
+  let cursor = after
+
+  for (let i = 0; i < count; i++) {
+    cursor = getNextCronTime(schedule, cursor)
+    times.push(cursor)
+  }
+
+  return times
+}
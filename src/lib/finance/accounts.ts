@@ -0,0 +1,49 @@
+import type { Prisma, Transaction } from '@prisma/client'
+import type { Transaction as SerializedTransaction } from '@/lib/api/finance'
+import { getLedgerBalance, walletAccount } from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+export const DEFAULT_CURRENCY = 'G$'
+
+// Find the member account for a user, creating it on first use
+export async function getOrCreateAccount(tx: Tx, userId: string) {
+  return tx.account.upsert({
+    where: { userId },
+    update: {},
+    create: { userId }
+  })
+}
+
+// Spendable wallet balance, derived from the journal
+export async function getBalance(tx: Tx, accountId: string, currency = DEFAULT_CURRENCY): Promise<number> {
+  return getLedgerBalance(tx, walletAccount(accountId), currency)
+}
+
+// Wallet balance of every member account holding `currency`, keyed by account id
+export async function getWalletBalances(tx: Tx, currency = DEFAULT_CURRENCY): Promise<Map<string, number>> {
+  const prefix = walletAccount('')
+  const grouped = await tx.journalLine.groupBy({
+    by: ['accountCode'],
+    where: { accountCode: { startsWith: prefix }, currency },
+    _sum: { debit: true, credit: true }
+  })
+
+  return new Map(grouped
+    .map(row => [row.accountCode.slice(prefix.length), (row._sum.credit ?? 0) - (row._sum.debit ?? 0)] as const)
+    .filter(([, balance]) => balance > 0))
+}
+
+// Shape a stored transaction the way the API has always returned it
+export function serializeTransaction(transaction: Transaction): SerializedTransaction {
+  const { accountId, journalEntryId, createdAt, ...rest } = transaction
+  // Null columns are left out rather than sent as null
+  const fields = Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== null)
+  ) as Omit<SerializedTransaction, 'timestamp'>
+
+  return {
+    ...fields,
+    timestamp: createdAt.toISOString()
+  }
+}
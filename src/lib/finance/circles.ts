@@ -0,0 +1,492 @@
+import type { Prisma, PrismaClient, SavingsCircle, SavingsCircleMember } from '@prisma/client'
+import { randomInt } from 'crypto'
+import { getNextCronTime, isValidCron } from '@/lib/cron'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import {
+  circlePoolAccount,
+  getLedgerBalance,
+  postJournalEntry,
+  walletAccount,
+  type JournalLineInput
+} from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+export type PayoutOrder = 'fixed' | 'random' | 'bid'
+export const PAYOUT_ORDERS: PayoutOrder[] = ['fixed', 'random', 'bid']
+
+export const MIN_CIRCLE_MEMBERS = 2
+const HOUR_MS = 60 * 60 * 1000
+
+export interface SavingsCircleInput {
+  name: string
+  contributionAmount: number
+  currency?: string
+  schedule: string
+  payoutOrder: PayoutOrder
+  maxMembers?: number
+  latePenalty?: number
+  gracePeriodHours?: number
+  maxMissed?: number
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8
+}
+
+export async function createSavingsCircle(tx: Tx, userId: string, input: SavingsCircleInput) {
+  if (!input.name?.trim()) {
+    throw new FinanceError('Circle name is required')
+  }
+  if (!(input.contributionAmount > 0)) {
+    throw new FinanceError('Contribution amount must be positive')
+  }
+  if (!isValidCron(input.schedule)) {
+    throw new FinanceError('Invalid schedule, expected a cron expression such as "@weekly"')
+  }
+  if (!PAYOUT_ORDERS.includes(input.payoutOrder)) {
+    throw new FinanceError(`Payout order must be one of ${PAYOUT_ORDERS.join(', ')}`)
+  }
+  if (input.maxMembers !== undefined && !(input.maxMembers >= MIN_CIRCLE_MEMBERS)) {
+    throw new FinanceError(`A circle needs room for at least ${MIN_CIRCLE_MEMBERS} members`)
+  }
+  if (input.latePenalty !== undefined && !(input.latePenalty >= 0)) {
+    throw new FinanceError('Late penalty must be zero or positive')
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  const circle = await tx.savingsCircle.create({
+    data: {
+      id: createId('savingsCircle'),
+      name: input.name.trim(),
+      creatorAccountId: account.id,
+      contributionAmount: input.contributionAmount,
+      currency: input.currency ?? 'G$',
+      schedule: input.schedule,
+      payoutOrder: input.payoutOrder,
+      maxMembers: input.maxMembers,
+      latePenalty: input.latePenalty,
+      gracePeriodHours: input.gracePeriodHours,
+      maxMissed: input.maxMissed
+    }
+  })
+
+  await tx.savingsCircleMember.create({ data: { circleId: circle.id, accountId: account.id } })
+  return circle
+}
+
+async function findCircle(tx: Tx, circleId: string) {
+  const circle = await tx.savingsCircle.findUnique({
+    where: { id: circleId },
+    include: { members: { orderBy: { joinedAt: 'asc' } } }
+  })
+  if (!circle) {
+    throw new FinanceError('Savings circle not found', 404)
+  }
+  return circle
+}
+
+async function findMembership(tx: Tx, userId: string, circleId: string) {
+  const circle = await findCircle(tx, circleId)
+  const account = await tx.account.findUnique({ where: { userId } })
+  const member = account && circle.members.find(candidate => candidate.accountId === account.id)
+
+  if (!member) {
+    throw new FinanceError('You are not a member of this circle', 403)
+  }
+  return { circle, member }
+}
+
+async function getCurrentRound(tx: Tx, circle: SavingsCircle) {
+  const round = await tx.savingsCircleRound.findUnique({
+    where: { circleId_number: { circleId: circle.id, number: circle.currentRound } }
+  })
+  if (!round || round.status !== 'collecting') {
+    throw new FinanceError('Savings circle has no open round', 409)
+  }
+  return round
+}
+
+async function openRound(tx: Tx, circle: SavingsCircle, number: number, after: Date) {
+  const dueAt = getNextCronTime(circle.schedule, after)
+  await tx.savingsCircle.update({ where: { id: circle.id }, data: { currentRound: number } })
+  return tx.savingsCircleRound.create({
+    data: {
+      circleId: circle.id,
+      number,
+      dueAt,
+      closesAt: new Date(dueAt.getTime() + circle.gracePeriodHours * HOUR_MS)
+    }
+  })
+}
+
+export async function joinSavingsCircle(tx: Tx, userId: string, circleId: string) {
+  const circle = await findCircle(tx, circleId)
+  if (circle.status !== 'forming') {
+    throw new FinanceError('Savings circle is no longer accepting members', 409)
+  }
+  if (circle.members.length >= circle.maxMembers) {
+    throw new FinanceError('Savings circle is full', 409)
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  if (circle.members.some(member => member.accountId === account.id)) {
+    throw new FinanceError('You are already a member of this circle', 409)
+  }
+
+  return tx.savingsCircleMember.create({ data: { circleId: circle.id, accountId: account.id } })
+}
+
+// Fix the payout order and open the first round. Fixed circles pay in join order,
+// random circles shuffle once, bid circles use join order only to break ties.
+export async function startSavingsCircle(tx: Tx, userId: string, circleId: string, now = new Date()) {
+  const { circle, member } = await findMembership(tx, userId, circleId)
+
+  if (member.accountId !== circle.creatorAccountId) {
+    throw new FinanceError('Only the circle creator can start it', 403)
+  }
+  if (circle.status !== 'forming') {
+    throw new FinanceError(`Savings circle is ${circle.status}`, 409)
+  }
+  if (circle.members.length < MIN_CIRCLE_MEMBERS) {
+    throw new FinanceError(`A circle needs at least ${MIN_CIRCLE_MEMBERS} members to start`)
+  }
+
+  const order = [...circle.members]
+  if (circle.payoutOrder === 'random') {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1)
+      const swapped = order[i]
+      order[i] = order[j]
+      order[j] = swapped
+    }
+  }
+
+  for (const [index, orderedMember] of order.entries()) {
+    await tx.savingsCircleMember.update({ where: { id: orderedMember.id }, data: { position: index + 1 } })
+  }
+
+  const updated = await tx.savingsCircle.update({ where: { id: circle.id }, data: { status: 'active' } })
+  const round = await openRound(tx, updated, 1, now)
+  return { circle: updated, round }
+}
+
+// Pay this round's contribution plus anything owed from missed rounds.
+// Paying after the due date (within the grace period) adds the late penalty.
+export async function contributeToCircle(tx: Tx, userId: string, circleId: string, now = new Date()) {
+  const { circle, member } = await findMembership(tx, userId, circleId)
+
+  if (circle.status !== 'active') {
+    throw new FinanceError(`Savings circle is ${circle.status}`, 409)
+  }
+  if (member.status === 'defaulted') {
+    throw new FinanceError('You were removed from this circle after missing too many contributions', 403)
+  }
+
+  const round = await getCurrentRound(tx, circle)
+  const existing = await tx.savingsCircleContribution.findUnique({
+    where: { roundId_memberId: { roundId: round.id, memberId: member.id } }
+  })
+  if (existing) {
+    throw new FinanceError('You already contributed to this round', 409)
+  }
+
+  const late = now > round.dueAt
+  const penalty = late ? roundAmount(circle.contributionAmount * circle.latePenalty / 100) : 0
+  const amount = roundAmount(circle.contributionAmount + member.arrears)
+  const total = roundAmount(amount + penalty)
+
+  if (await getBalance(tx, member.accountId, circle.currency) < total) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'circle_contribution',
+    description: `Round ${round.number} contribution to ${circle.name}`,
+    reference: circle.id,
+    currency: circle.currency,
+    lines: [
+      { account: walletAccount(member.accountId), debit: total },
+      { account: circlePoolAccount(circle.id), credit: total }
+    ]
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: member.accountId,
+      type: 'circle_contribution',
+      recipient: circle.name,
+      amount,
+      currency: circle.currency,
+      fee: penalty > 0 ? penalty : null,
+      journalEntryId: entry.id
+    }
+  })
+
+  const contribution = await tx.savingsCircleContribution.create({
+    data: {
+      roundId: round.id,
+      memberId: member.id,
+      amount,
+      penalty,
+      status: late ? 'late' : 'paid',
+      transactionId: transaction.id
+    }
+  })
+
+  if (member.arrears > 0) {
+    await tx.savingsCircleMember.update({ where: { id: member.id }, data: { arrears: 0 } })
+  }
+
+  // Pay out as soon as everyone is in, except bid circles which keep bidding open until the due date
+  const paidCount = await tx.savingsCircleContribution.count({ where: { roundId: round.id, status: { not: 'missed' } } })
+  const activeCount = circle.members.filter(candidate => candidate.status === 'active').length
+  if (paidCount >= activeCount && (circle.payoutOrder !== 'bid' || now >= round.dueAt)) {
+    await closeRound(tx, circle.id, now)
+  }
+
+  return { contribution, transaction }
+}
+
+// Offer to give up `amount` of the pot to be paid this round. The discount is shared among the other contributors.
+export async function placeCircleBid(tx: Tx, userId: string, circleId: string, amount: number, now = new Date()) {
+  const { circle, member } = await findMembership(tx, userId, circleId)
+
+  if (circle.payoutOrder !== 'bid') {
+    throw new FinanceError('This circle does not use bidding')
+  }
+  if (circle.status !== 'active') {
+    throw new FinanceError(`Savings circle is ${circle.status}`, 409)
+  }
+  if (member.status !== 'active' || member.payoutRound !== null) {
+    throw new FinanceError('Only members still waiting for a payout can bid', 403)
+  }
+  if (!(amount >= 0)) {
+    throw new FinanceError('Bid must be zero or positive')
+  }
+
+  const round = await getCurrentRound(tx, circle)
+  if (now > round.dueAt) {
+    throw new FinanceError('Bidding for this round has closed', 409)
+  }
+
+  return tx.savingsCircleBid.upsert({
+    where: { roundId_memberId: { roundId: round.id, memberId: member.id } },
+    update: { amount, createdAt: now },
+    create: { roundId: round.id, memberId: member.id, amount, createdAt: now }
+  })
+}
+
+async function pickRecipient(tx: Tx, circle: SavingsCircle, roundId: string, eligible: SavingsCircleMember[]) {
+  if (eligible.length === 0) return { recipient: null, bid: 0 }
+
+  if (circle.payoutOrder === 'bid') {
+    const bids = await tx.savingsCircleBid.findMany({
+      where: { roundId, memberId: { in: eligible.map(member => member.id) } },
+      orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }]
+    })
+    if (bids.length > 0) {
+      return { recipient: eligible.find(member => member.id === bids[0].memberId)!, bid: bids[0].amount }
+    }
+  }
+
+  const [recipient] = [...eligible].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+  return { recipient, bid: 0 }
+}
+
+// Credit `amount` from the circle pot to each member equally
+async function distributePot(
+  tx: Tx,
+  circle: SavingsCircle,
+  payouts: Array<{ member: SavingsCircleMember, amount: number, type: string }>,
+  description: string
+) {
+  const total = roundAmount(payouts.reduce((sum, payout) => sum + payout.amount, 0))
+  if (total <= 0) return
+
+  const lines: JournalLineInput[] = [{ account: circlePoolAccount(circle.id), debit: total }]
+  for (const payout of payouts) {
+    lines.push({ account: walletAccount(payout.member.accountId), credit: payout.amount })
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'circle_payout',
+    description,
+    reference: circle.id,
+    currency: circle.currency,
+    lines
+  })
+
+  for (const [index, payout] of payouts.entries()) {
+    await tx.transaction.create({
+      data: {
+        id: createId('transaction'),
+        accountId: payout.member.accountId,
+        type: payout.type,
+        recipient: circle.name,
+        amount: payout.amount,
+        currency: circle.currency,
+        // One journal entry covers every payout; link it from the first transaction
+        journalEntryId: index === 0 ? entry.id : null
+      }
+    })
+  }
+}
+
+// Settle the open round: record missed contributions, pay the pot to this round's recipient
+// and open the next round, or finish the circle once everyone has been paid.
+async function closeRound(tx: Tx, circleId: string, now: Date) {
+  const circle = await findCircle(tx, circleId)
+  const round = await getCurrentRound(tx, circle)
+  const contributions = await tx.savingsCircleContribution.findMany({ where: { roundId: round.id } })
+  const contributed = new Set(contributions.map(contribution => contribution.memberId))
+
+  const members: SavingsCircleMember[] = []
+  for (const member of circle.members) {
+    if (member.status !== 'active' || contributed.has(member.id)) {
+      members.push(member)
+      continue
+    }
+
+    // Missed: the contribution and penalty are owed, and too many misses remove the member
+    const penalty = roundAmount(circle.contributionAmount * circle.latePenalty / 100)
+    const missedCount = member.missedCount + 1
+    await tx.savingsCircleContribution.create({
+      data: { roundId: round.id, memberId: member.id, amount: circle.contributionAmount, penalty, status: 'missed' }
+    })
+    members.push(await tx.savingsCircleMember.update({
+      where: { id: member.id },
+      data: {
+        missedCount,
+        arrears: roundAmount(member.arrears + circle.contributionAmount + penalty),
+        status: missedCount > circle.maxMissed ? 'defaulted' : 'active'
+      }
+    }))
+  }
+
+  const eligible = members.filter(member => member.status === 'active' && member.payoutRound === null && member.arrears <= 0)
+  const { recipient, bid } = await pickRecipient(tx, circle, round.id, eligible)
+  const pot = await getLedgerBalance(tx, circlePoolAccount(circle.id), circle.currency)
+
+  if (recipient && pot > 0) {
+    const contributors = members.filter(member => member.id !== recipient.id && contributed.has(member.id))
+    const discount = contributors.length > 0 ? Math.min(bid, pot) : 0
+    const share = contributors.length > 0 ? roundAmount(discount / contributors.length) : 0
+    const payout = roundAmount(pot - share * contributors.length)
+
+    await distributePot(tx, circle, [
+      { member: recipient, amount: payout, type: 'circle_payout' },
+      ...contributors.map(member => ({ member, amount: share, type: 'circle_bid_share' }))
+    ].filter(entry => entry.amount > 0), `Round ${round.number} payout from ${circle.name}`)
+
+    await tx.savingsCircleMember.update({ where: { id: recipient.id }, data: { payoutRound: round.number } })
+    recipient.payoutRound = round.number
+    await tx.savingsCircleRound.update({
+      where: { id: round.id },
+      data: { status: 'paid_out', recipientMemberId: recipient.id, payoutAmount: payout, bidAmount: discount, paidAt: now }
+    })
+  } else {
+    // Nobody can take the pot this round; it carries over to the next one
+    await tx.savingsCircleRound.update({ where: { id: round.id }, data: { status: 'rolled_over' } })
+  }
+
+  const waiting = members.filter(member => member.status === 'active' && member.payoutRound === null)
+  if (waiting.length > 0) {
+    return openRound(tx, circle, round.number + 1, round.dueAt)
+  }
+
+  // Everyone still in the circle has been paid; return whatever is left to them equally
+  const leftover = await getLedgerBalance(tx, circlePoolAccount(circle.id), circle.currency)
+  const remaining = members.filter(member => member.status === 'active')
+  if (leftover > 0 && remaining.length > 0) {
+    const share = roundAmount(leftover / remaining.length)
+    await distributePot(
+      tx,
+      circle,
+      remaining.map(member => ({ member, amount: share, type: 'circle_refund' })),
+      `Closing balance of ${circle.name}`
+    )
+  }
+  await tx.savingsCircle.update({ where: { id: circle.id }, data: { status: 'completed' } })
+  return null
+}
+
+// Close every round whose grace period has ended
+export async function runDueSavingsCircles(client: PrismaClient, now = new Date()) {
+  const due = await client.savingsCircleRound.findMany({
+    where: { status: 'collecting', closesAt: { lte: now }, circle: { status: 'active' } },
+    orderBy: { closesAt: 'asc' }
+  })
+
+  for (const round of due) {
+    try {
+      await client.$transaction(tx => closeRound(tx, round.circleId, now))
+    } catch (error) {
+      console.error(`Closing round ${round.number} of savings circle ${round.circleId} failed:`, error)
+    }
+  }
+
+  return due.length
+}
+
+// Circles the user belongs to, with their own standing in each and the open round
+export async function getSavingsCircles(tx: Tx, userId: string) {
+  const account = await tx.account.findUnique({ where: { userId } })
+  if (!account) return []
+
+  const circles = await tx.savingsCircle.findMany({
+    where: { members: { some: { accountId: account.id } } },
+    include: {
+      members: { include: { account: { select: { userId: true } } }, orderBy: { joinedAt: 'asc' } },
+      rounds: { orderBy: { number: 'desc' }, take: 1, include: { contributions: true, bids: true } }
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return Promise.all(circles.map(async (circle) => {
+    const me = circle.members.find(member => member.accountId === account.id)!
+    const round = circle.rounds[0]
+    const myContribution = round?.contributions.find(contribution => contribution.memberId === me.id)
+
+    return {
+      id: circle.id,
+      name: circle.name,
+      contributionAmount: circle.contributionAmount,
+      currency: circle.currency,
+      schedule: circle.schedule,
+      payoutOrder: circle.payoutOrder as PayoutOrder,
+      latePenalty: circle.latePenalty,
+      status: circle.status,
+      isCreator: circle.creatorAccountId === account.id,
+      pot: await getLedgerBalance(tx, circlePoolAccount(circle.id), circle.currency),
+      me: {
+        position: me.position,
+        status: me.status,
+        missedCount: me.missedCount,
+        arrears: me.arrears,
+        payoutRound: me.payoutRound,
+        contributedThisRound: !!myContribution && myContribution.status !== 'missed'
+      },
+      members: circle.members.map(member => ({
+        userId: member.account.userId,
+        position: member.position,
+        status: member.status,
+        missedCount: member.missedCount,
+        payoutRound: member.payoutRound
+      })),
+      round: round ? {
+        number: round.number,
+        status: round.status,
+        dueAt: round.dueAt.toISOString(),
+        closesAt: round.closesAt.toISOString(),
+        contributions: round.contributions.filter(contribution => contribution.status !== 'missed').length,
+        highestBid: round.bids.reduce((max, bid) => Math.max(max, bid.amount), 0)
+      } : null
+    }
+  }))
+}
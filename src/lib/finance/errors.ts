@@ -0,0 +1,12 @@
+// Error raised by finance services; the API routes map it onto an HTTP response
+export class FinanceError extends Error {
+  status: number
+  details?: Record<string, unknown>
+
+  constructor(message: string, status = 400, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'FinanceError'
+    this.status = status
+    this.details = details
+  }
+}
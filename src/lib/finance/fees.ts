@@ -0,0 +1,33 @@
+import type { Prisma } from '@prisma/client'
+import type { FeeKind } from '@/lib/api/finance'
+import { FinanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Percent charged until a treasurer sets a rate
+export const DEFAULT_FEE_RATES: Record<FeeKind, number> = {
+  payment: 0.5,
+  swap: 0.3
+}
+
+// Fee rate in percent in effect at `date`
+export async function getFeeRate(tx: Tx, kind: FeeKind, date = new Date()): Promise<number> {
+  const current = await tx.feeRate.findFirst({
+    where: { kind, effectiveFrom: { lte: date } },
+    orderBy: { effectiveFrom: 'desc' }
+  })
+  return current?.rate ?? DEFAULT_FEE_RATES[kind]
+}
+
+// Fee owed on `amount` at the rate in effect now
+export async function calculateFee(tx: Tx, kind: FeeKind, amount: number): Promise<number> {
+  return amount * await getFeeRate(tx, kind) / 100
+}
+
+// Schedule a new fee rate; payments and swaps made from effectiveFrom on are charged at it
+export async function setFeeRate(tx: Tx, kind: FeeKind, rate: number, effectiveFrom = new Date()) {
+  if (!(rate >= 0 && rate <= 100)) {
+    throw new FinanceError('Fee rate must be between 0 and 100 percent')
+  }
+  return tx.feeRate.create({ data: { kind, rate, effectiveFrom } })
+}
@@ -0,0 +1,82 @@
+import type { Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { getLedgerBalance, goalEscrowAccount, postJournalEntry, walletAccount } from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+const ESCROW_TOLERANCE = 1e-6
+
+// Money moving in and out of a community goal's escrow. Each movement is a journal entry
+// referencing the goal and a transaction on the member account it touches.
+
+async function recordMovement(
+  tx: Tx,
+  accountId: string,
+  type: 'goal_contribution' | 'goal_refund' | 'goal_release',
+  goalId: string,
+  amount: number,
+  currency: string
+) {
+  const escrow = goalEscrowAccount(goalId)
+  const wallet = walletAccount(accountId)
+  const incoming = type === 'goal_contribution'
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type,
+    reference: goalId,
+    currency,
+    lines: [
+      { account: incoming ? wallet : escrow, debit: amount },
+      { account: incoming ? escrow : wallet, credit: amount }
+    ]
+  })
+
+  return tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId,
+      type,
+      amount,
+      currency,
+      journalEntryId: entry.id
+    }
+  })
+}
+
+export async function holdContribution(tx: Tx, userId: string, goalId: string, amount: number, currency: string) {
+  const account = await getOrCreateAccount(tx, userId)
+  if (await getBalance(tx, account.id, currency) < amount) {
+    throw new FinanceError('Insufficient balance')
+  }
+  return recordMovement(tx, account.id, 'goal_contribution', goalId, amount, currency)
+}
+
+async function payFromEscrow(
+  tx: Tx,
+  type: 'goal_refund' | 'goal_release',
+  userId: string,
+  goalId: string,
+  amount: number,
+  currency: string
+) {
+  // Refunds of partly released goals are shares of the escrow; the last one may differ
+  // from the balance by rounding, so it takes whatever is left
+  const held = await getLedgerBalance(tx, goalEscrowAccount(goalId), currency)
+  if (held < amount - ESCROW_TOLERANCE) {
+    throw new FinanceError('The goal escrow does not hold enough funds', 409)
+  }
+  const account = await getOrCreateAccount(tx, userId)
+  return recordMovement(tx, account.id, type, goalId, Math.min(amount, held), currency)
+}
+
+export function refundContribution(tx: Tx, userId: string, goalId: string, amount: number, currency: string) {
+  return payFromEscrow(tx, 'goal_refund', userId, goalId, amount, currency)
+}
+
+// Pay part of a goal's escrow to its owner when a milestone is approved
+export function releaseGoalFunds(tx: Tx, ownerId: string, goalId: string, amount: number, currency: string) {
+  return payFromEscrow(tx, 'goal_release', ownerId, goalId, amount, currency)
+}
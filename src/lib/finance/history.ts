@@ -0,0 +1,241 @@
+import type { Prisma, Transaction } from '@prisma/client'
+import { FinanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+// Types that take money out of the wallet; everything else is shown as incoming
+const OUTGOING_TYPES = new Set(['payment', 'savings_deposit', 'swap', 'circle_contribution', 'loan_repayment', 'loan_pool_deposit', 'treasury_deposit', 'goal_contribution'])
+
+// Parsed from query parameters by transactionFilterQuery in @/lib/api/finance
+export interface TransactionFilters {
+  type?: string[]
+  currency?: string
+  from?: Date
+  to?: Date
+  minAmount?: number
+  maxAmount?: number
+}
+
+export interface TransactionPageOptions {
+  cursor?: string
+  limit?: number
+}
+
+function buildWhere(userId: string, filters: TransactionFilters): Prisma.TransactionWhereInput {
+  return {
+    account: { userId },
+    type: filters.type ? { in: filters.type } : undefined,
+    currency: filters.currency,
+    createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+    amount: filters.minAmount !== undefined || filters.maxAmount !== undefined
+      ? { gte: filters.minAmount, lte: filters.maxAmount }
+      : undefined
+  }
+}
+
+// Newest first. The cursor is the id of the last transaction of the previous page.
+export async function getTransactionPage(
+  tx: Tx,
+  userId: string,
+  filters: TransactionFilters = {},
+  { cursor, limit = DEFAULT_PAGE_SIZE }: TransactionPageOptions = {}
+) {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new FinanceError(`Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+  }
+
+  const where = buildWhere(userId, filters)
+  if (cursor && !await tx.transaction.findFirst({ where: { id: cursor, account: { userId } } })) {
+    throw new FinanceError('Invalid cursor')
+  }
+
+  const rows = await tx.transaction.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+  })
+
+  const transactions = rows.slice(0, limit)
+
+  return {
+    transactions,
+    nextCursor: rows.length > limit ? transactions[transactions.length - 1].id : null,
+    totalCount: await tx.transaction.count({ where })
+  }
+}
+
+// Every matching transaction, oldest first, read in pages to keep memory flat. A currency
+// filter also matches swaps into that currency, whose incoming leg is a statement line of its own.
+export async function getAllTransactions(tx: Tx, userId: string, filters: TransactionFilters = {}) {
+  const { currency, ...rest } = filters
+  const where: Prisma.TransactionWhereInput = {
+    ...buildWhere(userId, rest),
+    ...(currency ? { OR: [{ currency }, { counterCurrency: currency }] } : {})
+  }
+  const transactions: Transaction[] = []
+  let cursor: string | undefined
+
+  for (;;) {
+    const page = await tx.transaction.findMany({
+      where,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: 500,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    })
+    transactions.push(...page)
+    if (page.length < 500) return transactions
+    cursor = page[page.length - 1].id
+  }
+}
+
+// Amount as seen from the member's wallet, negative for money going out
+export function signedAmount(transaction: Pick<Transaction, 'type' | 'amount'>): number {
+  return OUTGOING_TYPES.has(transaction.type) ? -transaction.amount : transaction.amount
+}
+
+// One movement of a wallet balance. Summing the lines of a currency gives the change in that balance.
+export interface StatementLine {
+  id: string
+  transactionId: string
+  date: Date
+  type: string
+  amount: number
+  currency: string
+  recipient: string | null
+  status: string
+}
+
+// Split transactions into the movements they made in each wallet: the amount itself, the
+// incoming leg of a swap in its target currency, and any fee or penalty as a separate debit.
+// With a currency, only that wallet's lines are kept.
+export function statementLines(transactions: Transaction[], currency?: string): StatementLine[] {
+  const lines: StatementLine[] = []
+  for (const transaction of transactions) {
+    const line = {
+      transactionId: transaction.id,
+      date: transaction.createdAt,
+      recipient: transaction.recipient,
+      status: transaction.status
+    }
+
+    lines.push({ ...line, id: transaction.id, type: transaction.type, amount: signedAmount(transaction), currency: transaction.currency })
+    if (transaction.counterCurrency && transaction.counterAmount) {
+      lines.push({
+        ...line,
+        id: `${transaction.id}-in`,
+        type: transaction.type,
+        amount: transaction.counterAmount,
+        currency: transaction.counterCurrency
+      })
+    }
+    if (transaction.fee) {
+      lines.push({
+        ...line,
+        id: `${transaction.id}-fee`,
+        type: `${transaction.type}_fee`,
+        amount: -transaction.fee,
+        currency: transaction.currency
+      })
+    }
+  }
+  return currency ? lines.filter(line => line.currency === currency) : lines
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function transactionsToCSV(transactions: Transaction[], currency?: string): string {
+  const header = ['Date', 'ID', 'Transaction', 'Type', 'Amount', 'Currency', 'Recipient', 'Status']
+  const rows = statementLines(transactions, currency).map(line => [
+    line.date.toISOString(),
+    line.id,
+    line.transactionId,
+    line.type,
+    line.amount,
+    line.currency,
+    line.recipient,
+    line.status
+  ])
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function ofxDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14)
+}
+
+function ofxText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export interface OFXStatement {
+  accountId: string
+  currency: string
+  balance: number
+  from?: Date
+  to?: Date
+}
+
+// OFX 2.2 bank statement of the statement's currency; lines in other currencies are left out.
+// Non-ISO currencies such as G$ are declared as XXX (no currency) and named in the memo.
+export function transactionsToOFX(transactions: Transaction[], statement: OFXStatement): string {
+  const now = new Date()
+  const currencyCode = /^[A-Z]{3}$/.test(statement.currency) ? statement.currency : 'XXX'
+  const lines = statementLines(transactions, statement.currency)
+  const start = statement.from ?? lines[0]?.date ?? now
+  const end = statement.to ?? now
+
+  const entries = lines.map(line => {
+    const memo = [line.currency, line.recipient, line.status].filter(Boolean).join(' ')
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${line.amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(line.date)}</DTPOSTED>`,
+      `<TRNAMT>${line.amount.toFixed(2)}</TRNAMT>`,
+      `<FITID>${ofxText(line.id)}</FITID>`,
+      `<NAME>${ofxText(line.type.replace(/_/g, ' '))}</NAME>`,
+      `<MEMO>${ofxText(memo)}</MEMO>`,
+      '</STMTTRN>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${ofxDate(now)}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${currencyCode}</CURDEF>`,
+    '<BANKACCTFROM>',
+    '<BANKID>REALFI</BANKID>',
+    `<ACCTID>${ofxText(statement.accountId)}</ACCTID>`,
+    '<ACCTTYPE>CHECKING</ACCTTYPE>',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(start)}</DTSTART>`,
+    `<DTEND>${ofxDate(end)}</DTEND>`,
+    ...entries,
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${statement.balance.toFixed(2)}</BALAMT>`,
+    `<DTASOF>${ofxDate(now)}</DTASOF>`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,237 @@
+import type { Invoice, Prisma } from '@prisma/client'
+import CryptoJS from 'crypto-js'
+import QRCode from 'qrcode'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getOrCreateAccount } from './accounts'
+import { sendPayment } from './payments'
+import { isSupportedCurrency } from './rates'
+import { signPayload, verifyPayload } from './signing'
+
+type Tx = Prisma.TransactionClient
+
+export type InvoiceStatus = 'open' | 'paid' | 'expired' | 'cancelled'
+
+export const INVOICE_EXPIRY_MINUTES = Number(process.env.INVOICE_EXPIRY_MINUTES) || 60
+// QR payloads start with this prefix so wallets can recognise them
+export const INVOICE_PAYLOAD_PREFIX = 'realfi:invoice:'
+
+const INVOICE_SECRET = 'INVOICE_SECRET'
+
+// Everything the payer needs to see before paying, signed so it cannot be altered
+interface InvoicePayload {
+  v: 1
+  id: string
+  merchant: string
+  amount: number
+  currency: string
+  memo?: string
+  exp: string
+}
+
+export interface InvoiceInput {
+  amount: number
+  currency?: string
+  memo?: string
+  expiresInMinutes?: number
+}
+
+// `realfi:invoice:<base64url JSON>.<signature>`
+export function encodeInvoicePayload(invoice: Invoice, merchantName: string): string {
+  const payload: InvoicePayload = {
+    v: 1,
+    id: invoice.id,
+    merchant: merchantName,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    ...(invoice.memo ? { memo: invoice.memo } : {}),
+    exp: invoice.expiresAt.toISOString()
+  }
+  const body = CryptoJS.enc.Base64url.stringify(CryptoJS.enc.Utf8.parse(JSON.stringify(payload)))
+  return `${INVOICE_PAYLOAD_PREFIX}${body}.${signPayload(body, INVOICE_SECRET)}`
+}
+
+export function decodeInvoicePayload(encoded: string): InvoicePayload {
+  const [body, signature] = encoded.trim().replace(INVOICE_PAYLOAD_PREFIX, '').split('.')
+  if (!body || !signature || !verifyPayload(body, signature, INVOICE_SECRET)) {
+    throw new FinanceError('Invalid invoice code')
+  }
+  return JSON.parse(CryptoJS.enc.Utf8.stringify(CryptoJS.enc.Base64url.parse(body)))
+}
+
+export function renderInvoiceQRCode(payload: string): Promise<string> {
+  return QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 1, width: 256 })
+}
+
+// Open invoices past their expiry are marked expired the first time they are looked at
+async function refreshStatus(tx: Tx, invoice: Invoice): Promise<Invoice> {
+  if (invoice.status === 'open' && invoice.expiresAt <= new Date()) {
+    return tx.invoice.update({ where: { id: invoice.id }, data: { status: 'expired' } })
+  }
+  return invoice
+}
+
+export function serializeInvoice(invoice: Invoice) {
+  return {
+    id: invoice.id,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    memo: invoice.memo,
+    status: invoice.status as InvoiceStatus,
+    expiresAt: invoice.expiresAt.toISOString(),
+    paidAt: invoice.paidAt?.toISOString() ?? null,
+    createdAt: invoice.createdAt.toISOString()
+  }
+}
+
+export async function enableMerchantMode(tx: Tx, userId: string, merchantName: string) {
+  if (!merchantName?.trim()) {
+    throw new FinanceError('Merchant name is required')
+  }
+  const account = await getOrCreateAccount(tx, userId)
+  return tx.account.update({ where: { id: account.id }, data: { merchantName: merchantName.trim() } })
+}
+
+async function getMerchantAccount(tx: Tx, userId: string) {
+  const account = await tx.account.findUnique({ where: { userId } })
+  if (!account?.merchantName) {
+    throw new FinanceError('Merchant mode is not enabled for this account', 403)
+  }
+  return { ...account, merchantName: account.merchantName }
+}
+
+export async function createInvoice(tx: Tx, userId: string, input: InvoiceInput) {
+  const merchant = await getMerchantAccount(tx, userId)
+  const currency = input.currency ?? 'G$'
+
+  if (!(input.amount > 0)) {
+    throw new FinanceError('Invoice amount must be positive')
+  }
+  if (!isSupportedCurrency(currency)) {
+    throw new FinanceError(`Unsupported currency ${currency}`)
+  }
+
+  const expiresInMinutes = input.expiresInMinutes ?? INVOICE_EXPIRY_MINUTES
+  if (!(expiresInMinutes > 0)) {
+    throw new FinanceError('Invoice expiry must be in the future')
+  }
+
+  const invoice = await tx.invoice.create({
+    data: {
+      id: createId('invoice'),
+      merchantAccountId: merchant.id,
+      amount: input.amount,
+      currency,
+      memo: input.memo?.trim() || null,
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000)
+    }
+  })
+
+  return { invoice, payload: encodeInvoicePayload(invoice, merchant.merchantName) }
+}
+
+// Look an invoice up from its scanned payload, for the payer's confirmation screen
+export async function getInvoiceByPayload(tx: Tx, encoded: string) {
+  const payload = decodeInvoicePayload(encoded)
+  const invoice = await tx.invoice.findUnique({ where: { id: payload.id } })
+  if (!invoice) {
+    throw new FinanceError('Invoice not found', 404)
+  }
+  return { invoice: await refreshStatus(tx, invoice), merchantName: payload.merchant }
+}
+
+// Settle an invoice through the normal payment flow, so fees and spending limits apply
+export async function payInvoice(tx: Tx, userId: string, encoded: string) {
+  const { invoice, merchantName } = await getInvoiceByPayload(tx, encoded)
+
+  if (invoice.status !== 'open') {
+    throw new FinanceError(`Invoice is ${invoice.status}`, 409)
+  }
+
+  const payer = await getOrCreateAccount(tx, userId)
+  if (payer.id === invoice.merchantAccountId) {
+    throw new FinanceError('You cannot pay your own invoice')
+  }
+
+  // Guard against two payers racing for the same invoice
+  const claimed = await tx.invoice.updateMany({
+    where: { id: invoice.id, status: 'open' },
+    data: { status: 'paid', paidByAccountId: payer.id, paidAt: new Date() }
+  })
+  if (claimed.count === 0) {
+    throw new FinanceError('Invoice was already paid', 409)
+  }
+
+  const merchant = await tx.account.findUniqueOrThrow({ where: { id: invoice.merchantAccountId } })
+  const payment = await sendPayment(tx, userId, {
+    recipient: merchant.userId,
+    amount: invoice.amount,
+    currency: invoice.currency
+  })
+
+  const paid = await tx.invoice.update({
+    where: { id: invoice.id },
+    data: { transactionId: payment.transaction.id }
+  })
+
+  return { invoice: paid, payment, merchantName, merchantUserId: merchant.userId }
+}
+
+export async function cancelInvoice(tx: Tx, userId: string, invoiceId: string) {
+  const merchant = await getMerchantAccount(tx, userId)
+  const cancelled = await tx.invoice.updateMany({
+    where: { id: invoiceId, merchantAccountId: merchant.id, status: 'open' },
+    data: { status: 'cancelled' }
+  })
+  if (cancelled.count === 0) {
+    throw new FinanceError('Open invoice not found', 404)
+  }
+}
+
+export async function getInvoices(tx: Tx, userId: string, status?: string) {
+  const merchant = await getMerchantAccount(tx, userId)
+  const invoices = await tx.invoice.findMany({
+    where: { merchantAccountId: merchant.id, status },
+    orderBy: { createdAt: 'desc' },
+    take: 50
+  })
+  return Promise.all(invoices.map(async (invoice) => {
+    const current = await refreshStatus(tx, invoice)
+    return {
+      ...serializeInvoice(current),
+      payload: current.status === 'open' ? encodeInvoicePayload(current, merchant.merchantName) : null
+    }
+  }))
+}
+
+// Invoices paid on one UTC day, totalled per currency
+export async function getSettlementReport(tx: Tx, userId: string, day: Date) {
+  const merchant = await getMerchantAccount(tx, userId)
+  const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()))
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+
+  const paid = await tx.invoice.findMany({
+    where: { merchantAccountId: merchant.id, status: 'paid', paidAt: { gte: start, lt: end } },
+    orderBy: { paidAt: 'asc' }
+  })
+  const created = await tx.invoice.groupBy({
+    by: ['status'],
+    where: { merchantAccountId: merchant.id, createdAt: { gte: start, lt: end } },
+    _count: { _all: true }
+  })
+
+  const totals: Record<string, { count: number, gross: number }> = {}
+  for (const invoice of paid) {
+    totals[invoice.currency] ??= { count: 0, gross: 0 }
+    totals[invoice.currency].count++
+    totals[invoice.currency].gross += invoice.amount
+  }
+
+  return {
+    merchantName: merchant.merchantName,
+    date: start.toISOString().slice(0, 10),
+    totals,
+    invoicesCreated: Object.fromEntries(created.map(group => [group.status, group._count._all])),
+    invoices: paid.map(serializeInvoice)
+  }
+}
@@ -0,0 +1,147 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { FinanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Amounts closer than this are treated as equal when checking that entries balance
+const BALANCE_TOLERANCE = 1e-9
+// Float sums across the whole book drift a little further than a single entry
+const TRIAL_BALANCE_TOLERANCE = 1e-6
+
+// Ledger accounts are addressed by code: `<kind>` for community-wide accounts,
+// `<kind>:<accountId>` for accounts that belong to a member.
+export const LEDGER_ACCOUNTS = {
+  UBI_RESERVE: 'ubi_reserve',
+  FEE_REVENUE: 'fee_revenue',
+  INTEREST_EXPENSE: 'interest_expense',
+  SETTLEMENT: 'settlement',
+  PAYMENT_ESCROW: 'payment_escrow',
+  SWAP_POOL: 'swap_pool',
+  LOAN_POOL: 'loan_pool',
+  COMMUNITY_TREASURY: 'community_treasury'
+} as const
+
+export function walletAccount(accountId: string): string {
+  return `wallet:${accountId}`
+}
+
+export function savingsAccount(accountId: string): string {
+  return `savings_pool:${accountId}`
+}
+
+// Pot of a savings circle; owned by the circle rather than a member
+export function circlePoolAccount(circleId: string): string {
+  return `circle_pool:${circleId}`
+}
+
+// Contributions to a community goal, held until released to its owner or refunded
+export function goalEscrowAccount(goalId: string): string {
+  return `goal_escrow:${goalId}`
+}
+
+// Treasury funds set aside for a milestone proposal's unreleased tranches
+export function proposalEscrowAccount(proposalId: string): string {
+  return `proposal_escrow:${proposalId}`
+}
+
+export interface JournalLineInput {
+  account: string
+  debit?: number
+  credit?: number
+}
+
+export interface JournalEntryInput {
+  id: string
+  type: string
+  description?: string
+  reference?: string
+  currency: string
+  lines: JournalLineInput[]
+}
+
+// Post a journal entry, rejecting it unless its debits and credits are equal
+export async function postJournalEntry(tx: Tx, entry: JournalEntryInput) {
+  const totalDebits = entry.lines.reduce((sum, line) => sum + (line.debit ?? 0), 0)
+  const totalCredits = entry.lines.reduce((sum, line) => sum + (line.credit ?? 0), 0)
+
+  if (entry.lines.length < 2 || Math.abs(totalDebits - totalCredits) > BALANCE_TOLERANCE) {
+    throw new FinanceError(`Unbalanced journal entry: debits ${totalDebits}, credits ${totalCredits}`, 500)
+  }
+
+  for (const line of entry.lines) {
+    if ((line.debit ?? 0) < 0 || (line.credit ?? 0) < 0) {
+      throw new FinanceError('Journal lines cannot carry negative amounts', 500)
+    }
+
+    const [kind, ownerId] = line.account.split(':')
+    await tx.ledgerAccount.upsert({
+      where: { code: line.account },
+      update: {},
+      create: { code: line.account, kind, ownerId }
+    })
+  }
+
+  return tx.journalEntry.create({
+    data: {
+      id: entry.id,
+      type: entry.type,
+      description: entry.description,
+      reference: entry.reference,
+      lines: {
+        create: entry.lines.map(line => ({
+          accountCode: line.account,
+          currency: entry.currency,
+          debit: line.debit ?? 0,
+          credit: line.credit ?? 0
+        }))
+      }
+    }
+  })
+}
+
+// Net credit balance of a ledger account (credits minus debits) in one currency
+export async function getLedgerBalance(tx: Tx, account: string, currency: string): Promise<number> {
+  const totals = await tx.journalLine.aggregate({
+    where: { accountCode: account, currency },
+    _sum: { debit: true, credit: true }
+  })
+
+  return (totals._sum.credit ?? 0) - (totals._sum.debit ?? 0)
+}
+
+// Debits and credits per ledger account; a healthy book nets to zero in every currency
+export async function getTrialBalance(client: Tx | PrismaClient) {
+  const grouped = await client.journalLine.groupBy({
+    by: ['accountCode', 'currency'],
+    _sum: { debit: true, credit: true }
+  })
+
+  const accounts = grouped
+    .map(row => {
+      const debits = row._sum.debit ?? 0
+      const credits = row._sum.credit ?? 0
+      return {
+        account: row.accountCode,
+        currency: row.currency,
+        debits,
+        credits,
+        balance: credits - debits
+      }
+    })
+    .sort((a, b) => a.account.localeCompare(b.account))
+
+  const totals: Record<string, { debits: number; credits: number; difference: number }> = {}
+  for (const row of accounts) {
+    const total = totals[row.currency] ?? { debits: 0, credits: 0, difference: 0 }
+    total.debits += row.debits
+    total.credits += row.credits
+    total.difference = total.debits - total.credits
+    totals[row.currency] = total
+  }
+
+  return {
+    accounts,
+    totals,
+    balanced: Object.values(totals).every(total => Math.abs(total.difference) <= TRIAL_BALANCE_TOLERANCE)
+  }
+}
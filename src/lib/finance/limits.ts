@@ -0,0 +1,179 @@
+import type { Account, Prisma } from '@prisma/client'
+import { FinanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+export const COMMUNITY_SCOPE = 'community'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Reason codes returned with rejected payments
+export type SpendingLimitCode =
+  | 'WALLET_NOT_CONNECTED'
+  | 'WALLET_COOLDOWN'
+  | 'PER_TRANSACTION_LIMIT'
+  | 'DAILY_LIMIT'
+  | 'WEEKLY_LIMIT'
+  | 'NEW_RECIPIENT_LIMIT'
+
+export interface SpendingRules {
+  perTransactionLimit: number | null
+  dailyLimit: number | null
+  weeklyLimit: number | null
+  newRecipientsPerDay: number | null
+  connectCooldownHours: number | null
+}
+
+// Applied until an admin records a community rule; null means unlimited
+export const DEFAULT_SPENDING_RULES: SpendingRules = {
+  perTransactionLimit: 1000,
+  dailyLimit: 2000,
+  weeklyLimit: 5000,
+  newRecipientsPerDay: 10,
+  connectCooldownHours: null
+}
+
+const RULE_FIELDS = Object.keys(DEFAULT_SPENDING_RULES) as (keyof SpendingRules)[]
+
+function limitError(code: SpendingLimitCode, message: string, details: Record<string, unknown> = {}) {
+  return new FinanceError(message, 403, { code, ...details })
+}
+
+// Member override first, then the community rule, then the defaults, field by field
+export async function getEffectiveRules(tx: Tx, accountId: string | null, currency: string): Promise<SpendingRules> {
+  const [community, member] = await Promise.all([
+    tx.spendingLimit.findUnique({ where: { scope_currency: { scope: COMMUNITY_SCOPE, currency } } }),
+    accountId ? tx.spendingLimit.findUnique({ where: { scope_currency: { scope: accountId, currency } } }) : null
+  ])
+
+  const rules = { ...DEFAULT_SPENDING_RULES }
+  for (const field of RULE_FIELDS) {
+    if (community && community[field] !== null) rules[field] = community[field]
+    if (member && member[field] !== null) rules[field] = member[field]
+  }
+  return rules
+}
+
+// Payments that still count against the limits: refunded links gave the money back
+async function sentSince(tx: Tx, accountId: string, currency: string, since: Date) {
+  const result = await tx.transaction.aggregate({
+    where: { accountId, currency, type: 'payment', status: { not: 'refunded' }, createdAt: { gte: since } },
+    _sum: { amount: true }
+  })
+  return result._sum.amount ?? 0
+}
+
+async function hasPaidBefore(tx: Tx, accountId: string, recipient: string, before: Date) {
+  return !!await tx.transaction.findFirst({
+    where: { accountId, type: 'payment', recipient, createdAt: { lt: before } }
+  })
+}
+
+// Distinct recipients first paid within the last day
+async function newRecipientsSince(tx: Tx, accountId: string, since: Date) {
+  const recent = await tx.transaction.findMany({
+    where: { accountId, type: 'payment', recipient: { not: null }, createdAt: { gte: since } },
+    distinct: ['recipient'],
+    select: { recipient: true }
+  })
+
+  const recipients: string[] = []
+  for (const { recipient } of recent) {
+    if (recipient && !await hasPaidBefore(tx, accountId, recipient, since)) {
+      recipients.push(recipient)
+    }
+  }
+  return recipients
+}
+
+export async function getSpendingUsage(tx: Tx, account: Account, currency: string, now = new Date()) {
+  const rules = await getEffectiveRules(tx, account.id, currency)
+  const dayStart = new Date(now.getTime() - DAY_MS)
+
+  return {
+    rules,
+    sentToday: await sentSince(tx, account.id, currency, dayStart),
+    sentThisWeek: await sentSince(tx, account.id, currency, new Date(now.getTime() - 7 * DAY_MS)),
+    newRecipientsToday: (await newRecipientsSince(tx, account.id, dayStart)).length,
+    walletConnected: account.connectedAt !== null,
+    cooldownEndsAt: account.connectedAt && rules.connectCooldownHours
+      ? new Date(account.connectedAt.getTime() + rules.connectCooldownHours * HOUR_MS)
+      : null
+  }
+}
+
+// Throw a FinanceError with a reason code if this payment would break any rule.
+// Daily and weekly windows are rolling, counted back from now.
+export async function checkSpendingLimits(
+  tx: Tx,
+  account: Account,
+  payment: { recipient: string, amount: number, currency: string },
+  now = new Date()
+) {
+  const { recipient, amount, currency } = payment
+  const usage = await getSpendingUsage(tx, account, currency, now)
+  const { rules } = usage
+
+  // Accounts opened by a claim or a payment have no wallet yet, so the cool-down has not started
+  if (rules.connectCooldownHours && !usage.walletConnected) {
+    throw limitError('WALLET_NOT_CONNECTED', 'Connect your wallet before sending payments')
+  }
+  if (usage.cooldownEndsAt && usage.cooldownEndsAt > now) {
+    throw limitError('WALLET_COOLDOWN', 'Payments are paused for newly connected wallets', {
+      availableAt: usage.cooldownEndsAt.toISOString()
+    })
+  }
+  if (rules.perTransactionLimit !== null && amount > rules.perTransactionLimit) {
+    throw limitError('PER_TRANSACTION_LIMIT', `Payments are limited to ${currency} ${rules.perTransactionLimit} each`, {
+      limit: rules.perTransactionLimit
+    })
+  }
+  if (rules.dailyLimit !== null && usage.sentToday + amount > rules.dailyLimit) {
+    throw limitError('DAILY_LIMIT', `Daily sending limit of ${currency} ${rules.dailyLimit} reached`, {
+      limit: rules.dailyLimit,
+      remaining: Math.max(0, rules.dailyLimit - usage.sentToday)
+    })
+  }
+  if (rules.weeklyLimit !== null && usage.sentThisWeek + amount > rules.weeklyLimit) {
+    throw limitError('WEEKLY_LIMIT', `Weekly sending limit of ${currency} ${rules.weeklyLimit} reached`, {
+      limit: rules.weeklyLimit,
+      remaining: Math.max(0, rules.weeklyLimit - usage.sentThisWeek)
+    })
+  }
+  if (
+    rules.newRecipientsPerDay !== null &&
+    usage.newRecipientsToday >= rules.newRecipientsPerDay &&
+    !await hasPaidBefore(tx, account.id, recipient, now)
+  ) {
+    throw limitError('NEW_RECIPIENT_LIMIT', `You can pay at most ${rules.newRecipientsPerDay} new recipients per day`, {
+      limit: rules.newRecipientsPerDay
+    })
+  }
+}
+
+export type SpendingRulesInput = Partial<SpendingRules> & { currency?: string }
+
+// Record the community rule (scope "community") or a member override (scope = account id)
+export async function setSpendingLimits(tx: Tx, scope: string, input: SpendingRulesInput, updatedBy: string) {
+  const currency = input.currency ?? 'G$'
+  const rules: Partial<SpendingRules> = {}
+
+  for (const field of RULE_FIELDS) {
+    const value = input[field]
+    if (value === undefined) continue
+    if (value !== null && !(value >= 0)) {
+      throw new FinanceError(`${field} must be zero or positive`)
+    }
+    if (field === 'newRecipientsPerDay' && value !== null && !Number.isInteger(value)) {
+      throw new FinanceError('newRecipientsPerDay must be a whole number')
+    }
+    rules[field] = value
+  }
+
+  return tx.spendingLimit.upsert({
+    where: { scope_currency: { scope, currency } },
+    update: { ...rules, updatedBy },
+    create: { scope, currency, ...rules, updatedBy }
+  })
+}
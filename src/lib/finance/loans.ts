@@ -0,0 +1,460 @@
+import type { Loan, LoanInstallment, Prisma, PrismaClient } from '@prisma/client'
+import { humanProtocol } from '@/lib/integrations/human-protocol'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { LEDGER_ACCOUNTS, getLedgerBalance, postJournalEntry, walletAccount } from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+// Community lending terms, overridable per deployment
+export const LOAN_INTEREST_RATE = Number(process.env.LOAN_INTEREST_RATE) || 12 // APR in percent
+export const LOAN_MAX_TERM_MONTHS = 24
+// Loans up to this amount are approved without a vote for members with enough reputation.
+// Every loan repaid in full raises the limit by the same amount again.
+export const AUTO_APPROVE_BASE_LIMIT = Number(process.env.LOAN_AUTO_APPROVE_LIMIT) || 100
+export const AUTO_APPROVE_MIN_REPUTATION = Number(process.env.LOAN_AUTO_APPROVE_MIN_REPUTATION) || 50
+export const LOAN_GRACE_DAYS = 3
+export const LOAN_DEFAULT_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Reputation impact of loan events, on the passport's 0-100 scale
+const REPUTATION_IMPACT = {
+  installment_on_time: 1,
+  installment_late: -5,
+  loan_repaid: 5,
+  loan_defaulted: -20
+} as const
+
+export interface ReputationChange {
+  passportId: string
+  action: keyof typeof REPUTATION_IMPACT
+  impact: number
+}
+
+export interface LoanRequestInput {
+  amount: number
+  termMonths: number
+  purpose?: string
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8
+}
+
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1,
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()))
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(date.getUTCDate(), daysInMonth))
+  return target
+}
+
+// Equal monthly payments (annuity). The last installment absorbs rounding.
+export function buildAmortizationSchedule(principal: number, annualRate: number, termMonths: number, start: Date) {
+  const monthlyRate = annualRate / 100 / 12
+  const payment = monthlyRate === 0
+    ? principal / termMonths
+    : principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths))
+
+  let balance = principal
+  return Array.from({ length: termMonths }, (_, index) => {
+    const interest = roundAmount(balance * monthlyRate)
+    const last = index === termMonths - 1
+    const principalPart = last ? roundAmount(balance) : roundAmount(payment - interest)
+    balance = roundAmount(balance - principalPart)
+
+    return {
+      number: index + 1,
+      dueDate: addMonths(start, index + 1),
+      principal: principalPart,
+      interest,
+      amountDue: roundAmount(principalPart + interest)
+    }
+  })
+}
+
+// Move the borrower's local reputation and remember the change for the Human Protocol sync
+async function adjustReputation(
+  tx: Tx,
+  accountId: string,
+  action: ReputationChange['action'],
+  changes: ReputationChange[]
+) {
+  const account = await tx.account.findUniqueOrThrow({ where: { id: accountId } })
+  const passport = await tx.humanPassport.findUnique({ where: { userId: account.userId } })
+  if (!passport) return
+
+  const impact = REPUTATION_IMPACT[action]
+  await tx.humanPassport.update({
+    where: { id: passport.id },
+    data: { reputationScore: Math.min(100, Math.max(0, passport.reputationScore + impact)) }
+  })
+  changes.push({ passportId: passport.id, action, impact })
+}
+
+// Push reputation changes to Human Protocol once the database work is committed
+export function publishReputationChanges(changes: ReputationChange[]) {
+  return Promise.allSettled(changes.map(change =>
+    humanProtocol.updateReputation(change.passportId, change.action, change.impact)
+  ))
+}
+
+// Reputation plus repayment history, used to decide on automatic approval
+export async function getCreditProfile(tx: Tx, accountId: string) {
+  const account = await tx.account.findUniqueOrThrow({ where: { id: accountId } })
+  const passport = await tx.humanPassport.findUnique({ where: { userId: account.userId } })
+  const loans = await tx.loan.findMany({ where: { accountId }, select: { status: true } })
+  const lateInstallments = await tx.loanInstallment.count({ where: { loan: { accountId }, wasLate: true } })
+  const repaidLoans = loans.filter(loan => loan.status === 'repaid').length
+
+  return {
+    verified: !!passport,
+    reputationScore: passport?.reputationScore ?? 0,
+    repaidLoans,
+    lateInstallments,
+    defaulted: loans.some(loan => loan.status === 'defaulted'),
+    hasOpenLoan: loans.some(loan => loan.status === 'pending' || loan.status === 'active'),
+    autoApprovalLimit: AUTO_APPROVE_BASE_LIMIT * (1 + repaidLoans)
+  }
+}
+
+// Request a loan. Small loans to members in good standing are disbursed at once;
+// everything else waits for a governance vote (the caller opens the proposal).
+export async function requestLoan(tx: Tx, userId: string, input: LoanRequestInput, now = new Date()) {
+  if (!(input.amount > 0)) {
+    throw new FinanceError('Loan amount must be positive')
+  }
+  if (!Number.isInteger(input.termMonths) || input.termMonths < 1 || input.termMonths > LOAN_MAX_TERM_MONTHS) {
+    throw new FinanceError(`Loan term must be between 1 and ${LOAN_MAX_TERM_MONTHS} months`)
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  const profile = await getCreditProfile(tx, account.id)
+
+  if (!profile.verified) {
+    throw new FinanceError('Human Passport verification required to borrow', 403)
+  }
+  if (profile.hasOpenLoan) {
+    throw new FinanceError('You already have an open loan', 409)
+  }
+
+  const automatic = !profile.defaulted &&
+    profile.lateInstallments === 0 &&
+    profile.reputationScore >= AUTO_APPROVE_MIN_REPUTATION &&
+    input.amount <= profile.autoApprovalLimit
+
+  const loan = await tx.loan.create({
+    data: {
+      id: createId('loan'),
+      accountId: account.id,
+      principal: input.amount,
+      interestRate: LOAN_INTEREST_RATE,
+      termMonths: input.termMonths,
+      purpose: input.purpose,
+      approvalMethod: automatic ? 'automatic' : 'governance'
+    }
+  })
+
+  if (automatic) {
+    return { loan: await disburseLoan(tx, loan.id, now), requiresVote: false }
+  }
+  return { loan, requiresVote: true }
+}
+
+// Pay out an approved loan from the pool and lay down its repayment schedule
+export async function disburseLoan(tx: Tx, loanId: string, now = new Date()) {
+  const loan = await tx.loan.findUnique({ where: { id: loanId } })
+  if (!loan) {
+    throw new FinanceError('Loan not found', 404)
+  }
+  if (loan.status !== 'pending') {
+    throw new FinanceError(`Loan is ${loan.status}`, 409)
+  }
+  if (await getLedgerBalance(tx, LEDGER_ACCOUNTS.LOAN_POOL, loan.currency) < loan.principal) {
+    throw new FinanceError('The loan pool does not have enough funds for this loan', 409)
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'loan_disbursement',
+    description: `Disbursement of loan ${loan.id}`,
+    reference: loan.id,
+    currency: loan.currency,
+    lines: [
+      { account: LEDGER_ACCOUNTS.LOAN_POOL, debit: loan.principal },
+      { account: walletAccount(loan.accountId), credit: loan.principal }
+    ]
+  })
+
+  await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: loan.accountId,
+      type: 'loan_disbursement',
+      amount: loan.principal,
+      currency: loan.currency,
+      interestRate: loan.interestRate,
+      journalEntryId: entry.id
+    }
+  })
+
+  await tx.loanInstallment.createMany({
+    data: buildAmortizationSchedule(loan.principal, loan.interestRate, loan.termMonths, now)
+      .map(installment => ({ loanId: loan.id, ...installment }))
+  })
+
+  return tx.loan.update({ where: { id: loan.id }, data: { status: 'active', disbursedAt: now } })
+}
+
+export async function rejectLoan(tx: Tx, loanId: string) {
+  const rejected = await tx.loan.updateMany({
+    where: { id: loanId, status: 'pending' },
+    data: { status: 'rejected', closedAt: new Date() }
+  })
+  if (rejected.count === 0) {
+    throw new FinanceError('Loan is not awaiting approval', 409)
+  }
+}
+
+function remaining(installment: LoanInstallment): number {
+  return roundAmount(installment.amountDue - installment.amountPaid)
+}
+
+// Pay toward a loan, oldest installment first. Without an amount the next installment is paid.
+export async function repayLoan(tx: Tx, userId: string, loanId: string, amount?: number, now = new Date()) {
+  const account = await getOrCreateAccount(tx, userId)
+  const loan = await tx.loan.findUnique({
+    where: { id: loanId },
+    include: { installments: { where: { status: { not: 'paid' } }, orderBy: { number: 'asc' } } }
+  })
+
+  if (!loan || loan.accountId !== account.id) {
+    throw new FinanceError('Loan not found', 404)
+  }
+  if (loan.status !== 'active' && loan.status !== 'defaulted') {
+    throw new FinanceError(`Loan is ${loan.status}`, 409)
+  }
+
+  const outstanding = roundAmount(loan.installments.reduce((sum, installment) => sum + remaining(installment), 0))
+  const payment = roundAmount(amount ?? remaining(loan.installments[0]))
+  if (!(payment > 0) || payment > outstanding) {
+    throw new FinanceError(`Repayment must be between 0 and the outstanding ${outstanding.toFixed(2)}`)
+  }
+  if (await getBalance(tx, account.id, loan.currency) < payment) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'loan_repayment',
+    description: `Repayment of loan ${loan.id}`,
+    reference: loan.id,
+    currency: loan.currency,
+    lines: [
+      { account: walletAccount(account.id), debit: payment },
+      { account: LEDGER_ACCOUNTS.LOAN_POOL, credit: payment }
+    ]
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'loan_repayment',
+      amount: payment,
+      currency: loan.currency,
+      journalEntryId: entry.id
+    }
+  })
+
+  const reputationChanges: ReputationChange[] = []
+  let left = payment
+  for (const installment of loan.installments) {
+    if (left <= 0) break
+    const applied = Math.min(left, remaining(installment))
+    left = roundAmount(left - applied)
+
+    const paidInFull = roundAmount(installment.amountPaid + applied) >= installment.amountDue
+    const late = installment.wasLate || now.getTime() > installment.dueDate.getTime() + LOAN_GRACE_DAYS * DAY_MS
+    await tx.loanInstallment.update({
+      where: { id: installment.id },
+      data: {
+        amountPaid: roundAmount(installment.amountPaid + applied),
+        status: paidInFull ? 'paid' : installment.status,
+        wasLate: late,
+        paidAt: paidInFull ? now : null
+      }
+    })
+    if (paidInFull && !late) {
+      await adjustReputation(tx, account.id, 'installment_on_time', reputationChanges)
+    }
+  }
+
+  let updatedLoan: Loan = loan
+  if (roundAmount(outstanding - payment) <= 0) {
+    updatedLoan = await tx.loan.update({ where: { id: loan.id }, data: { status: 'repaid', closedAt: now } })
+    await adjustReputation(tx, account.id, 'loan_repaid', reputationChanges)
+  }
+
+  return {
+    transaction,
+    loan: updatedLoan,
+    outstanding: roundAmount(outstanding - payment),
+    reputationChanges
+  }
+}
+
+// Flag installments unpaid past the grace period and default loans left overdue too long
+export async function flagLateInstallments(client: PrismaClient, now = new Date()) {
+  const reputationChanges: ReputationChange[] = []
+
+  const overdue = await client.loanInstallment.findMany({
+    where: {
+      status: 'pending',
+      dueDate: { lt: new Date(now.getTime() - LOAN_GRACE_DAYS * DAY_MS) },
+      loan: { status: 'active' }
+    },
+    include: { loan: true }
+  })
+
+  for (const installment of overdue) {
+    await client.$transaction(async (tx) => {
+      await tx.loanInstallment.update({ where: { id: installment.id }, data: { status: 'overdue', wasLate: true } })
+      await adjustReputation(tx, installment.loan.accountId, 'installment_late', reputationChanges)
+    })
+  }
+
+  const defaulting = await client.loan.findMany({
+    where: {
+      status: 'active',
+      installments: { some: { status: 'overdue', dueDate: { lt: new Date(now.getTime() - LOAN_DEFAULT_DAYS * DAY_MS) } } }
+    }
+  })
+
+  for (const loan of defaulting) {
+    await client.$transaction(async (tx) => {
+      await tx.loan.update({ where: { id: loan.id }, data: { status: 'defaulted' } })
+      await adjustReputation(tx, loan.accountId, 'loan_defaulted', reputationChanges)
+    })
+  }
+
+  await publishReputationChanges(reputationChanges)
+  return { flagged: overdue.length, defaulted: defaulting.length }
+}
+
+// Lenders put G$ into the community pool that loans are paid out of
+export async function fundLoanPool(tx: Tx, userId: string, amount: number, currency = 'G$') {
+  if (!(amount > 0)) {
+    throw new FinanceError('Amount must be positive')
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  if (await getBalance(tx, account.id, currency) < amount) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'loan_pool_deposit',
+    currency,
+    lines: [
+      { account: walletAccount(account.id), debit: amount },
+      { account: LEDGER_ACCOUNTS.LOAN_POOL, credit: amount }
+    ]
+  })
+
+  return tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'loan_pool_deposit',
+      amount,
+      currency,
+      journalEntryId: entry.id
+    }
+  })
+}
+
+function serializeLoan(loan: Loan & { installments: LoanInstallment[] }) {
+  const unpaid = loan.installments.filter(installment => installment.status !== 'paid')
+  return {
+    ...loan,
+    disbursedAt: loan.disbursedAt?.toISOString() ?? null,
+    closedAt: loan.closedAt?.toISOString() ?? null,
+    createdAt: loan.createdAt.toISOString(),
+    updatedAt: loan.updatedAt.toISOString(),
+    outstanding: roundAmount(unpaid.reduce((sum, installment) => sum + remaining(installment), 0)),
+    nextInstallment: unpaid[0] ? { number: unpaid[0].number, dueDate: unpaid[0].dueDate.toISOString(), amount: remaining(unpaid[0]) } : null,
+    installments: loan.installments.map(installment => ({
+      number: installment.number,
+      dueDate: installment.dueDate.toISOString(),
+      principal: installment.principal,
+      interest: installment.interest,
+      amountDue: installment.amountDue,
+      amountPaid: installment.amountPaid,
+      status: installment.status,
+      wasLate: installment.wasLate,
+      paidAt: installment.paidAt?.toISOString() ?? null
+    }))
+  }
+}
+
+export async function getLoans(tx: Tx, userId: string) {
+  const loans = await tx.loan.findMany({
+    where: { account: { userId } },
+    include: { installments: { orderBy: { number: 'asc' } } },
+    orderBy: { createdAt: 'desc' }
+  })
+  return loans.map(serializeLoan)
+}
+
+// What the pool holds, what is lent out and how much of that is at risk
+export async function getLoanPoolExposure(tx: Tx, userId?: string | null, currency = 'G$') {
+  const loans = await tx.loan.findMany({
+    where: { currency, status: { in: ['pending', 'active', 'defaulted'] } },
+    include: { installments: { where: { status: { not: 'paid' } } } }
+  })
+
+  let outstandingPrincipal = 0
+  let outstandingInterest = 0
+  let overdueAmount = 0
+  let defaultedPrincipal = 0
+  for (const loan of loans) {
+    for (const installment of loan.installments) {
+      const unpaidShare = 1 - installment.amountPaid / installment.amountDue
+      outstandingPrincipal += installment.principal * unpaidShare
+      outstandingInterest += installment.interest * unpaidShare
+      if (installment.status === 'overdue') overdueAmount += remaining(installment)
+      if (loan.status === 'defaulted') defaultedPrincipal += installment.principal * unpaidShare
+    }
+  }
+
+  const available = await getLedgerBalance(tx, LEDGER_ACCOUNTS.LOAN_POOL, currency)
+  const deposits = await tx.transaction.aggregate({ where: { type: 'loan_pool_deposit', currency }, _sum: { amount: true } })
+  const myDeposits = userId
+    ? await tx.transaction.aggregate({
+        where: { type: 'loan_pool_deposit', currency, account: { userId } },
+        _sum: { amount: true }
+      })
+    : null
+  const pending = loans.filter(loan => loan.status === 'pending')
+
+  return {
+    currency,
+    available,
+    totalDeposited: deposits._sum.amount ?? 0,
+    yourDeposits: myDeposits?._sum.amount ?? 0,
+    activeLoans: loans.filter(loan => loan.status === 'active').length,
+    outstandingPrincipal: roundAmount(outstandingPrincipal),
+    outstandingInterest: roundAmount(outstandingInterest),
+    overdueAmount: roundAmount(overdueAmount),
+    defaultedPrincipal: roundAmount(defaultedPrincipal),
+    pendingRequests: pending.length,
+    pendingAmount: roundAmount(pending.reduce((sum, loan) => sum + loan.principal, 0)),
+    utilization: outstandingPrincipal + available > 0
+      ? roundAmount(outstandingPrincipal / (outstandingPrincipal + available))
+      : 0
+  }
+}
@@ -0,0 +1,223 @@
+import type { PaymentLink, Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { LEDGER_ACCOUNTS, postJournalEntry, walletAccount, type JournalLineInput } from './ledger'
+import { signPayload, verifyPayload } from './signing'
+
+type Tx = Prisma.TransactionClient
+
+export type PaymentLinkStatus = 'pending' | 'claimed' | 'expired' | 'refunded'
+
+// How long a link stays claimable before the sender can take the funds back
+export const PAYMENT_LINK_EXPIRY_HOURS = Number(process.env.PAYMENT_LINK_EXPIRY_HOURS) || 7 * 24
+
+const LINK_SECRET = 'PAYMENT_LINK_SECRET'
+
+type SignedFields = Pick<PaymentLink, 'id' | 'amount' | 'currency' | 'expiresAt'>
+
+function linkPayload(link: SignedFields): string {
+  return `${link.id}:${link.amount}:${link.currency}:${link.expiresAt.toISOString()}`
+}
+
+// Claim codes are `<linkId>.<signature>`; only the holder of the full code can claim
+export function buildClaimCode(link: SignedFields): string {
+  return `${link.id}.${signPayload(linkPayload(link), LINK_SECRET)}`
+}
+
+// Resolve a claim code to its link, rejecting codes whose signature does not match
+async function findLinkByCode(tx: Tx, code: string): Promise<PaymentLink> {
+  const [id, signature] = code.split('.')
+  const link = id && signature ? await tx.paymentLink.findUnique({ where: { id } }) : null
+
+  if (!link || !verifyPayload(linkPayload(link), signature, LINK_SECRET)) {
+    throw new FinanceError('Payment link not found', 404)
+  }
+
+  return link
+}
+
+// Expiry is worked out when a link is read, so viewing a link never writes. Links stored
+// as pending past their expiry are expired.
+export function linkStatus(link: PaymentLink, now = new Date()): PaymentLinkStatus {
+  if (link.status === 'pending' && link.expiresAt <= now) {
+    return 'expired'
+  }
+  return link.status as PaymentLinkStatus
+}
+
+export function serializePaymentLink(link: PaymentLink) {
+  return {
+    amount: link.amount,
+    currency: link.currency,
+    status: linkStatus(link),
+    expiresAt: link.expiresAt.toISOString(),
+    claimedAt: link.claimedAt?.toISOString() ?? null,
+    refundedAt: link.refundedAt?.toISOString() ?? null,
+    createdAt: link.createdAt.toISOString()
+  }
+}
+
+// Move funds from the sender's wallet into escrow behind a new link
+export async function createPaymentLink(
+  tx: Tx,
+  accountId: string,
+  amount: number,
+  fee: number,
+  currency: string,
+  expiresInHours = PAYMENT_LINK_EXPIRY_HOURS
+) {
+  if (await getBalance(tx, accountId, currency) < amount + fee) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const link = await tx.paymentLink.create({
+    data: {
+      id: createId('paymentLink'),
+      senderAccountId: accountId,
+      amount,
+      currency,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+    }
+  })
+
+  const lines: JournalLineInput[] = [
+    { account: walletAccount(accountId), debit: amount + fee },
+    { account: LEDGER_ACCOUNTS.PAYMENT_ESCROW, credit: amount }
+  ]
+  if (fee > 0) {
+    lines.push({ account: LEDGER_ACCOUNTS.FEE_REVENUE, credit: fee })
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'payment_link_escrow',
+    description: `Escrow for payment link ${link.id}`,
+    currency,
+    lines
+  })
+
+  return { link, code: buildClaimCode(link), entry }
+}
+
+export async function getPaymentLink(tx: Tx, code: string) {
+  return findLinkByCode(tx, code)
+}
+
+// Release escrowed funds to whoever presents the code, creating their account if needed.
+// Senders take their own link back through reclaimPaymentLink instead.
+export async function claimPaymentLink(tx: Tx, code: string, userId: string) {
+  const link = await getPaymentLink(tx, code)
+  const now = new Date()
+  const status = linkStatus(link, now)
+
+  if (status !== 'pending') {
+    throw new FinanceError(`Payment link is ${status}`, 409)
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  if (account.id === link.senderAccountId) {
+    throw new FinanceError('You cannot claim your own payment link; reclaim it once it expires', 403, {
+      expiresAt: link.expiresAt.toISOString()
+    })
+  }
+
+  // Guard against two claims racing for the same link, or one racing its expiry
+  const claimed = await tx.paymentLink.updateMany({
+    where: { id: link.id, status: 'pending', expiresAt: { gt: now } },
+    data: { status: 'claimed', claimedByAccountId: account.id, claimedAt: now }
+  })
+  if (claimed.count === 0) {
+    throw new FinanceError('Payment link was already claimed', 409)
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'payment_link_claim',
+    description: `Claim of payment link ${link.id}`,
+    currency: link.currency,
+    lines: [
+      { account: LEDGER_ACCOUNTS.PAYMENT_ESCROW, debit: link.amount },
+      { account: walletAccount(account.id), credit: link.amount }
+    ]
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'payment_received',
+      amount: link.amount,
+      currency: link.currency,
+      journalEntryId: entry.id
+    }
+  })
+
+  if (link.transactionId) {
+    await tx.transaction.update({ where: { id: link.transactionId }, data: { status: 'completed' } })
+  }
+
+  return {
+    link: await tx.paymentLink.findUniqueOrThrow({ where: { id: link.id } }),
+    transaction,
+    newBalance: await getBalance(tx, account.id, link.currency)
+  }
+}
+
+// Return an expired, unclaimed link's funds to the sender. The fee is not refunded.
+export async function reclaimPaymentLink(tx: Tx, code: string, userId: string) {
+  const link = await getPaymentLink(tx, code)
+  const account = await tx.account.findUnique({ where: { userId } })
+  const now = new Date()
+  const status = linkStatus(link, now)
+
+  if (!account || account.id !== link.senderAccountId) {
+    throw new FinanceError('Only the sender can reclaim a payment link', 403)
+  }
+  if (status === 'pending') {
+    throw new FinanceError('Payment link has not expired yet', 409, { expiresAt: link.expiresAt.toISOString() })
+  }
+  if (status !== 'expired') {
+    throw new FinanceError(`Payment link is ${status}`, 409)
+  }
+
+  const refunded = await tx.paymentLink.updateMany({
+    where: { id: link.id, status: { in: ['pending', 'expired'] }, expiresAt: { lte: now } },
+    data: { status: 'refunded', refundedAt: now }
+  })
+  if (refunded.count === 0) {
+    throw new FinanceError('Payment link was already refunded', 409)
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'payment_link_refund',
+    description: `Refund of payment link ${link.id}`,
+    currency: link.currency,
+    lines: [
+      { account: LEDGER_ACCOUNTS.PAYMENT_ESCROW, debit: link.amount },
+      { account: walletAccount(account.id), credit: link.amount }
+    ]
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'payment_refund',
+      amount: link.amount,
+      currency: link.currency,
+      journalEntryId: entry.id
+    }
+  })
+
+  if (link.transactionId) {
+    await tx.transaction.update({ where: { id: link.transactionId }, data: { status: 'refunded' } })
+  }
+
+  return {
+    link: await tx.paymentLink.findUniqueOrThrow({ where: { id: link.id } }),
+    transaction,
+    newBalance: await getBalance(tx, account.id, link.currency)
+  }
+}
@@ -0,0 +1,119 @@
+import type { Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { calculateFee } from './fees'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { LEDGER_ACCOUNTS, postJournalEntry, walletAccount } from './ledger'
+import { checkSpendingLimits } from './limits'
+import { createPaymentLink } from './payment-links'
+import { isSupportedCurrency } from './rates'
+
+type Tx = Prisma.TransactionClient
+
+export interface PaymentInput {
+  recipient: string
+  amount: number
+  currency: string
+  expiresInHours?: number
+}
+
+// A member account addressed by wallet address or user id
+export function findRecipientAccount(tx: Tx, recipient: string) {
+  return tx.account.findFirst({
+    where: { OR: [{ walletAddress: recipient }, { userId: recipient }] }
+  })
+}
+
+// Pay a member directly when the recipient is known, otherwise escrow the funds
+// behind a claimable payment link the sender can share.
+export async function sendPayment(tx: Tx, userId: string, payment: PaymentInput) {
+  const { recipient, amount, currency } = payment
+
+  if (!(amount > 0)) {
+    throw new FinanceError('Payment amount must be positive')
+  }
+  if (!isSupportedCurrency(currency)) {
+    throw new FinanceError(`Unsupported currency ${currency}`)
+  }
+
+  const fee = await calculateFee(tx, 'payment', amount)
+  const account = await getOrCreateAccount(tx, userId)
+  await checkSpendingLimits(tx, account, payment)
+
+  const recipientAccount = await findRecipientAccount(tx, recipient)
+
+  if (recipientAccount && recipientAccount.id !== account.id) {
+    if (await getBalance(tx, account.id, currency) < amount + fee) {
+      throw new FinanceError('Insufficient balance')
+    }
+
+    const entry = await postJournalEntry(tx, {
+      id: createId('journalEntry'),
+      type: 'payment',
+      description: `Payment to ${recipient}`,
+      currency,
+      lines: [
+        { account: walletAccount(account.id), debit: amount + fee },
+        { account: walletAccount(recipientAccount.id), credit: amount },
+        { account: LEDGER_ACCOUNTS.FEE_REVENUE, credit: fee }
+      ]
+    })
+
+    const transaction = await tx.transaction.create({
+      data: {
+        id: createId('transaction'),
+        accountId: account.id,
+        type: 'payment',
+        recipient,
+        amount,
+        currency,
+        fee,
+        journalEntryId: entry.id
+      }
+    })
+
+    await tx.transaction.create({
+      data: {
+        id: createId('transaction'),
+        accountId: recipientAccount.id,
+        type: 'payment_received',
+        amount,
+        currency
+      }
+    })
+
+    return {
+      transaction,
+      fee,
+      claimCode: null,
+      remainingBalance: await getBalance(tx, account.id, currency)
+    }
+  }
+
+  const { link, code, entry } = await createPaymentLink(tx, account.id, amount, fee, currency, payment.expiresInHours)
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'payment',
+      recipient,
+      amount,
+      currency,
+      fee,
+      paymentLink: `/api/finance/links/${code}`,
+      status: 'pending',
+      journalEntryId: entry.id
+    }
+  })
+
+  await tx.paymentLink.update({ where: { id: link.id }, data: { transactionId: transaction.id } })
+
+  return {
+    transaction,
+    fee,
+    claimCode: code,
+    expiresAt: link.expiresAt,
+    remainingBalance: await getBalance(tx, account.id, currency)
+  }
+}
@@ -0,0 +1,83 @@
+import { FinanceError } from './errors'
+
+// Currencies members can hold balances in
+export const SUPPORTED_CURRENCIES = ['G$', 'CELO', 'USDC', 'cUSD'] as const
+export type SupportedCurrency = typeof SUPPORTED_CURRENCIES[number]
+
+export function isSupportedCurrency(currency: string): currency is SupportedCurrency {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency)
+}
+
+export interface MarketQuote {
+  price: number // in USD
+  change24h: number
+  volume24h: number
+}
+
+// Anything that can price currencies in USD. Swap the provider to plug in a live feed.
+export interface RateProvider {
+  name: string
+  getQuotes(): Promise<Record<string, MarketQuote>>
+}
+
+// Fixed reference prices, good enough for demos and tests
+export class StaticRateProvider implements RateProvider {
+  name = 'static'
+
+  private quotes: Record<string, MarketQuote>
+
+  constructor(quotes?: Record<string, MarketQuote>) {
+    this.quotes = quotes ?? {
+      'G$': { price: 0.01, change24h: 0.5, volume24h: 1500000 },
+      'CELO': { price: 0.85, change24h: -2.3, volume24h: 25000000 },
+      'USDC': { price: 1.00, change24h: 0.1, volume24h: 50000000 },
+      'cUSD': { price: 1.00, change24h: 0.05, volume24h: 12000000 },
+      // Fiat currencies members can value their portfolio in
+      'USD': { price: 1.00, change24h: 0, volume24h: 0 },
+      'EUR': { price: 1.08, change24h: 0, volume24h: 0 }
+    }
+  }
+
+  async getQuotes(): Promise<Record<string, MarketQuote>> {
+    return this.quotes
+  }
+}
+
+let rateProvider: RateProvider = new StaticRateProvider()
+
+export function setRateProvider(provider: RateProvider) {
+  rateProvider = provider
+}
+
+export function getRateProvider(): RateProvider {
+  return rateProvider
+}
+
+export async function getMarketQuotes() {
+  return rateProvider.getQuotes()
+}
+
+// How many units of `to` one unit of `from` buys
+export async function getConversionRate(from: string, to: string): Promise<number> {
+  if (from === to) return 1
+
+  const quotes = await rateProvider.getQuotes()
+  const fromQuote = quotes[from]
+  const toQuote = quotes[to]
+
+  if (!fromQuote || !toQuote || !(toQuote.price > 0)) {
+    throw new FinanceError(`No rate available for ${from}/${to}`)
+  }
+
+  return fromQuote.price / toQuote.price
+}
+
+// Total value of a set of balances expressed in one currency
+export async function valuePortfolio(balances: Record<string, number>, currency: string): Promise<number> {
+  let total = 0
+  for (const [held, amount] of Object.entries(balances)) {
+    if (amount === 0) continue
+    total += amount * await getConversionRate(held, currency)
+  }
+  return total
+}
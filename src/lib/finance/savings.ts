@@ -0,0 +1,280 @@
+import type { Prisma, SavingsPosition } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import {
+  LEDGER_ACCOUNTS,
+  getLedgerBalance,
+  postJournalEntry,
+  savingsAccount,
+  walletAccount,
+  type JournalLineInput
+} from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+// APY in percent used until the community records its own rate
+export const DEFAULT_SAVINGS_RATE = Number(process.env.DEFAULT_SAVINGS_RATE) || 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_YEAR = 365
+
+interface RatePeriod {
+  rate: number
+  effectiveFrom: Date
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8
+}
+
+// Rate history oldest first, falling back to the default rate
+export async function getRateSchedule(tx: Tx): Promise<RatePeriod[]> {
+  const rates = await tx.savingsRate.findMany({ orderBy: { effectiveFrom: 'asc' } })
+  return rates.length > 0 ? rates : [{ rate: DEFAULT_SAVINGS_RATE, effectiveFrom: new Date(0) }]
+}
+
+function rateAt(schedule: RatePeriod[], date: Date): number {
+  let rate = schedule[0].rate
+  for (const period of schedule) {
+    if (period.effectiveFrom.getTime() > date.getTime()) break
+    rate = period.rate
+  }
+  return rate
+}
+
+export async function getCurrentSavingsRate(tx: Tx): Promise<number> {
+  return rateAt(await getRateSchedule(tx), new Date())
+}
+
+// Schedule a new community rate; flexible positions pick it up from effectiveFrom on
+export async function setSavingsRate(tx: Tx, rate: number, effectiveFrom = new Date()) {
+  if (!(rate >= 0)) {
+    throw new FinanceError('Savings rate must be zero or positive')
+  }
+  return tx.savingsRate.create({ data: { rate, effectiveFrom } })
+}
+
+// Compound one position daily from its last calculation up to now (or maturity).
+// Only whole days accrue; the remainder carries over to the next run.
+export function calculateAccrual(position: SavingsPosition, schedule: RatePeriod[], now = new Date()) {
+  const end = position.maturityDate && position.maturityDate < now ? position.maturityDate : now
+  const days = Math.floor((end.getTime() - position.lastInterestCalculation.getTime()) / DAY_MS)
+
+  if (days <= 0) {
+    return { interest: 0, days: 0, calculatedUntil: position.lastInterestCalculation }
+  }
+
+  const startValue = position.principal + position.accruedInterest
+  let value = startValue
+  for (let day = 0; day < days; day++) {
+    const dayStart = new Date(position.lastInterestCalculation.getTime() + day * DAY_MS)
+    const rate = position.interestRate ?? rateAt(schedule, dayStart)
+    value *= 1 + rate / 100 / DAYS_PER_YEAR
+  }
+
+  return {
+    interest: roundAmount(value - startValue),
+    days,
+    calculatedUntil: new Date(position.lastInterestCalculation.getTime() + days * DAY_MS)
+  }
+}
+
+// Bring every open position of an account up to date and post the interest in one entry
+export async function accrueAccountInterest(tx: Tx, accountId: string, now = new Date()) {
+  const positions = await tx.savingsPosition.findMany({
+    where: { accountId, status: { in: ['active', 'matured'] } }
+  })
+  const schedule = await getRateSchedule(tx)
+
+  let totalInterest = 0
+  for (const position of positions) {
+    const accrual = calculateAccrual(position, schedule, now)
+    const matured = !!position.maturityDate && position.maturityDate <= now
+
+    if (accrual.days === 0 && (!matured || position.status === 'matured')) continue
+
+    await tx.savingsPosition.update({
+      where: { id: position.id },
+      data: {
+        accruedInterest: roundAmount(position.accruedInterest + accrual.interest),
+        lastInterestCalculation: accrual.calculatedUntil,
+        status: matured ? 'matured' : position.status
+      }
+    })
+    totalInterest += accrual.interest
+  }
+
+  totalInterest = roundAmount(totalInterest)
+  if (totalInterest <= 0) return 0
+
+  // Interest is paid by the community into the member's savings
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'savings_interest',
+    currency: 'G$',
+    lines: [
+      { account: LEDGER_ACCOUNTS.INTEREST_EXPENSE, debit: totalInterest },
+      { account: savingsAccount(accountId), credit: totalInterest }
+    ]
+  })
+
+  await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId,
+      type: 'savings_interest',
+      amount: totalInterest,
+      currency: 'G$',
+      journalEntryId: entry.id
+    }
+  })
+
+  return totalInterest
+}
+
+export interface DepositOptions {
+  // Lock the deposit for a number of days at today's rate
+  termDays?: number
+  // Percent of the withdrawn amount kept if a term deposit is withdrawn before maturity
+  earlyWithdrawalPenalty?: number
+}
+
+export async function depositSavings(tx: Tx, userId: string, depositAmount: number, options: DepositOptions = {}) {
+  const account = await getOrCreateAccount(tx, userId)
+
+  if (await getBalance(tx, account.id) < depositAmount) {
+    throw new FinanceError('Insufficient balance for deposit')
+  }
+
+  const currentRate = await getCurrentSavingsRate(tx)
+  const maturityDate = options.termDays ? new Date(Date.now() + options.termDays * DAY_MS) : null
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'savings_deposit',
+    currency: 'G$',
+    lines: [
+      { account: walletAccount(account.id), debit: depositAmount },
+      { account: savingsAccount(account.id), credit: depositAmount }
+    ]
+  })
+
+  const position = await tx.savingsPosition.create({
+    data: {
+      id: createId('savingsPosition'),
+      accountId: account.id,
+      principal: depositAmount,
+      interestRate: maturityDate ? currentRate : null,
+      maturityDate,
+      earlyWithdrawalPenalty: maturityDate ? options.earlyWithdrawalPenalty ?? 0 : 0
+    }
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'savings_deposit',
+      amount: depositAmount,
+      currency: 'G$',
+      interestRate: currentRate,
+      journalEntryId: entry.id
+    }
+  })
+
+  return {
+    transaction,
+    position,
+    interestRate: currentRate,
+    totalSavings: await getLedgerBalance(tx, savingsAccount(account.id), 'G$')
+  }
+}
+
+// Withdraw part or all of a position, interest first, charging the penalty before maturity
+export async function withdrawSavings(tx: Tx, userId: string, positionId: string, amount?: number) {
+  const account = await getOrCreateAccount(tx, userId)
+  await accrueAccountInterest(tx, account.id)
+
+  const position = await tx.savingsPosition.findUnique({ where: { id: positionId } })
+  if (!position || position.accountId !== account.id || position.status === 'closed') {
+    throw new FinanceError('Savings position not found', 404)
+  }
+
+  const available = roundAmount(position.principal + position.accruedInterest)
+  const withdrawal = amount ?? available
+  if (!(withdrawal > 0) || withdrawal > available) {
+    throw new FinanceError('Withdrawal exceeds savings position')
+  }
+
+  const early = !!position.maturityDate && position.maturityDate > new Date()
+  const penalty = early ? roundAmount(withdrawal * position.earlyWithdrawalPenalty / 100) : 0
+  const fromInterest = Math.min(withdrawal, position.accruedInterest)
+  const remainingPrincipal = roundAmount(position.principal - (withdrawal - fromInterest))
+  const remainingInterest = roundAmount(position.accruedInterest - fromInterest)
+  const closed = remainingPrincipal <= 0 && remainingInterest <= 0
+
+  const lines: JournalLineInput[] = [
+    { account: savingsAccount(account.id), debit: withdrawal },
+    { account: walletAccount(account.id), credit: withdrawal - penalty }
+  ]
+  if (penalty > 0) {
+    lines.push({ account: LEDGER_ACCOUNTS.FEE_REVENUE, credit: penalty })
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'savings_withdrawal',
+    currency: 'G$',
+    lines
+  })
+
+  const updatedPosition = await tx.savingsPosition.update({
+    where: { id: position.id },
+    data: {
+      principal: Math.max(0, remainingPrincipal),
+      accruedInterest: Math.max(0, remainingInterest),
+      status: closed ? 'closed' : position.status
+    }
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'savings_withdrawal',
+      amount: withdrawal,
+      currency: 'G$',
+      fee: penalty > 0 ? penalty : null,
+      journalEntryId: entry.id
+    }
+  })
+
+  return {
+    transaction,
+    position: updatedPosition,
+    penalty,
+    newBalance: await getBalance(tx, account.id),
+    totalSavings: await getLedgerBalance(tx, savingsAccount(account.id), 'G$')
+  }
+}
+
+// Open positions with their current value and the rate they are earning
+export async function getSavingsPositions(tx: Tx, accountId: string) {
+  const schedule = await getRateSchedule(tx)
+  const currentRate = rateAt(schedule, new Date())
+  const positions = await tx.savingsPosition.findMany({
+    where: { accountId, status: { not: 'closed' } },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return positions.map(position => ({
+    ...position,
+    currentRate: position.interestRate ?? currentRate,
+    value: roundAmount(position.principal + position.accruedInterest),
+    lastInterestCalculation: position.lastInterestCalculation.toISOString(),
+    maturityDate: position.maturityDate?.toISOString() ?? null,
+    createdAt: position.createdAt.toISOString(),
+    updatedAt: position.updatedAt.toISOString()
+  }))
+}
@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// HMAC-SHA256 signatures for codes handed to members, keyed by a secret from the environment.
+// There is no fallback secret: a deployment that does not set one fails on first use
+// rather than signing with a key anyone can read.
+function getSecret(variable: string): string {
+  const secret = process.env[variable]
+  if (!secret) {
+    throw new Error(`${variable} is not set; it is required to sign and verify codes`)
+  }
+  return secret
+}
+
+export function signPayload(payload: string, secretVariable: string): string {
+  return createHmac('sha256', getSecret(secretVariable)).update(payload).digest('base64url')
+}
+
+// Constant-time comparison, so response timing does not leak how much of a forged signature matched
+export function verifyPayload(payload: string, signature: string, secretVariable: string): boolean {
+  const expected = Buffer.from(signPayload(payload, secretVariable))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
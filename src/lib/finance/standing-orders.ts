@@ -0,0 +1,271 @@
+import type { Prisma, PrismaClient, StandingOrder } from '@prisma/client'
+import { getNextCronTime, getUpcomingCronTimes, isValidCron } from '@/lib/cron'
+import { createId } from '@/lib/ids'
+import { emitToUser } from '@/lib/socket'
+import { FinanceError } from './errors'
+import { getOrCreateAccount } from './accounts'
+import { findRecipientAccount, sendPayment } from './payments'
+import { isSupportedCurrency } from './rates'
+
+type Tx = Prisma.TransactionClient
+
+export type StandingOrderStatus = 'active' | 'paused' | 'cancelled' | 'completed'
+
+// Failed runs are retried this many times before the occurrence is skipped
+export const STANDING_ORDER_MAX_RETRIES = 3
+export const STANDING_ORDER_RETRY_DELAY_MS = 60 * 60 * 1000 // 1 hour
+
+export interface StandingOrderInput {
+  recipient: string
+  amount: number
+  currency?: string
+  schedule: string
+  startAt?: string
+  endDate?: string
+  maxRuns?: number
+}
+
+// Orders are finished once they ran maxRuns times or the next run falls after the end date
+function isFinished(order: Pick<StandingOrder, 'runCount' | 'maxRuns' | 'endDate'>, nextRunAt: Date): boolean {
+  if (order.maxRuns && order.runCount >= order.maxRuns) return true
+  return !!order.endDate && nextRunAt > order.endDate
+}
+
+export async function createStandingOrder(tx: Tx, userId: string, input: StandingOrderInput) {
+  if (!(input.amount > 0)) {
+    throw new FinanceError('Standing order amount must be positive')
+  }
+  if (!isValidCron(input.schedule)) {
+    throw new FinanceError('Invalid schedule, expected a cron expression such as "0 9 1 * *"')
+  }
+
+  const currency = input.currency ?? 'G$'
+  if (!isSupportedCurrency(currency)) {
+    throw new FinanceError(`Unsupported currency ${currency}`)
+  }
+
+  // Unknown recipients would get a new payment link escrowed on every run
+  const account = await getOrCreateAccount(tx, userId)
+  const recipientAccount = await findRecipientAccount(tx, input.recipient)
+  if (!recipientAccount) {
+    throw new FinanceError('Standing orders can only pay existing members', 404)
+  }
+  if (recipientAccount.id === account.id) {
+    throw new FinanceError('A standing order cannot pay your own account')
+  }
+
+  const startAt = input.startAt ? new Date(input.startAt) : new Date()
+  let nextRunAt: Date
+  try {
+    nextRunAt = getNextCronTime(input.schedule, startAt)
+  } catch {
+    throw new FinanceError('Schedule never runs')
+  }
+
+  const endDate = input.endDate ? new Date(input.endDate) : null
+  if (endDate && nextRunAt > endDate) {
+    throw new FinanceError('Standing order would never run before its end date')
+  }
+
+  return tx.standingOrder.create({
+    data: {
+      id: createId('standingOrder'),
+      accountId: account.id,
+      recipient: input.recipient,
+      amount: input.amount,
+      currency,
+      schedule: input.schedule,
+      nextRunAt,
+      endDate,
+      maxRuns: input.maxRuns ?? null
+    }
+  })
+}
+
+async function findOwnOrder(tx: Tx, userId: string, orderId: string) {
+  const order = await tx.standingOrder.findUnique({ where: { id: orderId } })
+  const account = await tx.account.findUnique({ where: { userId } })
+
+  if (!order || !account || order.accountId !== account.id) {
+    throw new FinanceError('Standing order not found', 404)
+  }
+  return order
+}
+
+export async function pauseStandingOrder(tx: Tx, userId: string, orderId: string) {
+  const order = await findOwnOrder(tx, userId, orderId)
+  if (order.status !== 'active') {
+    throw new FinanceError(`Standing order is ${order.status}`, 409)
+  }
+  return tx.standingOrder.update({ where: { id: order.id }, data: { status: 'paused' } })
+}
+
+// Resuming skips any runs missed while paused
+export async function resumeStandingOrder(tx: Tx, userId: string, orderId: string) {
+  const order = await findOwnOrder(tx, userId, orderId)
+  if (order.status !== 'paused') {
+    throw new FinanceError(`Standing order is ${order.status}`, 409)
+  }
+
+  const nextRunAt = order.nextRunAt > new Date() ? order.nextRunAt : getNextCronTime(order.schedule, new Date())
+  return tx.standingOrder.update({
+    where: { id: order.id },
+    data: {
+      status: isFinished(order, nextRunAt) ? 'completed' : 'active',
+      nextRunAt,
+      retryAt: null,
+      retryCount: 0
+    }
+  })
+}
+
+export async function cancelStandingOrder(tx: Tx, userId: string, orderId: string) {
+  const order = await findOwnOrder(tx, userId, orderId)
+  if (order.status === 'cancelled' || order.status === 'completed') {
+    throw new FinanceError(`Standing order is ${order.status}`, 409)
+  }
+  return tx.standingOrder.update({ where: { id: order.id }, data: { status: 'cancelled', retryAt: null } })
+}
+
+export async function getStandingOrders(tx: Tx, userId: string) {
+  const orders = await tx.standingOrder.findMany({
+    where: { account: { userId } },
+    include: { runs: { orderBy: { createdAt: 'desc' }, take: 5 } },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return orders.map(order => {
+    const remainingRuns = order.maxRuns ? Math.max(0, order.maxRuns - order.runCount) : 3
+    const upcomingRuns = order.status === 'active'
+      ? [order.retryAt ?? order.nextRunAt, ...getUpcomingCronTimes(order.schedule, order.nextRunAt, 2)]
+          .filter(time => !order.endDate || time <= order.endDate)
+          .slice(0, Math.min(3, remainingRuns))
+      : []
+
+    return {
+      ...order,
+      nextRunAt: order.nextRunAt.toISOString(),
+      retryAt: order.retryAt?.toISOString() ?? null,
+      endDate: order.endDate?.toISOString() ?? null,
+      lastRunAt: order.lastRunAt?.toISOString() ?? null,
+      createdAt: order.createdAt.toISOString(),
+      updatedAt: order.updatedAt.toISOString(),
+      upcomingRuns: upcomingRuns.map(time => time.toISOString()),
+      runs: order.runs.map(run => ({
+        scheduledFor: run.scheduledFor.toISOString(),
+        attempt: run.attempt,
+        status: run.status,
+        error: run.error,
+        transactionId: run.transactionId,
+        createdAt: run.createdAt.toISOString()
+      }))
+    }
+  })
+}
+
+// Execute one due order. Each attempt is its own transaction so a failed payment
+// rolls back cleanly and only the failure record is kept.
+async function executeStandingOrder(client: PrismaClient, order: StandingOrder, now: Date) {
+  const attempt = order.retryCount + 1
+
+  try {
+    await client.$transaction(async (tx) => {
+      const account = await tx.account.findUniqueOrThrow({ where: { id: order.accountId } })
+      const payment = await sendPayment(tx, account.userId, {
+        recipient: order.recipient,
+        amount: order.amount,
+        currency: order.currency
+      })
+
+      const runCount = order.runCount + 1
+      const nextRunAt = getNextCronTime(order.schedule, order.nextRunAt > now ? order.nextRunAt : now)
+
+      await tx.standingOrderRun.create({
+        data: {
+          orderId: order.id,
+          scheduledFor: order.nextRunAt,
+          attempt,
+          status: 'succeeded',
+          transactionId: payment.transaction.id
+        }
+      })
+
+      await tx.standingOrder.update({
+        where: { id: order.id },
+        data: {
+          runCount,
+          lastRunAt: now,
+          lastError: null,
+          retryAt: null,
+          retryCount: 0,
+          nextRunAt,
+          status: isFinished({ ...order, runCount }, nextRunAt) ? 'completed' : 'active'
+        }
+      })
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const giveUp = attempt > STANDING_ORDER_MAX_RETRIES
+    const nextRunAt = giveUp ? getNextCronTime(order.schedule, now) : order.nextRunAt
+
+    console.warn(`Standing order ${order.id} attempt ${attempt} failed: ${message}`)
+
+    const [, updated] = await client.$transaction([
+      client.standingOrderRun.create({
+        data: {
+          orderId: order.id,
+          scheduledFor: order.nextRunAt,
+          attempt,
+          status: giveUp ? 'skipped' : 'failed',
+          error: message
+        }
+      }),
+      client.standingOrder.update({
+        where: { id: order.id },
+        data: {
+          lastError: message,
+          retryCount: giveUp ? 0 : attempt,
+          retryAt: giveUp ? null : new Date(now.getTime() + STANDING_ORDER_RETRY_DELAY_MS),
+          nextRunAt,
+          status: giveUp && isFinished(order, nextRunAt) ? 'completed' : order.status
+        }
+      })
+    ])
+
+    // Tell the owner, so a failing order does not go unnoticed until they look at it
+    const owner = await client.account.findUnique({ where: { id: order.accountId }, select: { userId: true } })
+    if (owner) {
+      emitToUser(owner.userId, 'standing-order:failed', {
+        orderId: order.id,
+        recipient: order.recipient,
+        amount: order.amount,
+        currency: order.currency,
+        attempt,
+        error: message,
+        gaveUp: giveUp,
+        retryAt: updated.retryAt?.toISOString() ?? null,
+        nextRunAt: updated.nextRunAt.toISOString()
+      })
+    }
+  }
+}
+
+// Run every active order whose next run (or retry) is due
+export async function runDueStandingOrders(client: PrismaClient, now = new Date()) {
+  const due = await client.standingOrder.findMany({
+    where: {
+      status: 'active',
+      OR: [
+        { retryAt: null, nextRunAt: { lte: now } },
+        { retryAt: { lte: now } }
+      ]
+    },
+    orderBy: { nextRunAt: 'asc' }
+  })
+
+  for (const order of due) {
+    await executeStandingOrder(client, order, now)
+  }
+
+  return due.length
+}
@@ -0,0 +1,121 @@
+import type { Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { calculateFee } from './fees'
+import { LEDGER_ACCOUNTS, postJournalEntry, walletAccount } from './ledger'
+import { getConversionRate, getRateProvider, isSupportedCurrency } from './rates'
+
+type Tx = Prisma.TransactionClient
+
+export const DEFAULT_MAX_SLIPPAGE = 1 // percent
+
+export interface SwapInput {
+  fromCurrency: string
+  toCurrency: string
+  amount: number
+  // Rate the member was shown; execution is refused if the market moved further than maxSlippage
+  quotedRate?: number
+  maxSlippage?: number
+}
+
+export async function getSwapQuote(tx: Tx, fromCurrency: string, toCurrency: string, amount: number) {
+  if (!isSupportedCurrency(fromCurrency) || !isSupportedCurrency(toCurrency)) {
+    throw new FinanceError('Unsupported currency')
+  }
+  if (fromCurrency === toCurrency) {
+    throw new FinanceError('Cannot swap a currency for itself')
+  }
+  if (!(amount > 0)) {
+    throw new FinanceError('Swap amount must be positive')
+  }
+
+  const rate = await getConversionRate(fromCurrency, toCurrency)
+  const fee = await calculateFee(tx, 'swap', amount)
+
+  return {
+    fromCurrency,
+    toCurrency,
+    amount,
+    rate,
+    fee,
+    amountOut: amount * rate,
+    provider: getRateProvider().name
+  }
+}
+
+// Exchange one currency for another against the community swap pool.
+// The two legs and the fee are posted as separate entries sharing one reference.
+export async function swapCurrency(tx: Tx, userId: string, input: SwapInput) {
+  const quote = await getSwapQuote(tx, input.fromCurrency, input.toCurrency, input.amount)
+  const maxSlippage = input.maxSlippage ?? DEFAULT_MAX_SLIPPAGE
+
+  if (input.quotedRate) {
+    const slippage = Math.abs(quote.rate - input.quotedRate) / input.quotedRate * 100
+    if (slippage > maxSlippage) {
+      throw new FinanceError(
+        `Rate moved ${slippage.toFixed(2)}%, more than the ${maxSlippage}% slippage limit`,
+        409,
+        { rate: quote.rate }
+      )
+    }
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  if (await getBalance(tx, account.id, quote.fromCurrency) < quote.amount + quote.fee) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const reference = createId('swap')
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'swap_in',
+    reference,
+    currency: quote.fromCurrency,
+    lines: [
+      { account: walletAccount(account.id), debit: quote.amount },
+      { account: LEDGER_ACCOUNTS.SWAP_POOL, credit: quote.amount }
+    ]
+  })
+
+  await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'swap_out',
+    reference,
+    currency: quote.toCurrency,
+    lines: [
+      { account: LEDGER_ACCOUNTS.SWAP_POOL, debit: quote.amountOut },
+      { account: walletAccount(account.id), credit: quote.amountOut }
+    ]
+  })
+
+  if (quote.fee > 0) {
+    await postJournalEntry(tx, {
+      id: createId('journalEntry'),
+      type: 'swap_fee',
+      reference,
+      currency: quote.fromCurrency,
+      lines: [
+        { account: walletAccount(account.id), debit: quote.fee },
+        { account: LEDGER_ACCOUNTS.FEE_REVENUE, credit: quote.fee }
+      ]
+    })
+  }
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'swap',
+      amount: quote.amount,
+      currency: quote.fromCurrency,
+      fee: quote.fee,
+      counterAmount: quote.amountOut,
+      counterCurrency: quote.toCurrency,
+      journalEntryId: entry.id
+    }
+  })
+
+  return { transaction, quote }
+}
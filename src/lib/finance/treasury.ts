@@ -0,0 +1,148 @@
+import type { Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { DEFAULT_CURRENCY, getBalance, getOrCreateAccount } from './accounts'
+import { LEDGER_ACCOUNTS, getLedgerBalance, postJournalEntry, proposalEscrowAccount, walletAccount } from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+// The community treasury is funded by member deposits and pays out proposal budgets.
+// Every movement is a journal entry whose reference is the proposal it was made for.
+
+export async function fundTreasury(tx: Tx, userId: string, amount: number, currency = DEFAULT_CURRENCY) {
+  if (!(amount > 0)) {
+    throw new FinanceError('Amount must be positive')
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  if (await getBalance(tx, account.id, currency) < amount) {
+    throw new FinanceError('Insufficient balance')
+  }
+
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'treasury_deposit',
+    currency,
+    lines: [
+      { account: walletAccount(account.id), debit: amount },
+      { account: LEDGER_ACCOUNTS.COMMUNITY_TREASURY, credit: amount }
+    ]
+  })
+
+  return tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'treasury_deposit',
+      amount,
+      currency,
+      journalEntryId: entry.id
+    }
+  })
+}
+
+async function assertFunds(tx: Tx, account: string, amount: number, currency: string) {
+  if (await getLedgerBalance(tx, account, currency) < amount) {
+    throw new FinanceError(
+      account === LEDGER_ACCOUNTS.COMMUNITY_TREASURY
+        ? 'The community treasury does not have enough funds'
+        : 'Not enough funds are set aside for this proposal',
+      409
+    )
+  }
+}
+
+// Set treasury funds aside for a proposal's milestone tranches, so a later release
+// cannot fail because the treasury was spent in the meantime
+export async function reserveTreasuryFunds(tx: Tx, proposalId: string, amount: number, currency = DEFAULT_CURRENCY) {
+  await assertFunds(tx, LEDGER_ACCOUNTS.COMMUNITY_TREASURY, amount, currency)
+
+  return postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'treasury_reservation',
+    description: `Budget set aside for proposal ${proposalId}`,
+    reference: proposalId,
+    currency,
+    lines: [
+      { account: LEDGER_ACCOUNTS.COMMUNITY_TREASURY, debit: amount },
+      { account: proposalEscrowAccount(proposalId), credit: amount }
+    ]
+  })
+}
+
+// Give the unreleased part of a reservation back to the treasury
+export async function returnTreasuryFunds(tx: Tx, proposalId: string, amount: number, currency = DEFAULT_CURRENCY) {
+  await assertFunds(tx, proposalEscrowAccount(proposalId), amount, currency)
+
+  return postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'treasury_reservation_return',
+    description: `Unreleased budget of proposal ${proposalId} returned`,
+    reference: proposalId,
+    currency,
+    lines: [
+      { account: proposalEscrowAccount(proposalId), debit: amount },
+      { account: LEDGER_ACCOUNTS.COMMUNITY_TREASURY, credit: amount }
+    ]
+  })
+}
+
+export interface TreasuryPayment {
+  proposalId: string
+  recipientId: string
+  amount: number
+  currency?: string
+  // Pay from the proposal's reservation instead of the treasury itself
+  fromReservation?: boolean
+  description?: string
+}
+
+// Pay part of a proposal budget into a member's wallet
+export async function payFromTreasury(tx: Tx, payment: TreasuryPayment) {
+  const currency = payment.currency ?? DEFAULT_CURRENCY
+  const source = payment.fromReservation
+    ? proposalEscrowAccount(payment.proposalId)
+    : LEDGER_ACCOUNTS.COMMUNITY_TREASURY
+  await assertFunds(tx, source, payment.amount, currency)
+
+  const account = await getOrCreateAccount(tx, payment.recipientId)
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'treasury_disbursement',
+    description: payment.description ?? `Disbursement for proposal ${payment.proposalId}`,
+    reference: payment.proposalId,
+    currency,
+    lines: [
+      { account: source, debit: payment.amount },
+      { account: walletAccount(account.id), credit: payment.amount }
+    ]
+  })
+
+  return tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'treasury_disbursement',
+      amount: payment.amount,
+      currency,
+      journalEntryId: entry.id
+    }
+  })
+}
+
+export async function getTreasury(tx: Tx, currency = DEFAULT_CURRENCY) {
+  const reserved = await tx.journalLine.aggregate({
+    where: { accountCode: { startsWith: proposalEscrowAccount('') }, currency },
+    _sum: { debit: true, credit: true }
+  })
+  const deposits = await tx.transaction.aggregate({ where: { type: 'treasury_deposit', currency }, _sum: { amount: true } })
+  const disbursed = await tx.transaction.aggregate({ where: { type: 'treasury_disbursement', currency }, _sum: { amount: true } })
+
+  return {
+    currency,
+    available: await getLedgerBalance(tx, LEDGER_ACCOUNTS.COMMUNITY_TREASURY, currency),
+    reserved: (reserved._sum.credit ?? 0) - (reserved._sum.debit ?? 0),
+    totalDeposited: deposits._sum.amount ?? 0,
+    totalDisbursed: disbursed._sum.amount ?? 0
+  }
+}
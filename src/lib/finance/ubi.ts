@@ -0,0 +1,85 @@
+import type { Prisma } from '@prisma/client'
+import { createId } from '@/lib/ids'
+import { FinanceError } from './errors'
+import { getBalance, getOrCreateAccount } from './accounts'
+import { LEDGER_ACCOUNTS, postJournalEntry, walletAccount } from './ledger'
+
+type Tx = Prisma.TransactionClient
+
+export const UBI_AMOUNT = 10 // G$ 10 per claim period
+
+// Hours a member must wait between claims, 24 unless configured otherwise
+export const UBI_CLAIM_PERIOD_HOURS = Number(process.env.UBI_CLAIM_PERIOD_HOURS) || 24
+
+const CLAIM_PERIOD_MS = UBI_CLAIM_PERIOD_HOURS * 60 * 60 * 1000
+
+// Earliest moment the next claim is allowed, null when the member never claimed
+export function getNextClaimTime(lastClaim: Date | null): Date | null {
+  return lastClaim ? new Date(lastClaim.getTime() + CLAIM_PERIOD_MS) : null
+}
+
+// A streak survives as long as each claim lands within one period of becoming eligible
+export function getNextClaimStreak(lastClaim: Date | null, claimStreak: number, now = new Date()): number {
+  if (!lastClaim) return 1
+  return now.getTime() - lastClaim.getTime() <= 2 * CLAIM_PERIOD_MS ? claimStreak + 1 : 1
+}
+
+// Credit one period's UBI, enforcing the claim window and Human Passport verification
+export async function claimUBI(tx: Tx, userId: string) {
+  const passport = await tx.humanPassport.findUnique({ where: { userId } })
+  if (!passport) {
+    throw new FinanceError('A verified Human Passport is required to claim UBI', 403)
+  }
+
+  const account = await getOrCreateAccount(tx, userId)
+  const now = new Date()
+  const nextClaimAt = getNextClaimTime(account.lastClaim)
+
+  if (nextClaimAt && nextClaimAt > now) {
+    throw new FinanceError(
+      `UBI already claimed. Please wait ${UBI_CLAIM_PERIOD_HOURS} hours between claims.`,
+      429,
+      { nextClaimAt: nextClaimAt.toISOString() }
+    )
+  }
+
+  const claimStreak = getNextClaimStreak(account.lastClaim, account.claimStreak, now)
+
+  // Only move lastClaim if nobody else claimed since we read it
+  const claimed = await tx.account.updateMany({
+    where: { id: account.id, lastClaim: account.lastClaim },
+    data: { lastClaim: now, claimStreak }
+  })
+  if (claimed.count === 0) {
+    throw new FinanceError('UBI claim already in progress', 409)
+  }
+
+  // UBI is issued out of the reserve into the member's wallet
+  const entry = await postJournalEntry(tx, {
+    id: createId('journalEntry'),
+    type: 'ubi_claim',
+    currency: 'G$',
+    lines: [
+      { account: LEDGER_ACCOUNTS.UBI_RESERVE, debit: UBI_AMOUNT },
+      { account: walletAccount(account.id), credit: UBI_AMOUNT }
+    ]
+  })
+
+  const transaction = await tx.transaction.create({
+    data: {
+      id: createId('transaction'),
+      accountId: account.id,
+      type: 'ubi_claim',
+      amount: UBI_AMOUNT,
+      currency: 'G$',
+      journalEntryId: entry.id
+    }
+  })
+
+  return {
+    transaction,
+    newBalance: await getBalance(tx, account.id),
+    claimStreak,
+    nextClaimAt: getNextClaimTime(now)!
+  }
+}
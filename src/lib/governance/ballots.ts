@@ -0,0 +1,134 @@
+import type { ProposalOption } from '@prisma/client'
+import type { Ballot, OptionBallotType, OptionRound } from '@/lib/api/governance'
+import { GovernanceError } from './errors'
+
+// A stored ballot with the weight its voter cast it with. Delegated ballots carry a
+// delegator's power with the choices of the member they delegated to.
+export interface WeightedBallot {
+  ballot: Ballot
+  weight: number
+  delegated?: boolean
+}
+
+// Reject ballots of the wrong type, naming unknown options, or listing an option twice
+export function validateBallot(ballotType: OptionBallotType, ballot: Ballot, options: ProposalOption[]) {
+  if (ballot.type !== ballotType) {
+    throw new GovernanceError(`This proposal takes a ${ballotType} ballot`)
+  }
+
+  const optionIds = new Set(options.map(option => option.id))
+  const chosen = ballotOptionIds(ballot)
+  if (chosen.some(optionId => !optionIds.has(optionId))) {
+    throw new GovernanceError('Ballot names an option that is not on this proposal')
+  }
+  if (new Set(chosen).size !== chosen.length) {
+    throw new GovernanceError('Ballot lists the same option more than once')
+  }
+  if (ballot.type === 'score' && !Object.values(ballot.scores).some(score => score > 0)) {
+    throw new GovernanceError('Score at least one option above zero')
+  }
+}
+
+function ballotOptionIds(ballot: Ballot): string[] {
+  switch (ballot.type) {
+    case 'plurality':
+      return [ballot.optionId]
+    case 'ranked-choice':
+      return ballot.ranking
+    case 'approval':
+      return ballot.approved
+    case 'score':
+      return Object.keys(ballot.scores)
+  }
+}
+
+function emptyCounts(optionIds: Iterable<string>): Record<string, number> {
+  return Object.fromEntries([...optionIds].map(optionId => [optionId, 0]))
+}
+
+// The option with the strictly highest positive count, or null on a tie or no votes
+function leader(counts: Record<string, number>): string | null {
+  const ranked = Object.entries(counts).sort(([, a], [, b]) => b - a)
+  if (ranked.length === 0 || ranked[0][1] <= 0 || ranked[1]?.[1] === ranked[0][1]) {
+    return null
+  }
+  return ranked[0][0]
+}
+
+// Plurality, approval and score voting are counted in a single round
+function singleRound(ballots: WeightedBallot[], optionIds: string[]) {
+  const counts = emptyCounts(optionIds)
+  const delegatedCounts = emptyCounts(optionIds)
+  for (const { ballot, weight, delegated } of ballots) {
+    const add = (optionId: string, amount: number) => {
+      counts[optionId] += amount
+      if (delegated) delegatedCounts[optionId] += amount
+    }
+    switch (ballot.type) {
+      case 'plurality':
+        add(ballot.optionId, weight)
+        break
+      case 'approval':
+        for (const optionId of ballot.approved) add(optionId, weight)
+        break
+      case 'score':
+        for (const [optionId, score] of Object.entries(ballot.scores)) add(optionId, score * weight)
+        break
+    }
+  }
+
+  const rounds: OptionRound[] = [{ round: 1, counts, eliminated: [], delegated: delegatedCounts, exhausted: 0 }]
+  return { rounds, winner: leader(counts) }
+}
+
+// Instant runoff: count each ballot for its highest-ranked option still running. An option
+// with a majority of the ballots still in play wins; otherwise the last-placed options are
+// eliminated together and their ballots move to their next choice.
+function instantRunoff(ballots: WeightedBallot[], optionIds: string[]) {
+  const running = new Set(optionIds)
+  const rounds: OptionRound[] = []
+
+  while (running.size > 0) {
+    const counts = emptyCounts(running)
+    const delegatedCounts = emptyCounts(running)
+    let exhausted = 0
+    for (const { ballot, weight, delegated } of ballots) {
+      const choice = ballot.type === 'ranked-choice'
+        ? ballot.ranking.find(optionId => running.has(optionId))
+        : undefined
+      if (choice) {
+        counts[choice] += weight
+        if (delegated) delegatedCounts[choice] += weight
+      } else {
+        exhausted += weight
+      }
+    }
+
+    const round: OptionRound = { round: rounds.length + 1, counts, eliminated: [], delegated: delegatedCounts, exhausted }
+    rounds.push(round)
+
+    const active = Object.values(counts).reduce((sum, count) => sum + count, 0)
+    const top = leader(counts)
+    if (top && counts[top] > active / 2) {
+      return { rounds, winner: top }
+    }
+
+    const lowest = Math.min(...Object.values(counts))
+    round.eliminated = [...running].filter(optionId => counts[optionId] === lowest)
+    if (round.eliminated.length === running.size) {
+      // Every remaining option is tied, so there is nobody left to eliminate
+      round.eliminated = []
+      return { rounds, winner: null }
+    }
+    for (const optionId of round.eliminated) running.delete(optionId)
+  }
+
+  return { rounds, winner: null }
+}
+
+export function countBallots(ballotType: OptionBallotType, ballots: WeightedBallot[], options: ProposalOption[]) {
+  const optionIds = options.map(option => option.id)
+  return ballotType === 'ranked-choice'
+    ? instantRunoff(ballots, optionIds)
+    : singleRound(ballots, optionIds)
+}
@@ -0,0 +1,179 @@
+import type { Prisma, Proposal, VoteDelegation } from '@prisma/client'
+import {
+  PROPOSAL_CATEGORIES,
+  type Delegation,
+  type DelegationScope,
+  type GivenDelegation,
+  type ProposalCategory,
+  type Representation
+} from '@/lib/api/governance'
+import { GovernanceError } from './errors'
+import { voteWeight } from './voting'
+
+type Tx = Prisma.TransactionClient
+
+// Delegator to delegate, as it applies to proposals in one category
+type DelegationGraph = Map<string, string>
+
+// How a member who did not vote is counted: with the choice of the first member down
+// their delegation chain who did
+export interface DelegatedVote {
+  delegatorId: string
+  voterId: string
+  weight: number
+}
+
+// A direct vote as far as delegation is concerned
+interface DirectVote {
+  userId: string
+}
+
+async function loadGraph(tx: Tx, category: string): Promise<DelegationGraph> {
+  const delegations = await tx.voteDelegation.findMany({
+    where: { scope: { in: [category, 'all'] } }
+  })
+
+  const graph: DelegationGraph = new Map()
+  for (const delegation of delegations) {
+    // The category delegation wins over the member's "all" delegation
+    if (delegation.scope === category || !graph.has(delegation.delegatorId)) {
+      graph.set(delegation.delegatorId, delegation.delegateId)
+    }
+  }
+  return graph
+}
+
+// Members a delegator's power passes through, in order. Stops short of a cycle, which
+// setDelegation refuses to create but a concurrent change could still leave behind.
+function delegationChain(graph: DelegationGraph, userId: string): string[] {
+  const chain: string[] = []
+  const seen = new Set([userId])
+  let next = graph.get(userId)
+  while (next && !seen.has(next)) {
+    chain.push(next)
+    seen.add(next)
+    next = graph.get(next)
+  }
+  return chain
+}
+
+// Delegate a member's voting power, for one category or for all of them. Replaces any
+// delegation they already have for the same scope.
+export async function setDelegation(
+  tx: Tx,
+  delegatorId: string,
+  delegateId: string,
+  category?: ProposalCategory
+) {
+  if (delegatorId === delegateId) {
+    throw new GovernanceError('You cannot delegate to yourself')
+  }
+  const delegate = await tx.user.findUnique({ where: { id: delegateId }, select: { id: true } })
+  if (!delegate) {
+    throw new GovernanceError('Delegate not found', 404)
+  }
+
+  const scope: DelegationScope = category ?? 'all'
+  const existing = await tx.voteDelegation.findMany({ where: { delegatorId } })
+  const overridden = new Set(existing.map(delegation => delegation.scope))
+
+  // The new edge applies to its own category, or to every category without its own delegation
+  const affected = category ? [category] : PROPOSAL_CATEGORIES.filter(c => !overridden.has(c))
+  for (const affectedCategory of affected) {
+    const graph = await loadGraph(tx, affectedCategory)
+    graph.set(delegatorId, delegateId)
+    if (delegationChain(graph, delegateId).includes(delegatorId)) {
+      throw new GovernanceError(`That delegation would create a cycle for ${affectedCategory} proposals`, 409)
+    }
+  }
+
+  return tx.voteDelegation.upsert({
+    where: { delegatorId_scope: { delegatorId, scope } },
+    update: { delegateId },
+    create: { delegatorId, scope, delegateId }
+  })
+}
+
+export async function revokeDelegation(tx: Tx, delegatorId: string, category?: ProposalCategory) {
+  const removed = await tx.voteDelegation.deleteMany({
+    where: { delegatorId, scope: category ?? 'all' }
+  })
+  if (removed.count === 0) {
+    throw new GovernanceError('You have no delegation for that scope', 404)
+  }
+}
+
+// Voting power delegated to the members who voted on a proposal. Members who voted
+// themselves are left out, so a direct vote always overrides a delegation. Quadratic
+// votes spend the voter's own credits and cannot be delegated.
+export async function delegatedVotes(
+  tx: Tx,
+  proposal: Proposal,
+  directVotes: DirectVote[],
+  now = new Date()
+): Promise<DelegatedVote[]> {
+  if (proposal.votingMethod === 'quadratic' || directVotes.length === 0) {
+    return []
+  }
+
+  const voted = new Set(directVotes.map(vote => vote.userId))
+  const graph = await loadGraph(tx, proposal.category)
+  const delegated: DelegatedVote[] = []
+
+  for (const delegatorId of graph.keys()) {
+    if (voted.has(delegatorId)) continue
+    const voterId = delegationChain(graph, delegatorId).find(memberId => voted.has(memberId))
+    if (!voterId) continue
+
+    try {
+      const { weight } = await voteWeight(tx, proposal, delegatorId, undefined, now)
+      delegated.push({ delegatorId, voterId, weight })
+    } catch (error) {
+      // Members who could not vote themselves have no power to delegate
+      if (!(error instanceof GovernanceError)) throw error
+    }
+  }
+  return delegated
+}
+
+export async function getRepresentation(tx: Tx, proposal: Proposal, userId: string): Promise<Representation | undefined> {
+  const chain = delegationChain(await loadGraph(tx, proposal.category), userId)
+  if (chain.length === 0) {
+    return undefined
+  }
+
+  const votes = await tx.proposalVote.findMany({
+    where: { proposalId: proposal.id, userId: { in: chain } },
+    select: { userId: true }
+  })
+  const voted = new Set(votes.map(vote => vote.userId))
+  return { chain, voterId: chain.find(memberId => voted.has(memberId)) ?? null }
+}
+
+export function serializeDelegation(delegation: VoteDelegation): Delegation {
+  return {
+    delegatorId: delegation.delegatorId,
+    delegateId: delegation.delegateId,
+    scope: delegation.scope as DelegationScope,
+    createdAt: delegation.createdAt.toISOString()
+  }
+}
+
+export async function getDelegations(tx: Tx, userId: string) {
+  const [given, received] = await Promise.all([
+    tx.voteDelegation.findMany({ where: { delegatorId: userId }, orderBy: { scope: 'asc' } }),
+    tx.voteDelegation.findMany({ where: { delegateId: userId }, orderBy: { createdAt: 'desc' } })
+  ])
+
+  const withChains: GivenDelegation[] = []
+  for (const delegation of given) {
+    // "all" resolves like a category the member has not delegated separately
+    const category = delegation.scope === 'all'
+      ? PROPOSAL_CATEGORIES.find(c => !given.some(other => other.scope === c)) ?? delegation.scope
+      : delegation.scope
+    const graph = await loadGraph(tx, category)
+    withChains.push({ ...serializeDelegation(delegation), chain: delegationChain(graph, userId) })
+  }
+
+  return { given: withChains, received: received.map(serializeDelegation) }
+}
@@ -0,0 +1,157 @@
+import type { Prisma, Proposal, ProposalDisbursement, Transaction } from '@prisma/client'
+import type { Disbursement, DisbursementStatus, PayoutMode } from '@/lib/api/governance'
+import { createId } from '@/lib/ids'
+import { payFromTreasury, reserveTreasuryFunds, returnTreasuryFunds } from '@/lib/finance/treasury'
+import { GovernanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Tranches must add up to the budget to within this
+const BUDGET_TOLERANCE = 1e-6
+
+export interface DisbursementInput {
+  recipientId: string
+  amount: number
+  milestone?: string
+}
+
+// Check a proposal's tranches against its budget and build the rows to create with it
+export async function planDisbursements(
+  tx: Tx,
+  budget: number,
+  payoutMode: PayoutMode,
+  tranches: DisbursementInput[]
+) {
+  if (tranches.length === 0) {
+    if (budget > 0) {
+      throw new GovernanceError('Name who receives the budget')
+    }
+    return []
+  }
+
+  const total = tranches.reduce((sum, tranche) => sum + tranche.amount, 0)
+  if (Math.abs(total - budget) > BUDGET_TOLERANCE) {
+    throw new GovernanceError('Disbursements must add up to the budget', 400, { budget, disbursed: total })
+  }
+  if (payoutMode === 'milestones' && tranches.some(tranche => !tranche.milestone)) {
+    throw new GovernanceError('Every milestone tranche needs a milestone')
+  }
+
+  const recipientIds = [...new Set(tranches.map(tranche => tranche.recipientId))]
+  const found = await tx.user.count({ where: { id: { in: recipientIds } } })
+  if (found !== recipientIds.length) {
+    throw new GovernanceError('Disbursement recipient not found', 404)
+  }
+
+  return tranches.map((tranche, position) => ({
+    id: createId('disbursement'),
+    position,
+    recipientId: tranche.recipientId,
+    amount: tranche.amount,
+    milestone: tranche.milestone
+  }))
+}
+
+async function markPaid(tx: Tx, disbursement: ProposalDisbursement, transaction: Transaction, userId: string, now: Date) {
+  const paid = await tx.proposalDisbursement.updateMany({
+    where: { id: disbursement.id, status: 'pending' },
+    data: { status: 'paid', transactionId: transaction.id, releasedBy: userId, paidAt: now }
+  })
+  if (paid.count === 0) {
+    throw new GovernanceError('Tranche was changed by another request, please retry', 409)
+  }
+}
+
+// Called as a proposal is executed. Lump-sum budgets are paid out at once; milestone
+// budgets are set aside in the proposal's reservation until each tranche is released.
+export async function disburseBudget(tx: Tx, proposal: Proposal, userId: string, now = new Date()) {
+  const tranches = await tx.proposalDisbursement.findMany({
+    where: { proposalId: proposal.id, status: 'pending' },
+    orderBy: { position: 'asc' }
+  })
+  if (tranches.length === 0) {
+    return []
+  }
+
+  if (proposal.payoutMode === 'milestones') {
+    await reserveTreasuryFunds(tx, proposal.id, tranches.reduce((sum, tranche) => sum + tranche.amount, 0))
+    return []
+  }
+
+  const transactions: Transaction[] = []
+  for (const tranche of tranches) {
+    const transaction = await payFromTreasury(tx, {
+      proposalId: proposal.id,
+      recipientId: tranche.recipientId,
+      amount: tranche.amount,
+      description: `Budget of proposal ${proposal.id}`
+    })
+    await markPaid(tx, tranche, transaction, userId, now)
+    transactions.push(transaction)
+  }
+  return transactions
+}
+
+async function getMilestoneTranche(tx: Tx, disbursementId: string) {
+  const tranche = await tx.proposalDisbursement.findUnique({
+    where: { id: disbursementId },
+    include: { proposal: true }
+  })
+  if (!tranche) {
+    throw new GovernanceError('Disbursement not found', 404)
+  }
+  if (tranche.proposal.payoutMode !== 'milestones' || tranche.proposal.status !== 'executed') {
+    throw new GovernanceError('Only tranches of executed milestone proposals are released separately', 409)
+  }
+  if (tranche.status !== 'pending') {
+    throw new GovernanceError(`Tranche is already ${tranche.status}`, 409)
+  }
+  return tranche
+}
+
+// Pay a milestone tranche from the proposal's reservation once its milestone is delivered
+export async function releaseTranche(tx: Tx, disbursementId: string, userId: string, now = new Date()) {
+  const tranche = await getMilestoneTranche(tx, disbursementId)
+  const transaction = await payFromTreasury(tx, {
+    proposalId: tranche.proposalId,
+    recipientId: tranche.recipientId,
+    amount: tranche.amount,
+    fromReservation: true,
+    description: `Milestone of proposal ${tranche.proposalId}: ${tranche.milestone}`
+  })
+  await markPaid(tx, tranche, transaction, userId, now)
+
+  return {
+    disbursement: await tx.proposalDisbursement.findUniqueOrThrow({ where: { id: tranche.id } }),
+    transaction
+  }
+}
+
+// Drop a milestone that will not be delivered and return its money to the treasury
+export async function cancelTranche(tx: Tx, disbursementId: string, userId: string, now = new Date()) {
+  const tranche = await getMilestoneTranche(tx, disbursementId)
+  const cancelled = await tx.proposalDisbursement.updateMany({
+    where: { id: tranche.id, status: 'pending' },
+    data: { status: 'cancelled', releasedBy: userId, cancelledAt: now }
+  })
+  if (cancelled.count === 0) {
+    throw new GovernanceError('Tranche was changed by another request, please retry', 409)
+  }
+  await returnTreasuryFunds(tx, tranche.proposalId, tranche.amount)
+
+  return tx.proposalDisbursement.findUniqueOrThrow({ where: { id: tranche.id } })
+}
+
+export function serializeDisbursement(disbursement: ProposalDisbursement): Disbursement {
+  return {
+    id: disbursement.id,
+    recipientId: disbursement.recipientId,
+    amount: disbursement.amount,
+    milestone: disbursement.milestone,
+    status: disbursement.status as DisbursementStatus,
+    transactionId: disbursement.transactionId,
+    releasedBy: disbursement.releasedBy,
+    paidAt: disbursement.paidAt?.toISOString() ?? null,
+    cancelledAt: disbursement.cancelledAt?.toISOString() ?? null
+  }
+}
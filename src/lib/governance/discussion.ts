@@ -0,0 +1,359 @@
+import type { Prisma, Proposal } from '@prisma/client'
+import {
+  COMMENT_REACTIONS,
+  MAX_COMMENT_DEPTH,
+  type CommentAuthor,
+  type CommentEvent,
+  type CommentReaction,
+  type FlaggedComment,
+  type ModerationDecision,
+  type ProposalComment as SerializedComment,
+  type ProposalDiscussion,
+  type ReputationBadge,
+  type VoteType
+} from '@/lib/api/governance'
+import { ROLES, rolesHavePermission } from '@/lib/auth/permissions'
+import { isBootstrapAdmin } from '@/lib/auth/roles'
+import { createId } from '@/lib/ids'
+import { emitToAll } from '@/lib/socket'
+import { GovernanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Passport reputation (0 to 100) needed for each badge above "verified"
+const BADGE_THRESHOLDS: [ReputationBadge, number][] = [
+  ['pillar', 80],
+  ['trusted', 50]
+]
+
+// Roles whose holders are marked as moderators next to their comments
+const MODERATOR_ROLES = ROLES.filter(role => rolesHavePermission([role], 'governance:moderate'))
+
+const commentRelations = {
+  reactions: { select: { userId: true, reaction: true } }
+} satisfies Prisma.ProposalCommentInclude
+
+type LoadedComment = Prisma.ProposalCommentGetPayload<{ include: typeof commentRelations }>
+
+export function discussionOpen(proposal: Proposal) {
+  return (proposal.status === 'discussion' || proposal.status === 'voting') && !proposal.discussionLocked
+}
+
+function assertDiscussionOpen(proposal: Proposal) {
+  if (proposal.discussionLocked) {
+    throw new GovernanceError('The discussion on this proposal has been locked by a moderator', 409)
+  }
+  if (!discussionOpen(proposal)) {
+    throw new GovernanceError(`Proposal is ${proposal.status}; its discussion is closed`, 409)
+  }
+}
+
+async function getCommentOrThrow(tx: Tx, commentId: string) {
+  const comment = await tx.proposalComment.findUnique({
+    where: { id: commentId },
+    include: { ...commentRelations, proposal: true }
+  })
+  if (!comment || comment.proposal.status === 'draft') {
+    throw new GovernanceError('Comment not found', 404)
+  }
+  return comment
+}
+
+export async function postComment(
+  tx: Tx,
+  proposalId: string,
+  authorId: string,
+  body: string,
+  parentId?: string
+) {
+  const proposal = await tx.proposal.findUnique({ where: { id: proposalId } })
+  if (!proposal || (proposal.status === 'draft' && proposal.author !== authorId)) {
+    throw new GovernanceError('Proposal not found', 404)
+  }
+  assertDiscussionOpen(proposal)
+
+  let depth = 0
+  if (parentId) {
+    const parent = await tx.proposalComment.findUnique({ where: { id: parentId } })
+    if (!parent || parent.proposalId !== proposalId) {
+      throw new GovernanceError('The comment you are replying to was not found', 404)
+    }
+    if (parent.locked || parent.status === 'hidden') {
+      throw new GovernanceError('This comment does not take replies', 409)
+    }
+    depth = parent.depth + 1
+    if (depth > MAX_COMMENT_DEPTH) {
+      throw new GovernanceError(`Replies nest at most ${MAX_COMMENT_DEPTH} levels deep`)
+    }
+  }
+
+  return tx.proposalComment.create({
+    data: {
+      id: createId('comment'),
+      proposalId,
+      authorId,
+      parentId: parentId ?? null,
+      depth,
+      body
+    },
+    include: commentRelations
+  })
+}
+
+// Authors can edit their comments while the discussion is open; the old body is kept
+export async function editComment(tx: Tx, commentId: string, userId: string, body: string, now = new Date()) {
+  const comment = await getCommentOrThrow(tx, commentId)
+  if (comment.authorId !== userId) {
+    throw new GovernanceError('Only the author can edit this comment', 403)
+  }
+  assertDiscussionOpen(comment.proposal)
+  if (comment.status === 'hidden' || comment.locked) {
+    throw new GovernanceError('This comment can no longer be edited', 409)
+  }
+  if (comment.body === body) {
+    return comment
+  }
+
+  await tx.proposalCommentRevision.create({
+    data: { commentId, body: comment.body, createdAt: now }
+  })
+  return tx.proposalComment.update({
+    where: { id: commentId },
+    data: { body, editedAt: now },
+    include: commentRelations
+  })
+}
+
+// Add the member's reaction, or take it back if they already left it
+export async function toggleReaction(tx: Tx, commentId: string, userId: string, reaction: CommentReaction) {
+  const comment = await getCommentOrThrow(tx, commentId)
+  assertDiscussionOpen(comment.proposal)
+  if (comment.status === 'hidden') {
+    throw new GovernanceError('Hidden comments cannot be reacted to', 409)
+  }
+
+  const key = { commentId_userId_reaction: { commentId, userId, reaction } }
+  const existing = await tx.commentReaction.findUnique({ where: key })
+  if (existing) {
+    await tx.commentReaction.delete({ where: key })
+  } else {
+    await tx.commentReaction.create({ data: { commentId, userId, reaction } })
+  }
+
+  return {
+    comment: await tx.proposalComment.findUniqueOrThrow({ where: { id: commentId }, include: commentRelations }),
+    added: !existing
+  }
+}
+
+// Report a comment to the moderators. Flags stay open until a moderator hides the comment
+// or dismisses them.
+export async function flagComment(tx: Tx, commentId: string, userId: string, reason: string) {
+  const comment = await getCommentOrThrow(tx, commentId)
+  if (comment.authorId === userId) {
+    throw new GovernanceError('You cannot flag your own comment')
+  }
+  const existing = await tx.commentFlag.findUnique({ where: { commentId_userId: { commentId, userId } } })
+  if (existing) {
+    throw new GovernanceError('You have already flagged this comment', 409)
+  }
+
+  await tx.commentFlag.create({ data: { commentId, userId, reason } })
+  await tx.proposalComment.update({
+    where: { id: commentId },
+    data: { flagCount: { increment: 1 } }
+  })
+}
+
+export async function moderateComment(
+  tx: Tx,
+  commentId: string,
+  moderatorId: string,
+  decision: ModerationDecision,
+  note?: string,
+  now = new Date()
+) {
+  const comment = await getCommentOrThrow(tx, commentId)
+  const changes: Prisma.ProposalCommentUpdateInput = {}
+  switch (decision) {
+    case 'hide':
+      changes.status = 'hidden'
+      break
+    case 'unhide':
+      changes.status = 'visible'
+      break
+    case 'lock':
+    case 'unlock':
+      changes.locked = decision === 'lock'
+      break
+  }
+
+  // Hiding a comment deals with its flags as much as dismissing them does
+  if (decision === 'hide' || decision === 'dismiss-flags') {
+    await tx.commentFlag.updateMany({
+      where: { commentId, resolvedAt: null },
+      data: { resolvedAt: now }
+    })
+    changes.flagCount = 0
+  }
+
+  return tx.proposalComment.update({
+    where: { id: comment.id },
+    data: { ...changes, moderatedBy: moderatorId, moderationNote: note ?? null, moderatedAt: now },
+    include: commentRelations
+  })
+}
+
+export async function lockDiscussion(tx: Tx, proposalId: string, locked: boolean) {
+  const proposal = await tx.proposal.findUnique({ where: { id: proposalId } })
+  if (!proposal || proposal.status === 'draft') {
+    throw new GovernanceError('Proposal not found', 404)
+  }
+  return tx.proposal.update({ where: { id: proposalId }, data: { discussionLocked: locked } })
+}
+
+function reputationBadge(reputation: number | null): ReputationBadge {
+  if (reputation === null) {
+    return 'unverified'
+  }
+  return BADGE_THRESHOLDS.find(([, threshold]) => reputation >= threshold)?.[0] ?? 'verified'
+}
+
+// Names, badges and moderator status of everyone who wrote one of the comments
+async function loadAuthors(tx: Tx, authorIds: string[]) {
+  const ids = [...new Set(authorIds)]
+  const users = await tx.user.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } })
+  const passports = await tx.humanPassport.findMany({
+    where: { userId: { in: ids } },
+    select: { userId: true, reputationScore: true }
+  })
+  const moderatorRoles = await tx.userRole.findMany({
+    where: { userId: { in: ids }, role: { in: MODERATOR_ROLES } },
+    select: { userId: true }
+  })
+
+  const names = new Map(users.map(user => [user.id, user.name]))
+  const reputations = new Map(passports.map(passport => [passport.userId, passport.reputationScore]))
+  const moderators = new Set(moderatorRoles.map(role => role.userId))
+
+  return new Map(ids.map((id): [string, CommentAuthor] => {
+    const reputation = reputations.get(id) ?? null
+    return [id, {
+      id,
+      name: names.get(id) ?? null,
+      badge: reputationBadge(reputation),
+      reputation,
+      moderator: moderators.has(id) || isBootstrapAdmin(id)
+    }]
+  }))
+}
+
+function serializeComment(comment: LoadedComment, author: CommentAuthor, viewerId: string | null): SerializedComment {
+  const hidden = comment.status === 'hidden'
+  const reactions = Object.fromEntries(COMMENT_REACTIONS.map(reaction => [
+    reaction,
+    comment.reactions.filter(entry => entry.reaction === reaction).length
+  ])) as Record<CommentReaction, number>
+
+  return {
+    id: comment.id,
+    proposalId: comment.proposalId,
+    parentId: comment.parentId,
+    depth: comment.depth,
+    author,
+    body: hidden ? null : comment.body,
+    hidden,
+    locked: comment.locked,
+    reactions,
+    myReactions: viewerId
+      ? comment.reactions
+        .filter(entry => entry.userId === viewerId)
+        .map(entry => entry.reaction as CommentReaction)
+      : [],
+    editedAt: comment.editedAt?.toISOString() ?? null,
+    moderationNote: comment.moderationNote,
+    createdAt: comment.createdAt.toISOString()
+  }
+}
+
+export async function serializeComments(tx: Tx, comments: LoadedComment[], viewerId: string | null) {
+  const authors = await loadAuthors(tx, comments.map(comment => comment.authorId))
+  return comments.map(comment => serializeComment(comment, authors.get(comment.authorId)!, viewerId))
+}
+
+// Comments in the order they were written; clients nest them by parentId
+export async function getDiscussion(
+  tx: Tx,
+  proposal: Proposal,
+  viewerId: string | null,
+  canModerate: boolean
+): Promise<ProposalDiscussion> {
+  const comments = await tx.proposalComment.findMany({
+    where: { proposalId: proposal.id },
+    include: commentRelations,
+    orderBy: { createdAt: 'asc' }
+  })
+  const reasons = await tx.proposalVote.findMany({
+    where: { proposalId: proposal.id, reason: { not: null } },
+    select: { voteType: true, reason: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return {
+    proposalId: proposal.id,
+    open: discussionOpen(proposal),
+    locked: proposal.discussionLocked,
+    discussionEndsAt: proposal.discussionEndsAt?.toISOString() ?? null,
+    viewerId,
+    canModerate,
+    comments: await serializeComments(tx, comments, viewerId),
+    voteReasons: reasons
+      .filter(vote => vote.reason?.trim())
+      .map(vote => ({
+        voteType: vote.voteType as VoteType | null,
+        reason: vote.reason!,
+        at: vote.createdAt.toISOString()
+      }))
+  }
+}
+
+// Earlier bodies of a comment, newest first. Hidden comments keep their history hidden too.
+export async function getCommentHistory(tx: Tx, commentId: string, viewerId: string | null) {
+  const comment = await getCommentOrThrow(tx, commentId)
+  const revisions = comment.status === 'hidden'
+    ? []
+    : await tx.proposalCommentRevision.findMany({ where: { commentId }, orderBy: { createdAt: 'desc' } })
+
+  const [serialized] = await serializeComments(tx, [comment], viewerId)
+  return {
+    comment: serialized,
+    revisions: revisions.map(revision => ({ body: revision.body, replacedAt: revision.createdAt.toISOString() }))
+  }
+}
+
+// Moderation queue, most flagged first
+export async function getFlaggedComments(tx: Tx): Promise<FlaggedComment[]> {
+  const comments = await tx.proposalComment.findMany({
+    where: { flagCount: { gt: 0 } },
+    include: {
+      ...commentRelations,
+      flags: { where: { resolvedAt: null }, orderBy: { createdAt: 'asc' } }
+    },
+    orderBy: [{ flagCount: 'desc' }, { createdAt: 'asc' }]
+  })
+  const serialized = await serializeComments(tx, comments, null)
+
+  return comments.map((comment, index) => ({
+    comment: serialized[index],
+    body: comment.body,
+    flags: comment.flags.map(flag => ({ userId: flag.userId, reason: flag.reason, at: flag.createdAt.toISOString() }))
+  }))
+}
+
+// Push a comment to every open client once its transaction has committed
+export async function publishComment(tx: Tx, kind: CommentEvent['kind'], comment: LoadedComment) {
+  const [serialized] = await serializeComments(tx, [comment], null)
+  const event: CommentEvent = { kind, comment: serialized }
+  emitToAll('proposal:comment', event)
+  return serialized
+}
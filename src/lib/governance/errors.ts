@@ -0,0 +1,12 @@
+// Error raised by governance services; the API routes map it onto an HTTP response
+export class GovernanceError extends Error {
+  status: number
+  details?: Record<string, unknown>
+
+  constructor(message: string, status = 400, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'GovernanceError'
+    this.status = status
+    this.details = details
+  }
+}
@@ -0,0 +1,357 @@
+import type { CommunityGoal, GoalContribution, GoalMilestone, Prisma, PrismaClient } from '@prisma/client'
+import type {
+  CommunityGoal as SerializedGoal,
+  Contribution,
+  GoalMilestone as SerializedMilestone,
+  GoalStatus,
+  MilestoneStatus,
+  PublicContribution
+} from '@/lib/api/governance'
+import { createId } from '@/lib/ids'
+import { DEFAULT_CURRENCY } from '@/lib/finance/accounts'
+import { holdContribution, refundContribution, releaseGoalFunds } from '@/lib/finance/goal-escrow'
+import { GovernanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Milestones must add up to the target, and contributions fill it, to within this
+const AMOUNT_TOLERANCE = 1e-6
+const DAY_MS = 24 * 60 * 60 * 1000
+// A funded goal whose milestones are not all released this long after funding is refunded
+export const GOAL_DELIVERY_DAYS = Number(process.env.GOAL_DELIVERY_DAYS) || 180
+
+const goalRelations = {
+  milestones: { orderBy: { position: 'asc' } }
+} satisfies Prisma.CommunityGoalInclude
+
+export type LoadedGoal = Prisma.CommunityGoalGetPayload<{ include: typeof goalRelations }>
+
+export interface GoalInput {
+  title: string
+  description: string
+  category: string
+  ownerId: string
+  targetAmount: number
+  deadline: Date
+  milestones: { title: string, amount: number }[]
+  currency?: string
+}
+
+export async function createGoal(tx: Tx, input: GoalInput, now = new Date()) {
+  if (input.deadline <= now) {
+    throw new GovernanceError('The deadline must be in the future')
+  }
+  const planned = input.milestones.reduce((sum, milestone) => sum + milestone.amount, 0)
+  if (Math.abs(planned - input.targetAmount) > AMOUNT_TOLERANCE) {
+    throw new GovernanceError('Milestones must add up to the target amount', 400, {
+      targetAmount: input.targetAmount,
+      milestoneTotal: planned
+    })
+  }
+
+  return tx.communityGoal.create({
+    data: {
+      id: createId('goal'),
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      ownerId: input.ownerId,
+      currency: input.currency ?? DEFAULT_CURRENCY,
+      targetAmount: input.targetAmount,
+      deadline: input.deadline,
+      milestones: {
+        create: input.milestones.map((milestone, position) => ({
+          id: createId('goalMilestone'),
+          position,
+          title: milestone.title,
+          amount: milestone.amount
+        }))
+      }
+    },
+    include: goalRelations
+  })
+}
+
+export async function getGoalOrThrow(tx: Tx, goalId: string) {
+  const goal = await tx.communityGoal.findUnique({ where: { id: goalId }, include: goalRelations })
+  if (!goal) {
+    throw new GovernanceError('Community goal not found', 404)
+  }
+  return goal
+}
+
+// Move a contribution from the member's wallet into the goal's escrow. Contributions
+// stop at the target; the one that reaches it marks the goal funded.
+export async function contributeToGoal(
+  tx: Tx,
+  goalId: string,
+  userId: string,
+  amount: number,
+  anonymous = false,
+  now = new Date()
+) {
+  const goal = await getGoalOrThrow(tx, goalId)
+  if (goal.status !== 'open') {
+    throw new GovernanceError(`Goal is ${goal.status} and no longer takes contributions`, 409)
+  }
+  if (goal.deadline <= now) {
+    throw new GovernanceError('The goal has passed its deadline', 409)
+  }
+  const remaining = goal.targetAmount - goal.raisedAmount
+  if (amount > remaining + AMOUNT_TOLERANCE) {
+    throw new GovernanceError(`Only ${goal.currency} ${remaining.toFixed(2)} is left to raise`, 400, { remaining })
+  }
+
+  const transaction = await holdContribution(tx, userId, goalId, amount, goal.currency)
+  // Named contributors count once however often they give. Every anonymous contribution counts
+  // as a new contributor, so the public count does not reveal whether a named one was behind it.
+  const repeat = !anonymous && await tx.goalContribution.count({ where: { goalId, userId, anonymous: false } }) > 0
+  const contribution = await tx.goalContribution.create({
+    data: {
+      id: createId('contribution'),
+      goalId,
+      userId,
+      amount,
+      anonymous,
+      transactionId: transaction.id
+    }
+  })
+
+  const raised = await tx.communityGoal.update({
+    where: { id: goalId },
+    data: { raisedAmount: { increment: amount }, contributorCount: { increment: repeat ? 0 : 1 } }
+  })
+  if (raised.raisedAmount >= raised.targetAmount - AMOUNT_TOLERANCE) {
+    await tx.communityGoal.updateMany({
+      where: { id: goalId, status: 'open' },
+      data: { status: 'funded', fundedAt: now }
+    })
+  }
+
+  return { contribution, transaction, goal: await getGoalOrThrow(tx, goalId) }
+}
+
+// When a funded goal's unreleased escrow goes back to its contributors
+export function deliveryDeadline(goal: CommunityGoal): Date | null {
+  return goal.fundedAt ? new Date(goal.fundedAt.getTime() + GOAL_DELIVERY_DAYS * DAY_MS) : null
+}
+
+// Close an open or funded goal and give every held contribution its share of what is
+// still in escrow. Nothing has been released from an open goal, so those refunds are in full.
+async function refundGoal(tx: Tx, goal: CommunityGoal, status: 'refunded' | 'cancelled', now: Date) {
+  const closed = await tx.communityGoal.updateMany({
+    where: { id: goal.id, status: goal.status },
+    data: { status, closedAt: now }
+  })
+  if (closed.count === 0) {
+    throw new GovernanceError('Goal was changed by another request, please retry', 409)
+  }
+
+  const unreleased = goal.raisedAmount > 0 ? (goal.raisedAmount - goal.releasedAmount) / goal.raisedAmount : 0
+  const held = await tx.goalContribution.findMany({ where: { goalId: goal.id, status: 'held' } })
+  for (const contribution of held) {
+    const amount = contribution.amount * unreleased
+    const refund = await refundContribution(tx, contribution.userId, goal.id, amount, goal.currency)
+    await tx.goalContribution.update({
+      where: { id: contribution.id },
+      data: { status: 'refunded', refundTransactionId: refund.id }
+    })
+  }
+  return held.length
+}
+
+// Owners can withdraw a goal while it is raising. Members who can execute proposals
+// (canManage) can withdraw anyone's, and can also cancel a funded goal whose delivery has
+// stalled, refunding what has not been released to the owner.
+export async function cancelGoal(tx: Tx, goalId: string, userId: string, canManage: boolean, now = new Date()) {
+  const goal = await getGoalOrThrow(tx, goalId)
+  if (!canManage && goal.ownerId !== userId) {
+    throw new GovernanceError('Only the owner can cancel this goal', 403)
+  }
+  if (goal.status !== 'open' && !(canManage && goal.status === 'funded')) {
+    throw new GovernanceError(`Goal is ${goal.status} and can no longer be cancelled`, 409)
+  }
+
+  const refunds = await refundGoal(tx, goal, 'cancelled', now)
+  return { goal: await getGoalOrThrow(tx, goalId), refunds }
+}
+
+// Scheduler job: refund goals that reached their deadline without being funded, and funded
+// goals that were not delivered within GOAL_DELIVERY_DAYS
+export async function closeExpiredGoals(client: PrismaClient, now = new Date()) {
+  const expired = await client.communityGoal.findMany({
+    where: {
+      OR: [
+        { status: 'open', deadline: { lte: now } },
+        { status: 'funded', fundedAt: { lte: new Date(now.getTime() - GOAL_DELIVERY_DAYS * DAY_MS) } }
+      ]
+    },
+    orderBy: { deadline: 'asc' }
+  })
+
+  let closed = 0
+  for (const goal of expired) {
+    try {
+      await client.$transaction(tx => refundGoal(tx, goal, 'refunded', now))
+      closed++
+    } catch (error) {
+      // Leave it for the next run
+      console.error(`Could not refund community goal ${goal.id}:`, error)
+    }
+  }
+  return closed
+}
+
+async function getMilestoneOrThrow(tx: Tx, milestoneId: string) {
+  const milestone = await tx.goalMilestone.findUnique({ where: { id: milestoneId }, include: { goal: true } })
+  if (!milestone) {
+    throw new GovernanceError('Milestone not found', 404)
+  }
+  return milestone
+}
+
+// The owner reports a milestone done. Milestones are delivered in order, once the goal is funded.
+export async function submitGoalEvidence(
+  tx: Tx,
+  milestoneId: string,
+  userId: string,
+  evidence: string,
+  evidenceUrl?: string,
+  now = new Date()
+) {
+  const milestone = await getMilestoneOrThrow(tx, milestoneId)
+  if (milestone.goal.ownerId !== userId) {
+    throw new GovernanceError('Only the goal owner can submit evidence', 403)
+  }
+  if (milestone.goal.status !== 'funded') {
+    throw new GovernanceError(`Goal is ${milestone.goal.status}; evidence is taken once it is funded`, 409)
+  }
+  if (milestone.status !== 'pending') {
+    throw new GovernanceError(`Milestone is already ${milestone.status}`, 409)
+  }
+  const earlier = await tx.goalMilestone.count({
+    where: { goalId: milestone.goalId, position: { lt: milestone.position }, status: { not: 'released' } }
+  })
+  if (earlier > 0) {
+    throw new GovernanceError('Earlier milestones have to be released first', 409)
+  }
+
+  return tx.goalMilestone.update({
+    where: { id: milestoneId },
+    data: { status: 'submitted', evidence, evidenceUrl: evidenceUrl ?? null, submittedAt: now, reviewNote: null }
+  })
+}
+
+// Approve a milestone and pay its amount from escrow to the owner, or send it back with a note
+export async function reviewGoalMilestone(
+  tx: Tx,
+  milestoneId: string,
+  reviewerId: string,
+  approve: boolean,
+  note?: string,
+  now = new Date()
+) {
+  const milestone = await getMilestoneOrThrow(tx, milestoneId)
+  if (milestone.goal.ownerId === reviewerId) {
+    throw new GovernanceError('Owners cannot review their own milestones', 403)
+  }
+  if (milestone.goal.status !== 'funded') {
+    throw new GovernanceError(`Goal is ${milestone.goal.status}; its milestones can no longer be released`, 409)
+  }
+  if (milestone.status !== 'submitted') {
+    throw new GovernanceError(`Milestone is ${milestone.status}, not waiting for review`, 409)
+  }
+
+  if (!approve) {
+    const returned = await tx.goalMilestone.update({
+      where: { id: milestoneId },
+      data: { status: 'pending', reviewedBy: reviewerId, reviewNote: note ?? null }
+    })
+    return { milestone: returned, transaction: null }
+  }
+
+  const { goal } = milestone
+  const transaction = await releaseGoalFunds(tx, goal.ownerId, goal.id, milestone.amount, goal.currency)
+  const released = await tx.goalMilestone.update({
+    where: { id: milestoneId },
+    data: { status: 'released', reviewedBy: reviewerId, reviewNote: note ?? null, releasedAt: now, transactionId: transaction.id }
+  })
+  await tx.communityGoal.update({
+    where: { id: goal.id },
+    data: { releasedAmount: { increment: milestone.amount } }
+  })
+
+  const outstanding = await tx.goalMilestone.count({ where: { goalId: goal.id, status: { not: 'released' } } })
+  if (outstanding === 0) {
+    await tx.communityGoal.update({ where: { id: goal.id }, data: { status: 'completed', closedAt: now } })
+  }
+  return { milestone: released, transaction }
+}
+
+// Contributions as the public sees them: amounts and times, with anonymous contributors left out
+export async function getPublicContributions(tx: Tx, goalId: string): Promise<PublicContribution[]> {
+  const contributions = await tx.goalContribution.findMany({
+    where: { goalId },
+    select: { userId: true, anonymous: true, amount: true, createdAt: true },
+    orderBy: { createdAt: 'desc' }
+  })
+  return contributions.map(contribution => ({
+    contributorId: contribution.anonymous ? null : contribution.userId,
+    amount: contribution.amount,
+    at: contribution.createdAt.toISOString()
+  }))
+}
+
+export function serializeMilestone(milestone: GoalMilestone): SerializedMilestone {
+  return {
+    id: milestone.id,
+    title: milestone.title,
+    amount: milestone.amount,
+    status: milestone.status as MilestoneStatus,
+    evidence: milestone.evidence,
+    evidenceUrl: milestone.evidenceUrl,
+    reviewNote: milestone.reviewNote,
+    submittedAt: milestone.submittedAt?.toISOString() ?? null,
+    releasedAt: milestone.releasedAt?.toISOString() ?? null
+  }
+}
+
+export function serializeGoal(goal: LoadedGoal, now = new Date()): SerializedGoal {
+  return {
+    id: goal.id,
+    title: goal.title,
+    description: goal.description,
+    category: goal.category,
+    ownerId: goal.ownerId,
+    currency: goal.currency,
+    targetAmount: goal.targetAmount,
+    raisedAmount: goal.raisedAmount,
+    releasedAmount: goal.releasedAmount,
+    contributorCount: goal.contributorCount,
+    percentageFunded: Math.round(goal.raisedAmount / goal.targetAmount * 1000) / 10,
+    deadline: goal.deadline.toISOString(),
+    daysRemaining: Math.max(0, Math.ceil((goal.deadline.getTime() - now.getTime()) / DAY_MS)),
+    status: goal.status as GoalStatus,
+    milestones: goal.milestones.map(serializeMilestone),
+    fundedAt: goal.fundedAt?.toISOString() ?? null,
+    deliverBy: deliveryDeadline(goal)?.toISOString() ?? null,
+    closedAt: goal.closedAt?.toISOString() ?? null,
+    createdAt: goal.createdAt.toISOString()
+  }
+}
+
+// Only ever returned to the contributor themselves
+export function serializeContribution(contribution: GoalContribution): Contribution {
+  return {
+    id: contribution.id,
+    goalId: contribution.goalId,
+    amount: contribution.amount,
+    anonymous: contribution.anonymous,
+    status: contribution.status as Contribution['status'],
+    transactionId: contribution.transactionId,
+    refundTransactionId: contribution.refundTransactionId,
+    at: contribution.createdAt.toISOString()
+  }
+}
+
+export { goalRelations }
@@ -0,0 +1,753 @@
+import type { Prisma, PrismaClient, Proposal, ProposalEvent, ProposalVote } from '@prisma/client'
+import type {
+  Ballot,
+  BallotType,
+  PayoutMode,
+  OptionBallotType,
+  OptionTally,
+  Proposal as SerializedProposal,
+  ProposalAmendment,
+  ProposalTally,
+  ProposalStatus,
+  ProposalTransition,
+  Tally,
+  Vote,
+  VoteType,
+  VotingMethod
+} from '@/lib/api/governance'
+import { createId } from '@/lib/ids'
+import { disburseLoan, rejectLoan } from '@/lib/finance/loans'
+import { emitToAll, emitToUser } from '@/lib/socket'
+import { GovernanceError } from './errors'
+import { countBallots, validateBallot } from './ballots'
+import { delegatedVotes } from './delegation'
+import { disburseBudget, planDisbursements, serializeDisbursement, type DisbursementInput } from './disbursements'
+import { initialQuorum, quorumBasis, takeBalanceSnapshot, voteWeight } from './voting'
+import { AMENDMENT_POLICY, recordVersion, supersedeVotes } from './versions'
+
+type Tx = Prisma.TransactionClient
+
+export const DISCUSSION_PERIOD_HOURS = Number(process.env.PROPOSAL_DISCUSSION_HOURS) || 48
+// Authors can open voting early, but not before the proposal has been discussed this long
+export const MIN_DISCUSSION_HOURS = Math.min(
+  Number(process.env.PROPOSAL_MIN_DISCUSSION_HOURS) || 24,
+  DISCUSSION_PERIOD_HOURS
+)
+export const VOTING_PERIOD_DAYS = Number(process.env.PROPOSAL_VOTING_DAYS) || 7
+// Voters of any vote type needed for a result to count; below it the proposal expires.
+// Token-weighted proposals use a share of the G$ supply instead (see voting.ts).
+export const PROPOSAL_QUORUM = Number(process.env.PROPOSAL_QUORUM) || 10
+// Queued proposals wait this long before they can be executed, and can be vetoed meanwhile
+export const TREASURY_TIMELOCK_HOURS = Number(process.env.TREASURY_TIMELOCK_HOURS) || 48
+
+// Every allowed move. Anything not listed here is rejected, and final statuses have no way out.
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, readonly ProposalStatus[]> = {
+  draft: ['discussion', 'cancelled'],
+  discussion: ['voting', 'cancelled'],
+  voting: ['passed', 'rejected', 'expired', 'cancelled'],
+  passed: ['queued', 'cancelled'],
+  rejected: [],
+  expired: [],
+  queued: ['executed', 'cancelled'],
+  executed: [],
+  cancelled: []
+}
+
+// Statuses closeVoting moves a proposal to; their event carries the final tally
+const VOTING_OUTCOMES: ProposalStatus[] = ['passed', 'rejected', 'expired']
+
+const VOTE_COLUMNS = {
+  for: 'votesFor',
+  against: 'votesAgainst',
+  abstain: 'votesAbstain'
+} as const
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Proposals are always loaded with their options and budget tranches, in display order
+export const proposalRelations = {
+  options: { orderBy: { position: 'asc' } },
+  disbursements: { orderBy: { position: 'asc' } }
+} satisfies Prisma.ProposalInclude
+
+export type LoadedProposal = Prisma.ProposalGetPayload<{ include: typeof proposalRelations }>
+
+export interface ProposalInput {
+  title: string
+  description: string
+  category: string
+  author: string
+  budget?: number
+  votingMethod?: VotingMethod
+  ballotType?: BallotType
+  // Choices for a multi-option proposal, in display order
+  options?: { label: string, description?: string }[]
+  // Who the budget is paid to from the community treasury, and how
+  payoutMode?: PayoutMode
+  disbursements?: DisbursementInput[]
+  // Loan request this proposal approves when executed
+  loanId?: string
+  // Start as a private draft instead of going straight to discussion
+  draft?: boolean
+}
+
+// A proposal after a transition, with the event recording it
+export interface ProposalChange {
+  proposal: LoadedProposal
+  event: ProposalEvent
+}
+
+function recordEvent(
+  tx: Tx,
+  proposalId: string,
+  from: ProposalStatus | null,
+  to: ProposalStatus,
+  actor: string | null,
+  data?: object
+) {
+  return tx.proposalEvent.create({
+    data: {
+      proposalId,
+      fromStatus: from,
+      toStatus: to,
+      actor,
+      data: data ? JSON.stringify(data) : null
+    }
+  })
+}
+
+type StatusTimestamps = Partial<Pick<
+  Proposal,
+  'discussionStartsAt' | 'discussionEndsAt' | 'votingStartsAt' | 'votingDeadline' | 'closedAt' | 'queuedAt' | 'executableAt' | 'executedAt' | 'cancelledAt'
+>>
+
+// Timestamps stamped on a proposal as it enters each status
+function enteredFields(status: ProposalStatus, now: Date): StatusTimestamps {
+  switch (status) {
+    case 'discussion':
+      return { discussionStartsAt: now, discussionEndsAt: new Date(now.getTime() + DISCUSSION_PERIOD_HOURS * HOUR_MS) }
+    case 'voting':
+      return { votingStartsAt: now, votingDeadline: new Date(now.getTime() + VOTING_PERIOD_DAYS * 24 * HOUR_MS) }
+    case 'passed':
+    case 'rejected':
+    case 'expired':
+      return { closedAt: now }
+    case 'queued':
+      return { queuedAt: now, executableAt: new Date(now.getTime() + TREASURY_TIMELOCK_HOURS * HOUR_MS) }
+    case 'executed':
+      return { executedAt: now }
+    case 'cancelled':
+      return { cancelledAt: now }
+    default:
+      return {}
+  }
+}
+
+// Move a proposal along the lifecycle. The status guard on the update makes a concurrent
+// transition (say the scheduler closing a vote while a treasurer cancels) fail cleanly.
+async function transition(
+  tx: Tx,
+  proposal: Proposal,
+  to: ProposalStatus,
+  actor: string | null,
+  now: Date,
+  extra: { data?: object, fields?: Prisma.ProposalUpdateManyMutationInput } = {}
+): Promise<ProposalChange> {
+  const from = proposal.status as ProposalStatus
+  if (!PROPOSAL_TRANSITIONS[from].includes(to)) {
+    throw new GovernanceError(`A ${from} proposal cannot move to ${to}`, 409)
+  }
+
+  const moved = await tx.proposal.updateMany({
+    where: { id: proposal.id, status: from },
+    data: { status: to, ...enteredFields(to, now), ...extra.fields }
+  })
+  if (moved.count === 0) {
+    throw new GovernanceError('Proposal was changed by another request, please retry', 409)
+  }
+
+  const event = await recordEvent(tx, proposal.id, from, to, actor, extra.data)
+  return {
+    proposal: await tx.proposal.findUniqueOrThrow({ where: { id: proposal.id }, include: proposalRelations }),
+    event
+  }
+}
+
+export async function getProposalOrThrow(tx: Tx, proposalId: string) {
+  const proposal = await tx.proposal.findUnique({ where: { id: proposalId }, include: proposalRelations })
+  if (!proposal) {
+    throw new GovernanceError('Proposal not found', 404)
+  }
+  return proposal
+}
+
+function assertAuthor(proposal: Proposal, userId: string) {
+  if (proposal.author !== userId) {
+    throw new GovernanceError('Only the author can do that', 403)
+  }
+}
+
+// A loan still waiting on its proposal is rejected when the proposal fails or is cancelled
+async function releaseLoan(tx: Tx, loanId: string) {
+  const loan = await tx.loan.findUnique({ where: { id: loanId }, select: { status: true } })
+  if (loan?.status === 'pending') {
+    await rejectLoan(tx, loanId)
+  }
+}
+
+export async function createProposal(tx: Tx, input: ProposalInput, now = new Date()): Promise<ProposalChange> {
+  if ((input.ballotType ?? 'binary') !== 'binary' && (input.budget || input.disbursements?.length)) {
+    throw new GovernanceError('Only yes/no proposals can carry a budget')
+  }
+  const status: ProposalStatus = input.draft ? 'draft' : 'discussion'
+  const votingMethod = input.votingMethod ?? 'one-person-one-vote'
+  const id = createId('proposal')
+  // Token weights come from balances now, so moving G$ around later cannot buy votes
+  const snapshotSupply = votingMethod === 'token' ? await takeBalanceSnapshot(tx, id) : null
+  // Loan proposals are paid from the loan pool; every other budget from the treasury
+  const payoutMode = input.payoutMode ?? 'lump-sum'
+  const disbursements = input.loanId
+    ? []
+    : await planDisbursements(tx, input.budget ?? 0, payoutMode, input.disbursements ?? [])
+
+  const proposal = await tx.proposal.create({
+    data: {
+      id,
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      author: input.author,
+      status,
+      budget: input.budget ?? 0,
+      payoutMode,
+      loanId: input.loanId,
+      votingMethod,
+      ballotType: input.ballotType ?? 'binary',
+      quorum: initialQuorum(votingMethod, snapshotSupply, PROPOSAL_QUORUM),
+      snapshotSupply,
+      ...enteredFields(status, now),
+      options: {
+        create: (input.options ?? []).map((option, position) => ({
+          id: createId('proposalOption'),
+          position,
+          label: option.label,
+          description: option.description
+        }))
+      },
+      disbursements: { create: disbursements }
+    },
+    include: proposalRelations
+  })
+
+  await recordVersion(tx, proposal, input.author, { version: 1 }, now)
+  const event = await recordEvent(tx, proposal.id, null, status, input.author)
+  return { proposal: await getProposalOrThrow(tx, proposal.id), event }
+}
+
+export async function submitProposal(tx: Tx, proposalId: string, userId: string, now = new Date()) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  assertAuthor(proposal, userId)
+  return transition(tx, proposal, 'discussion', userId, now)
+}
+
+// Authors may open voting early; otherwise the scheduler does it when discussion ends
+export async function openVoting(tx: Tx, proposalId: string, userId: string, now = new Date()) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  assertAuthor(proposal, userId)
+  const earliest = proposal.discussionStartsAt
+    ? new Date(proposal.discussionStartsAt.getTime() + MIN_DISCUSSION_HOURS * HOUR_MS)
+    : null
+  if (proposal.status === 'discussion' && earliest && now < earliest) {
+    throw new GovernanceError(
+      `Proposals are discussed for at least ${MIN_DISCUSSION_HOURS} hours before voting opens`,
+      409,
+      { votingOpensFrom: earliest.toISOString() }
+    )
+  }
+  return transition(tx, proposal, 'voting', userId, now)
+}
+
+export interface AmendmentInput {
+  title?: string
+  description?: string
+  summary: string
+}
+
+// The author rewords their proposal as a new version. Every amendment is material: the author
+// does not get to decide that a change is too small to matter to the people who already voted.
+// During voting it supersedes the votes cast so far, under the community's AMENDMENT_POLICY: with "reset"
+// voting starts over with a full voting period, with "invalidate" the deadline stays.
+export async function amendProposal(
+  tx: Tx,
+  proposalId: string,
+  userId: string,
+  input: AmendmentInput,
+  now = new Date()
+) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  assertAuthor(proposal, userId)
+  if (!['draft', 'discussion', 'voting'].includes(proposal.status)) {
+    throw new GovernanceError(`Proposal is ${proposal.status} and can no longer be amended`, 409)
+  }
+  if (proposal.status === 'voting' && proposal.votingDeadline && proposal.votingDeadline <= now) {
+    throw new GovernanceError('Voting period has ended')
+  }
+
+  const title = input.title ?? proposal.title
+  const description = input.description ?? proposal.description
+  if (title === proposal.title && description === proposal.description) {
+    throw new GovernanceError('The amendment does not change the proposal')
+  }
+
+  const amended = await tx.proposal.update({
+    where: { id: proposalId },
+    data: { title, description },
+    include: proposalRelations
+  })
+  const version = await recordVersion(tx, amended, userId, {
+    version: proposal.version + 1,
+    summary: input.summary,
+    material: true
+  }, now)
+
+  const affectsVotes = proposal.status === 'voting'
+  const superseded = affectsVotes ? await supersedeVotes(tx, proposalId, version.version, now) : []
+  if (affectsVotes) {
+    await tx.proposal.update({
+      where: { id: proposalId },
+      data: {
+        votesFor: 0,
+        votesAgainst: 0,
+        votesAbstain: 0,
+        voterCount: 0,
+        ...(AMENDMENT_POLICY === 'reset' ? enteredFields('voting', now) : {})
+      }
+    })
+  }
+
+  const amendment: ProposalAmendment = {
+    proposalId,
+    version: version.version,
+    contentHash: version.contentHash,
+    material: version.material,
+    policy: affectsVotes ? AMENDMENT_POLICY : null,
+    supersededVotes: superseded.length
+  }
+  return { proposal: await getProposalOrThrow(tx, proposalId), version, amendment, superseded }
+}
+
+// Load a proposal for voting, checking it is open and the member has not voted on it yet
+async function openBallot(tx: Tx, proposalId: string, userId: string, now: Date, versionHash?: string) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  if (proposal.status !== 'voting') {
+    throw new GovernanceError(`Proposal is ${proposal.status}, not open for voting`, 409)
+  }
+  if (proposal.votingDeadline && proposal.votingDeadline <= now) {
+    throw new GovernanceError('Voting period has ended')
+  }
+  if (versionHash && versionHash !== proposal.contentHash) {
+    throw new GovernanceError('The proposal has been amended since you read it; review the new version first', 409, {
+      version: proposal.version,
+      contentHash: proposal.contentHash
+    })
+  }
+
+  const existing = await tx.proposalVote.findUnique({
+    where: { proposalId_userId: { proposalId, userId } }
+  })
+  if (existing) {
+    throw new GovernanceError('You have already voted on this proposal')
+  }
+  return proposal
+}
+
+export interface VoteOptions {
+  // Quadratic voting only
+  credits?: number
+  reason?: string
+  // The version the member read, checked against the current one
+  versionHash?: string
+}
+
+// For, against or abstain on a yes/no proposal
+export async function castVote(
+  tx: Tx,
+  proposalId: string,
+  userId: string,
+  voteType: VoteType,
+  options: VoteOptions = {},
+  now = new Date()
+) {
+  const proposal = await openBallot(tx, proposalId, userId, now, options.versionHash)
+  if (proposal.ballotType !== 'binary') {
+    throw new GovernanceError('This proposal has options to choose between; cast a ballot instead')
+  }
+
+  const { weight, credits } = await voteWeight(tx, proposal, userId, options.credits, now)
+  const vote = await tx.proposalVote.create({
+    data: {
+      proposalId,
+      userId,
+      voteType,
+      weight,
+      credits,
+      reason: options.reason || null,
+      versionHash: proposal.contentHash
+    }
+  })
+  const updated = await tx.proposal.update({
+    where: { id: proposalId },
+    data: { [VOTE_COLUMNS[voteType]]: { increment: weight }, voterCount: { increment: 1 } },
+    include: proposalRelations
+  })
+
+  return { vote, proposal: updated }
+}
+
+// A plurality, ranked-choice, approval or score ballot on a multi-option proposal.
+// Ballots are counted when tallied, since instant runoff needs every ranking.
+export async function castBallot(
+  tx: Tx,
+  proposalId: string,
+  userId: string,
+  ballot: Ballot,
+  options: VoteOptions = {},
+  now = new Date()
+) {
+  const proposal = await openBallot(tx, proposalId, userId, now, options.versionHash)
+  if (proposal.ballotType === 'binary') {
+    throw new GovernanceError('This is a yes/no proposal; vote for, against or abstain instead')
+  }
+  validateBallot(proposal.ballotType as OptionBallotType, ballot, proposal.options)
+
+  const { weight, credits } = await voteWeight(tx, proposal, userId, options.credits, now)
+  const vote = await tx.proposalVote.create({
+    data: {
+      proposalId,
+      userId,
+      ballot: JSON.stringify(ballot),
+      weight,
+      credits,
+      reason: options.reason || null,
+      versionHash: proposal.contentHash
+    }
+  })
+  const updated = await tx.proposal.update({
+    where: { id: proposalId },
+    data: { voterCount: { increment: 1 } },
+    include: proposalRelations
+  })
+
+  return { vote, proposal: updated }
+}
+
+// A vote as it is counted: a direct vote, or a delegator's power following their voter's choice
+interface CountedVote {
+  voteType: string | null
+  ballot: string | null
+  weight: number
+}
+
+// Totals are vote weights, including power delegated to the voters. Quorum is measured
+// in voters or weight depending on the method.
+export function tallyProposal(proposal: Proposal, delegated: CountedVote[] = []): Tally {
+  const method = proposal.votingMethod as VotingMethod
+  const basis = quorumBasis(method)
+  const fromDelegates = { for: 0, against: 0, abstain: 0 }
+  for (const vote of delegated) {
+    if (vote.voteType) fromDelegates[vote.voteType as VoteType] += vote.weight
+  }
+
+  const votesFor = proposal.votesFor + fromDelegates.for
+  const votesAgainst = proposal.votesAgainst + fromDelegates.against
+  const votesAbstain = proposal.votesAbstain + fromDelegates.abstain
+  const total = votesFor + votesAgainst + votesAbstain
+  const voters = proposal.voterCount + delegated.length
+  return {
+    ballotType: 'binary',
+    method,
+    for: votesFor,
+    against: votesAgainst,
+    abstain: votesAbstain,
+    total,
+    voters,
+    delegated: fromDelegates,
+    delegatedVoters: delegated.length,
+    quorumBasis: basis,
+    quorum: proposal.quorum,
+    quorumReached: (basis === 'weight' ? total : voters) >= proposal.quorum
+  }
+}
+
+// Count the ballots on a multi-option proposal, round by round
+export function tallyOptions(proposal: LoadedProposal, votes: CountedVote[], delegated: CountedVote[] = []): OptionTally {
+  const method = proposal.votingMethod as VotingMethod
+  const basis = quorumBasis(method)
+  const ballotType = proposal.ballotType as OptionBallotType
+  const parse = (vote: CountedVote, isDelegated: boolean) => vote.ballot
+    ? [{ ballot: JSON.parse(vote.ballot) as Ballot, weight: vote.weight, delegated: isDelegated }]
+    : []
+
+  const ballots = [...votes.flatMap(vote => parse(vote, false)), ...delegated.flatMap(vote => parse(vote, true))]
+  const total = ballots.reduce((sum, { weight }) => sum + weight, 0)
+  const delegatedWeight = delegated.reduce((sum, { weight }) => sum + weight, 0)
+  const voters = proposal.voterCount + delegated.length
+  const { rounds, winner } = countBallots(ballotType, ballots, proposal.options)
+
+  return {
+    ballotType,
+    method,
+    total,
+    voters,
+    delegatedWeight,
+    delegatedVoters: delegated.length,
+    quorumBasis: basis,
+    quorum: proposal.quorum,
+    quorumReached: (basis === 'weight' ? total : voters) >= proposal.quorum,
+    rounds,
+    winner
+  }
+}
+
+// Tally a proposal as it stands, following delegations from members who have not voted.
+// Once voting has closed, the tally recorded on the closing event is the result: later
+// delegations and balance changes do not move it.
+export async function getTally(tx: Tx, proposal: LoadedProposal, now = new Date()): Promise<ProposalTally> {
+  if (proposal.status !== 'voting') {
+    const closed = await tx.proposalEvent.findFirst({
+      where: { proposalId: proposal.id, fromStatus: 'voting', toStatus: { in: VOTING_OUTCOMES } },
+      orderBy: { createdAt: 'desc' }
+    })
+    if (closed?.data) {
+      return JSON.parse(closed.data) as ProposalTally
+    }
+  }
+
+  const votes = await tx.proposalVote.findMany({
+    where: { proposalId: proposal.id },
+    select: { userId: true, voteType: true, ballot: true, weight: true }
+  })
+  const voterChoices = new Map(votes.map(vote => [vote.userId, vote]))
+  const delegated = (await delegatedVotes(tx, proposal, votes, now)).flatMap(({ voterId, weight }) => {
+    const choice = voterChoices.get(voterId)
+    return choice ? [{ voteType: choice.voteType, ballot: choice.ballot, weight }] : []
+  })
+
+  return proposal.ballotType === 'binary'
+    ? tallyProposal(proposal, delegated)
+    : tallyOptions(proposal, votes, delegated)
+}
+
+// Without quorum a proposal expires. With it, a yes/no proposal passes on more weight for
+// than against, and a multi-option proposal passes when one option wins outright.
+export function votingOutcome(tally: ProposalTally): 'passed' | 'rejected' | 'expired' {
+  if (!tally.quorumReached) {
+    return 'expired'
+  }
+  if (tally.ballotType !== 'binary') {
+    return tally.winner ? 'passed' : 'rejected'
+  }
+  return tally.for > tally.against ? 'passed' : 'rejected'
+}
+
+// Close voting and record the final tally and quorum result on the proposal and its event
+export async function closeVoting(tx: Tx, proposal: LoadedProposal, now = new Date()): Promise<ProposalChange> {
+  const tally = await getTally(tx, proposal, now)
+  const outcome = votingOutcome(tally)
+  const change = await transition(tx, proposal, outcome, null, now, {
+    data: tally,
+    fields: {
+      quorumReached: tally.quorumReached,
+      winningOptionId: outcome === 'passed' && tally.ballotType !== 'binary' ? tally.winner : null
+    }
+  })
+
+  if (outcome !== 'passed' && proposal.loanId) {
+    await releaseLoan(tx, proposal.loanId)
+  }
+  return change
+}
+
+export async function queueProposal(tx: Tx, proposalId: string, userId: string, now = new Date()) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  return transition(tx, proposal, 'queued', userId, now)
+}
+
+// Carry out a queued proposal once its timelock has passed. Loan proposals pay the loan
+// out of the community pool; other budgets are paid from the community treasury.
+export async function executeProposal(tx: Tx, proposalId: string, userId: string, now = new Date()) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  if (proposal.status === 'queued' && proposal.executableAt && proposal.executableAt > now) {
+    throw new GovernanceError('The proposal is still in its timelock', 409, {
+      executableAt: proposal.executableAt.toISOString()
+    })
+  }
+  const change = await transition(tx, proposal, 'executed', userId, now)
+
+  if (proposal.loanId) {
+    await disburseLoan(tx, proposal.loanId, now)
+  }
+  const transactions = await disburseBudget(tx, proposal, userId, now)
+
+  return {
+    ...change,
+    proposal: await tx.proposal.findUniqueOrThrow({ where: { id: proposalId }, include: proposalRelations }),
+    transactions
+  }
+}
+
+// Stop a queued proposal before its timelock ends. After that only execution is left.
+export async function vetoProposal(tx: Tx, proposalId: string, userId: string, reason?: string, now = new Date()) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  if (proposal.status !== 'queued') {
+    throw new GovernanceError(`Only queued proposals can be vetoed; this one is ${proposal.status}`, 409)
+  }
+  if (proposal.executableAt && proposal.executableAt <= now) {
+    throw new GovernanceError('The timelock has ended, so the proposal can no longer be vetoed', 409)
+  }
+
+  const change = await transition(tx, proposal, 'cancelled', userId, now, {
+    data: { vetoed: true, ...(reason ? { reason } : {}) }
+  })
+  if (proposal.loanId) {
+    await releaseLoan(tx, proposal.loanId)
+  }
+  return change
+}
+
+// Authors can withdraw their proposal before voting starts. Members who can execute
+// proposals (canManage) can cancel any proposal that has not reached a final status.
+export async function cancelProposal(
+  tx: Tx,
+  proposalId: string,
+  userId: string,
+  canManage: boolean,
+  reason?: string,
+  now = new Date()
+) {
+  const proposal = await getProposalOrThrow(tx, proposalId)
+  const withdrawable = proposal.status === 'draft' || proposal.status === 'discussion'
+  if (!canManage && !(withdrawable && proposal.author === userId)) {
+    throw new GovernanceError('Only the author can withdraw a proposal, and only before voting starts', 403)
+  }
+
+  const change = await transition(tx, proposal, 'cancelled', userId, now, {
+    data: reason ? { reason } : undefined
+  })
+  if (proposal.loanId) {
+    await releaseLoan(tx, proposal.loanId)
+  }
+  return change
+}
+
+// Scheduler job: open voting once discussion ends and close it at the deadline
+export async function advanceProposals(client: PrismaClient, now = new Date()) {
+  const due = await client.proposal.findMany({
+    where: {
+      OR: [
+        { status: 'discussion', discussionEndsAt: { lte: now } },
+        { status: 'voting', votingDeadline: { lte: now } }
+      ]
+    },
+    include: proposalRelations,
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const events: ProposalEvent[] = []
+  for (const proposal of due) {
+    try {
+      const change = await client.$transaction(tx => proposal.status === 'discussion'
+        ? transition(tx, proposal, 'voting', null, now)
+        : closeVoting(tx, proposal, now)
+      )
+      events.push(change.event)
+    } catch (error) {
+      // Leave it for the next run, for example when a member moved it at the same moment
+      console.error(`Could not advance proposal ${proposal.id}:`, error)
+    }
+  }
+
+  publishProposalEvents(events)
+  return events.length
+}
+
+export function serializeProposal(proposal: LoadedProposal): SerializedProposal {
+  return {
+    id: proposal.id,
+    title: proposal.title,
+    description: proposal.description,
+    category: proposal.category,
+    author: proposal.author,
+    status: proposal.status as ProposalStatus,
+    budget: proposal.budget,
+    payoutMode: proposal.payoutMode as PayoutMode,
+    disbursements: proposal.disbursements.map(serializeDisbursement),
+    loanId: proposal.loanId,
+    votingMethod: proposal.votingMethod as VotingMethod,
+    ballotType: proposal.ballotType as BallotType,
+    version: proposal.version,
+    contentHash: proposal.contentHash,
+    options: proposal.options.map(option => ({
+      id: option.id,
+      label: option.label,
+      description: option.description
+    })),
+    winningOptionId: proposal.winningOptionId,
+    votes: { for: proposal.votesFor, against: proposal.votesAgainst, abstain: proposal.votesAbstain },
+    voterCount: proposal.voterCount,
+    snapshotSupply: proposal.snapshotSupply,
+    quorum: proposal.quorum,
+    quorumReached: proposal.quorumReached,
+    discussionStartsAt: proposal.discussionStartsAt?.toISOString() ?? null,
+    discussionEndsAt: proposal.discussionEndsAt?.toISOString() ?? null,
+    discussionLocked: proposal.discussionLocked,
+    votingStartsAt: proposal.votingStartsAt?.toISOString() ?? null,
+    votingDeadline: proposal.votingDeadline?.toISOString() ?? null,
+    closedAt: proposal.closedAt?.toISOString() ?? null,
+    queuedAt: proposal.queuedAt?.toISOString() ?? null,
+    executableAt: proposal.executableAt?.toISOString() ?? null,
+    executedAt: proposal.executedAt?.toISOString() ?? null,
+    cancelledAt: proposal.cancelledAt?.toISOString() ?? null,
+    createdAt: proposal.createdAt.toISOString()
+  }
+}
+
+export function serializeVote(vote: ProposalVote): Vote {
+  return {
+    proposalId: vote.proposalId,
+    userId: vote.userId,
+    voteType: vote.voteType as VoteType | null,
+    ballot: vote.ballot ? JSON.parse(vote.ballot) : null,
+    weight: vote.weight,
+    credits: vote.credits,
+    reason: vote.reason ?? '',
+    versionHash: vote.versionHash,
+    timestamp: vote.createdAt.toISOString()
+  }
+}
+
+export function serializeProposalEvent(event: ProposalEvent): ProposalTransition {
+  return {
+    proposalId: event.proposalId,
+    from: event.fromStatus as ProposalStatus | null,
+    to: event.toStatus as ProposalStatus,
+    actor: event.actor,
+    data: event.data ? JSON.parse(event.data) : null,
+    at: event.createdAt.toISOString()
+  }
+}
+
+// Broadcast transitions once their transaction has committed
+export function publishProposalEvents(events: ProposalEvent[]) {
+  for (const event of events) {
+    emitToAll('proposal:transition', serializeProposalEvent(event))
+  }
+}
+
+// Tell every client about an amendment, and members whose vote it superseded that they can vote again
+export function publishAmendment(amendment: ProposalAmendment, superseded: string[]) {
+  emitToAll('proposal:amended', amendment)
+  for (const userId of superseded) {
+    emitToUser(userId, 'proposal:vote-superseded', amendment)
+  }
+}
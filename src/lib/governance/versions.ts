@@ -0,0 +1,179 @@
+import CryptoJS from 'crypto-js'
+import type { Prisma, ProposalVersion, SupersededVote } from '@prisma/client'
+import type {
+  AmendmentPolicy,
+  DiffPart,
+  ProposalVersion as SerializedVersion,
+  SupersededVote as SerializedSupersededVote,
+  VoteType
+} from '@/lib/api/governance'
+
+type Tx = Prisma.TransactionClient
+
+// The community's policy for votes cast before an amendment, see AMENDMENT_POLICIES
+export const AMENDMENT_POLICY: AmendmentPolicy =
+  process.env.PROPOSAL_AMENDMENT_POLICY === 'reset' ? 'reset' : 'invalidate'
+
+// Word diffs of longer texts fall back to replacing the whole text, to bound the work
+const MAX_DIFF_CELLS = 4_000_000
+
+// Everything a member votes on, as hashed into a version's contentHash
+type VersionedProposal = Prisma.ProposalGetPayload<{
+  include: { options: true, disbursements: true }
+}>
+
+export function contentHash(proposal: VersionedProposal) {
+  const content = {
+    title: proposal.title,
+    description: proposal.description,
+    category: proposal.category,
+    budget: proposal.budget,
+    payoutMode: proposal.payoutMode,
+    loanId: proposal.loanId,
+    votingMethod: proposal.votingMethod,
+    ballotType: proposal.ballotType,
+    options: [...proposal.options]
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({ label: option.label, description: option.description })),
+    disbursements: [...proposal.disbursements]
+      .sort((a, b) => a.position - b.position)
+      .map(tranche => ({ recipientId: tranche.recipientId, amount: tranche.amount, milestone: tranche.milestone }))
+  }
+  return CryptoJS.SHA256(JSON.stringify(content)).toString()
+}
+
+// Store the proposal's current content as its next version and point the proposal at it
+export async function recordVersion(
+  tx: Tx,
+  proposal: VersionedProposal,
+  authorId: string,
+  amendment: { version: number, summary?: string, material?: boolean },
+  now = new Date()
+) {
+  const hash = contentHash(proposal)
+  const version = await tx.proposalVersion.create({
+    data: {
+      proposalId: proposal.id,
+      version: amendment.version,
+      title: proposal.title,
+      description: proposal.description,
+      contentHash: hash,
+      summary: amendment.summary ?? null,
+      material: amendment.material ?? false,
+      authorId,
+      createdAt: now
+    }
+  })
+  await tx.proposal.update({
+    where: { id: proposal.id },
+    data: { version: amendment.version, contentHash: hash }
+  })
+  return version
+}
+
+// Move every vote on the proposal to the superseded record, so none of them count on the
+// amended version. Quadratic credits spent on them become available again.
+export async function supersedeVotes(tx: Tx, proposalId: string, byVersion: number, now = new Date()) {
+  const votes = await tx.proposalVote.findMany({ where: { proposalId } })
+  if (votes.length === 0) {
+    return []
+  }
+
+  await tx.supersededVote.createMany({
+    data: votes.map(vote => ({
+      proposalId,
+      userId: vote.userId,
+      voteType: vote.voteType,
+      ballot: vote.ballot,
+      weight: vote.weight,
+      credits: vote.credits,
+      reason: vote.reason,
+      versionHash: vote.versionHash,
+      castAt: vote.createdAt,
+      supersededAt: now,
+      byVersion
+    }))
+  })
+  await tx.proposalVote.deleteMany({ where: { proposalId } })
+  return votes.map(vote => vote.userId)
+}
+
+// Words and the whitespace between them, so a diff can be joined back into the text
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter(Boolean)
+}
+
+function pushPart(parts: DiffPart[], kind: DiffPart['kind'], text: string) {
+  const last = parts[parts.length - 1]
+  if (last?.kind === kind) {
+    last.text += text
+  } else {
+    parts.push({ kind, text })
+  }
+}
+
+// Word-level diff from the longest common subsequence of the two token lists
+export function diffText(before: string, after: string): DiffPart[] {
+  if (before === after) {
+    return before ? [{ kind: 'same', text: before }] : []
+  }
+  const a = tokenize(before)
+  const b = tokenize(after)
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ kind: 'removed', text: before }, { kind: 'added', text: after }]
+  }
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Int32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+  return parts
+}
+
+export function serializeVersion(version: ProposalVersion): SerializedVersion {
+  return {
+    version: version.version,
+    title: version.title,
+    description: version.description,
+    contentHash: version.contentHash,
+    summary: version.summary,
+    material: version.material,
+    authorId: version.authorId,
+    createdAt: version.createdAt.toISOString()
+  }
+}
+
+export function serializeSupersededVote(vote: SupersededVote): SerializedSupersededVote {
+  return {
+    voteType: vote.voteType as VoteType | null,
+    ballot: vote.ballot ? JSON.parse(vote.ballot) : null,
+    weight: vote.weight,
+    versionHash: vote.versionHash,
+    castAt: vote.castAt.toISOString(),
+    supersededAt: vote.supersededAt.toISOString(),
+    byVersion: vote.byVersion
+  }
+}
@@ -0,0 +1,156 @@
+import type { Prisma, Proposal } from '@prisma/client'
+import type { VotingMethod, VotingPower } from '@/lib/api/governance'
+import { getWalletBalances } from '@/lib/finance/accounts'
+import { GovernanceError } from './errors'
+
+type Tx = Prisma.TransactionClient
+
+// Quadratic voting: every member gets a fresh credit budget each epoch, and a vote
+// costing n credits weighs sqrt(n). Epochs are fixed windows counted from 1970-01-01.
+export const QUADRATIC_CREDITS_PER_EPOCH = Number(process.env.QUADRATIC_CREDITS_PER_EPOCH) || 100
+export const QUADRATIC_EPOCH_DAYS = Number(process.env.QUADRATIC_EPOCH_DAYS) || 30
+// Token-weighted proposals need this share of the snapshot supply to vote
+export const TOKEN_QUORUM_PERCENT = Number(process.env.TOKEN_QUORUM_PERCENT) || 10
+// Passport uniqueness a member needs for one-person-one-vote and quadratic voting
+export const MIN_UNIQUENESS_SCORE = 0.7
+// Weight of a verified member on reputation-weighted proposals until their reputation
+// (0 to 100, earned through loan repayments) grows past it
+export const BASELINE_REPUTATION_WEIGHT = Number(process.env.BASELINE_REPUTATION_WEIGHT) || 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// One-person-one-vote, quadratic and reputation quorums count voters; token quorums count G$
+export function quorumBasis(method: VotingMethod): 'voters' | 'weight' {
+  return method === 'token' ? 'weight' : 'voters'
+}
+
+export function initialQuorum(method: VotingMethod, snapshotSupply: number | null, voterQuorum: number): number {
+  if (method === 'token') {
+    return (snapshotSupply ?? 0) * TOKEN_QUORUM_PERCENT / 100
+  }
+  return voterQuorum
+}
+
+// Record every member's G$ wallet balance for a token-weighted proposal. Returns the total supply.
+export async function takeBalanceSnapshot(tx: Tx, proposalId: string): Promise<number> {
+  const balances = await getWalletBalances(tx)
+  const accounts = await tx.account.findMany({
+    where: { id: { in: [...balances.keys()] } },
+    select: { id: true, userId: true }
+  })
+
+  const rows = accounts.map(account => ({
+    proposalId,
+    userId: account.userId,
+    balance: balances.get(account.id) ?? 0
+  }))
+  if (rows.length > 0) {
+    await tx.proposalSnapshot.createMany({ data: rows })
+  }
+  return rows.reduce((sum, row) => sum + row.balance, 0)
+}
+
+export function quadraticEpoch(now: Date) {
+  const length = QUADRATIC_EPOCH_DAYS * DAY_MS
+  const start = Math.floor(now.getTime() / length) * length
+  return { start: new Date(start), end: new Date(start + length) }
+}
+
+async function quadraticCreditsSpent(tx: Tx, userId: string, now: Date) {
+  const { start } = quadraticEpoch(now)
+  const spent = await tx.proposalVote.aggregate({
+    where: { userId, createdAt: { gte: start }, credits: { not: null } },
+    _sum: { credits: true }
+  })
+  return spent._sum.credits ?? 0
+}
+
+async function uniquePassport(tx: Tx, userId: string) {
+  const passport = await tx.humanPassport.findUnique({ where: { userId } })
+  if (!passport) {
+    throw new GovernanceError('Human Passport verification required to vote on this proposal', 403)
+  }
+  if (!passport.sybilResistance || passport.uniquenessScore < MIN_UNIQUENESS_SCORE) {
+    throw new GovernanceError('Your Human Passport does not meet the uniqueness check for this vote', 403)
+  }
+  return passport
+}
+
+// Weight of a member's vote under the proposal's voting method, or a GovernanceError
+// saying why they cannot vote. `credits` is required for quadratic voting only.
+export async function voteWeight(
+  tx: Tx,
+  proposal: Proposal,
+  userId: string,
+  credits: number | undefined,
+  now = new Date()
+): Promise<{ weight: number, credits: number | null }> {
+  const method = proposal.votingMethod as VotingMethod
+
+  switch (method) {
+    case 'one-person-one-vote':
+      await uniquePassport(tx, userId)
+      return { weight: 1, credits: null }
+
+    case 'quadratic': {
+      await uniquePassport(tx, userId)
+      if (!credits || !Number.isInteger(credits) || credits < 1) {
+        throw new GovernanceError('Choose how many voting credits to spend on a quadratic vote')
+      }
+      const spent = await quadraticCreditsSpent(tx, userId, now)
+      const remaining = QUADRATIC_CREDITS_PER_EPOCH - spent
+      if (credits > remaining) {
+        throw new GovernanceError('Not enough voting credits left this epoch', 400, {
+          remaining,
+          epochEndsAt: quadraticEpoch(now).end.toISOString()
+        })
+      }
+      return { weight: Math.sqrt(credits), credits }
+    }
+
+    case 'reputation': {
+      const passport = await tx.humanPassport.findUnique({ where: { userId } })
+      if (!passport) {
+        throw new GovernanceError('Verify your Human Passport to vote on this proposal', 403)
+      }
+      return { weight: Math.max(passport.reputationScore, BASELINE_REPUTATION_WEIGHT), credits: null }
+    }
+
+    case 'token': {
+      const snapshot = await tx.proposalSnapshot.findUnique({
+        where: { proposalId_userId: { proposalId: proposal.id, userId } }
+      })
+      if (!snapshot || snapshot.balance <= 0) {
+        throw new GovernanceError('You held no G$ when this proposal was created', 403)
+      }
+      return { weight: snapshot.balance, credits: null }
+    }
+
+    default:
+      throw new GovernanceError(`Unknown voting method ${proposal.votingMethod}`, 500)
+  }
+}
+
+// What a member could cast on a proposal, for showing before they vote
+export async function getVotingPower(tx: Tx, proposal: Proposal, userId: string, now = new Date()): Promise<VotingPower> {
+  let credits: VotingPower['credits']
+  if (proposal.votingMethod === 'quadratic') {
+    const spent = await quadraticCreditsSpent(tx, userId, now)
+    credits = {
+      budget: QUADRATIC_CREDITS_PER_EPOCH,
+      spent,
+      remaining: Math.max(0, QUADRATIC_CREDITS_PER_EPOCH - spent),
+      epochEndsAt: quadraticEpoch(now).end.toISOString()
+    }
+  }
+
+  try {
+    const { weight } = await voteWeight(tx, proposal, userId, credits ? Math.max(1, credits.remaining) : undefined, now)
+    return { eligible: true, weight, credits }
+  } catch (error) {
+    if (error instanceof GovernanceError) {
+      return { eligible: false, reason: error.message, weight: 0, credits }
+    }
+    throw error
+  }
+}
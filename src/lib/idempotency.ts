@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client'
+import { NextRequest, NextResponse } from 'next/server'
+import CryptoJS from 'crypto-js'
+import { db } from '@/lib/db'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// How long a stored response is replayed for the same key
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24
+// How long a request holds its key while running. A reservation older than this belongs to a
+// request that crashed or timed out, and the next retry takes the key over.
+export const IDEMPOTENCY_LEASE_MINUTES = Number(process.env.IDEMPOTENCY_LEASE_MINUTES) || 5
+
+function hashRequest(body: unknown): string {
+  return CryptoJS.SHA256(JSON.stringify(body ?? null)).toString()
+}
+
+function conflict(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 409 })
+}
+
+// Claim the key for this request. Returns the new reservation, or the stored record when
+// another request got there first.
+async function reserveKey(scope: string, key: string, requestHash: string) {
+  const now = new Date()
+  const leaseStart = new Date(now.getTime() - IDEMPOTENCY_LEASE_MINUTES * 60 * 1000)
+  await db.idempotencyKey.deleteMany({
+    where: {
+      scope,
+      key,
+      OR: [
+        { expiresAt: { lte: now } },
+        { status: 'in_progress', createdAt: { lte: leaseStart } }
+      ]
+    }
+  })
+
+  try {
+    const reservation = await db.idempotencyKey.create({
+      data: {
+        scope,
+        key,
+        requestHash,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+      }
+    })
+    return { reservation, existing: null }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { reservation: null, existing: await db.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } }) }
+    }
+    throw error
+  }
+}
+
+// Run a mutating handler at most once per Idempotency-Key within `scope`.
+// Requests without the header run as usual. A duplicate gets the first response replayed,
+// a key reused with a different body is rejected. Server errors release the key so the client can retry,
+// and a key left reserved by a request that never finished is released once its lease runs out.
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  body: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)
+  if (!key) return handler()
+
+  const requestHash = hashRequest(body)
+  const { reservation, existing } = await reserveKey(scope, key, requestHash)
+
+  if (!reservation) {
+    if (!existing) {
+      return conflict('A request with this idempotency key is still being processed')
+    }
+    if (existing.requestHash !== requestHash) {
+      return conflict('Idempotency key was already used for a different request')
+    }
+    if (existing.status !== 'completed') {
+      return conflict('A request with this idempotency key is still being processed')
+    }
+    return new NextResponse(existing.responseBody, {
+      status: existing.responseStatus ?? 200,
+      headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' }
+    })
+  }
+
+  // Only touch our own reservation: if the lease ran out, a retry may hold the key by now
+  const ours = { scope, key, createdAt: reservation.createdAt, status: 'in_progress' }
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await db.idempotencyKey.deleteMany({ where: ours })
+    throw error
+  }
+
+  if (response.status >= 500) {
+    await db.idempotencyKey.deleteMany({ where: ours })
+    return response
+  }
+
+  await db.idempotencyKey.updateMany({
+    where: ours,
+    data: {
+      status: 'completed',
+      responseStatus: response.status,
+      responseBody: await response.clone().text()
+    }
+  })
+
+  return response
+}
+
+export async function purgeExpiredIdempotencyKeys(now = new Date()) {
+  const { count } = await db.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } })
+  return count
+}
@@ -0,0 +1,100 @@
+import { Wallet } from 'ethers'
+
+// Every identifier we mint carries one of these prefixes, so an id says what it refers to
+export const ID_PREFIXES = {
+  user: 'user',
+  transaction: 'tx',
+  journalEntry: 'je',
+  paymentLink: 'link',
+  savingsPosition: 'savings',
+  standingOrder: 'order',
+  savingsCircle: 'circle',
+  loan: 'loan',
+  invoice: 'inv',
+  swap: 'swap',
+  proposal: 'prop',
+  proposalOption: 'opt',
+  disbursement: 'disb',
+  execution: 'exec',
+  contribution: 'contrib',
+  goal: 'goal',
+  goalMilestone: 'milestone',
+  comment: 'comment',
+  realtimeEvent: 'event',
+  passport: 'passport',
+  privateStorage: 'storage',
+  conversation: 'conv',
+  ubiClaim: 'ubi',
+  humanPassport: 'human',
+  deployment: 'deploy',
+  edgeFunction: 'func',
+  archiveItem: 'archive',
+  snapshot: 'snapshot',
+  preservation: 'preserve',
+  torConnection: 'tor',
+  hiddenService: 'hs',
+  circuit: 'circuit',
+  registration: 'reg',
+  verification: 'ver',
+  endorsement: 'endorse',
+  nillionStorage: 'nillion',
+  computation: 'comp',
+  analysis: 'analysis',
+  profile: 'profile',
+  asset: 'asset',
+  certificate: 'cert',
+  provenance: 'prov'
+} as const
+
+export type IdKind = keyof typeof ID_PREFIXES
+export type PrefixedId<K extends IdKind> = `${typeof ID_PREFIXES[K]}_${string}`
+
+// Uses the Web Crypto API, available in Node and in the browser
+export function createId<K extends IdKind>(kind: K): PrefixedId<K> {
+  return `${ID_PREFIXES[kind]}_${crypto.randomUUID()}`
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+// 0x-prefixed hex string of `length` random bytes, e.g. 32 for a transaction hash
+export function randomHex(length: number): string {
+  return `0x${Array.from(randomBytes(length), byte => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+const ALPHANUMERIC = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+// Lower-case alphanumeric token; bytes above the largest multiple of 36 are dropped to avoid bias
+export function randomToken(length: number, alphabet = ALPHANUMERIC): string {
+  const limit = 256 - (256 % alphabet.length)
+  let token = ''
+  while (token.length < length) {
+    for (const byte of randomBytes(length)) {
+      if (byte < limit && token.length < length) {
+        token += alphabet[byte % alphabet.length]
+      }
+    }
+  }
+  return token
+}
+
+export interface KeyPair {
+  address: string
+  publicKey: string
+  privateKey: string
+}
+
+// A fresh secp256k1 key pair; the address is checksummed
+export function createKeyPair(): KeyPair {
+  const wallet = Wallet.createRandom()
+  return {
+    address: wallet.address,
+    publicKey: wallet.signingKey.publicKey,
+    privateKey: wallet.privateKey
+  }
+}
+
+export function createWalletAddress(): string {
+  return createKeyPair().address
+}
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId, createWalletAddress } from '@/lib/ids';
 
 export interface BentoProfile {
   id: string;
@@ -162,7 +163,7 @@ export class BentoSDK {
     walletAddress: string;
   }): Promise<BentoProfile> {
     try {
-      const profileId = `profile_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const profileId = createId('profile');
       
       const profile: BentoProfile = {
         id: profileId,
@@ -311,7 +312,7 @@ export class BentoSDK {
     data: Record<string, any>
   ): Promise<BentoVerification> {
     try {
-      const verificationId = `ver_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const verificationId = createId('verification');
       
       const verification: BentoVerification = {
         id: verificationId,
@@ -357,7 +358,7 @@ export class BentoSDK {
     comment?: string
   ): Promise<BentoEndorsement> {
     try {
-      const endorsementId = `endorse_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const endorsementId = createId('endorsement');
       
       const endorsement: BentoEndorsement = {
         id: endorsementId,
@@ -553,7 +554,7 @@ export class BentoSDK {
     return Array.from({ length: limit }, (_, i) => {
       const score = Math.floor(Math.random() * 2000);
       return {
-        id: `profile_${i}_${Date.now()}`,
+        id: createId('profile'),
         username: `${query || 'user'}${i}`,
         displayName: `${query || 'User'} ${i + 1}`,
         bio: `Professional ${i + 1} with expertise in Web3`,
@@ -575,7 +576,7 @@ export class BentoSDK {
         blockchain: {
           addresses: [{
             chain: 'ethereum',
-            address: `0x${Math.random().toString(16).substr(2, 40)}`,
+            address: createWalletAddress(),
             verified: Math.random() > 0.5
           }]
         },
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId } from '@/lib/ids';
 
 export interface EdgeCityNode {
   id: string;
@@ -124,7 +125,7 @@ export class EdgeCitySDK {
     code?: string;
   }): Promise<EdgeDeployment> {
     try {
-      const deploymentId = `deploy_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const deploymentId = createId('deployment');
       
       // Select optimal nodes for deployment
       const availableNodes = await this.getAvailableNodes({
@@ -179,7 +180,7 @@ export class EdgeCitySDK {
     targetRegions: string[];
   }): Promise<EdgeFunction> {
     try {
-      const functionId = `func_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const functionId = createId('edgeFunction');
       
       const edgeFunction: EdgeFunction = {
         id: functionId,
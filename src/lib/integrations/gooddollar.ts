@@ -8,6 +8,7 @@
 
 import { ethers, type JsonRpcProvider } from 'ethers';
 import CryptoJS from 'crypto-js';
+import { createId, randomHex, randomToken } from '@/lib/ids';
 
 export interface GoodDollarAccount {
   address: string;
@@ -41,6 +42,22 @@ export interface GoodDollarTransaction {
   gasUsed?: string;
 }
 
+export interface TransactionHistoryOptions {
+  limit?: number;
+  cursor?: string;
+  type?: GoodDollarTransaction['type'][];
+  currency?: GoodDollarTransaction['currency'];
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface TransactionHistoryPage {
+  transactions: GoodDollarTransaction[];
+  nextCursor: string | null;
+}
+
 export interface SavingsAccount {
   id: string;
   owner: string;
@@ -147,7 +164,7 @@ export class GoodDollarSDK {
    */
   async claimUBI(walletAddress: string): Promise<UBIClaim> {
     try {
-      const claimId = `ubi_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const claimId = createId('ubiClaim');
       const amount = '10'; // Daily G$ amount
       
       // Check if already claimed today
@@ -168,7 +185,7 @@ export class GoodDollarSDK {
         amount,
         currency: 'G$',
         claimedAt: new Date().toISOString(),
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+        transactionHash: randomHex(32),
         proof: this.generateClaimProof(walletAddress, amount),
         status: 'completed'
       };
@@ -198,7 +215,7 @@ export class GoodDollarSDK {
     amount: string
   ): Promise<GoodDollarTransaction> {
     try {
-      const transactionId = `tx_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const transactionId = createId('transaction');
       
       const transaction: GoodDollarTransaction = {
         id: transactionId,
@@ -236,7 +253,7 @@ export class GoodDollarSDK {
     interestRate: number = 5.0
   ): Promise<SavingsAccount> {
     try {
-      const savingsId = `savings_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const savingsId = createId('savingsPosition');
       
       const savings: SavingsAccount = {
         id: savingsId,
@@ -280,22 +297,29 @@ export class GoodDollarSDK {
   }
 
   /**
-   * Get transaction history
+   * Get a page of transaction history, newest first.
+   * Pass the returned `nextCursor` back in to fetch the following page.
    */
   async getTransactionHistory(
     walletAddress: string,
-    limit: number = 50
-  ): Promise<GoodDollarTransaction[]> {
+    options: TransactionHistoryOptions = {}
+  ): Promise<TransactionHistoryPage> {
+    const { limit = 50, ...filters } = options;
+
     try {
       const response = await this.mockGoodDollarCall('/transactions/history', {
         address: walletAddress,
-        limit
+        limit,
+        ...filters
       });
 
-      return response.transactions || [];
+      return {
+        transactions: response.transactions || [],
+        nextCursor: response.nextCursor ?? null
+      };
     } catch (error) {
       console.error('Failed to get transaction history:', error);
-      return [];
+      return { transactions: [], nextCursor: null };
     }
   }
 
@@ -379,7 +403,7 @@ export class GoodDollarSDK {
       walletAddress,
       amount,
       timestamp: Date.now(),
-      nonce: Math.random().toString(36)
+      nonce: randomToken(16)
     };
     
     return CryptoJS.SHA256(JSON.stringify(proofData)).toString();
@@ -412,7 +436,7 @@ export class GoodDollarSDK {
     }
     
     if (endpoint.includes('/transfer')) {
-      return { success: true, transactionHash: `0x${Math.random().toString(16).substr(2, 64)}` };
+      return { success: true, transactionHash: randomHex(32) };
     }
     
     if (endpoint.includes('/savings/create')) {
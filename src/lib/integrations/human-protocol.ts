@@ -8,6 +8,7 @@
 
 import { ethers, type JsonRpcProvider } from 'ethers';
 import CryptoJS from 'crypto-js';
+import { createId, createKeyPair, randomToken } from '@/lib/ids';
 
 export interface HumanPassport {
   id: string;
@@ -44,11 +45,8 @@ export class HumanProtocolSDK {
    */
   async createPassport(walletAddress: string, biometricData?: string): Promise<HumanPassport> {
     try {
-      const timestamp = Date.now();
-      const nonce = Math.random().toString(36).substring(2, 15);
-      
       // Generate unique passport ID
-      const passportId = `human_${timestamp}_${nonce}`;
+      const passportId = createId('humanPassport');
       
       // Create biometric hash if provided
       let biometricHash;
@@ -61,7 +59,7 @@ export class HumanProtocolSDK {
         walletAddress,
         passportId,
         biometricHash,
-        timestamp
+        timestamp: Date.now()
       });
 
       const passport: HumanPassport = {
@@ -189,7 +187,7 @@ export class HumanProtocolSDK {
       passportId,
       dataHash: CryptoJS.SHA256(JSON.stringify(data)).toString(),
       timestamp: Date.now(),
-      nonce: Math.random().toString(36)
+      nonce: randomToken(16)
     };
     
     return CryptoJS.SHA256(JSON.stringify(proofData)).toString();
@@ -213,7 +211,7 @@ export class HumanProtocolSDK {
     
     if (endpoint.includes('/passport/')) {
       return {
-        publicKey: `0x${Math.random().toString(16).substr(2, 40)}`,
+        publicKey: createKeyPair().publicKey,
         verifiedAt: new Date().toISOString(),
         uniquenessScore: Math.random() * 0.3 + 0.7,
         sybilResistance: true,
@@ -33,7 +33,7 @@ export type { NumbersAsset, NumbersCertificate, NumbersVerification, NumbersProv
 // GoodDollar - UBI & Stablecoin Services
 import { goodDollar, GoodDollarSDK } from './gooddollar';
 export { GoodDollarSDK } from './gooddollar';
-export type { GoodDollarAccount, UBIClaim, GoodDollarTransaction, SavingsAccount } from './gooddollar';
+export type { GoodDollarAccount, UBIClaim, GoodDollarTransaction, TransactionHistoryOptions, TransactionHistoryPage, SavingsAccount } from './gooddollar';
 
 // Internet Archive - Decentralized Data Preservation
 import { internetArchive, InternetArchiveSDK } from './internet-archive';
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId } from '@/lib/ids';
 
 export interface ArchiveItem {
   identifier: string;
@@ -105,7 +106,7 @@ export class InternetArchiveSDK {
     } = {}
   ): Promise<ArchiveItem> {
     try {
-      const itemId = `archive_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const itemId = createId('archiveItem');
       
       let checksum: string;
       let size: number;
@@ -194,7 +195,7 @@ export class InternetArchiveSDK {
    */
   async createSnapshot(url: string): Promise<ArchiveSnapshot> {
     try {
-      const snapshotId = `snapshot_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const snapshotId = createId('snapshot');
       
       const snapshot: ArchiveSnapshot = {
         id: snapshotId,
@@ -337,7 +338,7 @@ export class InternetArchiveSDK {
     duration: '1_year' | '5_years' | 'permanent' = 'permanent'
   ): Promise<ArchivePreservation> {
     try {
-      const preservationId = `preserve_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const preservationId = createId('preservation');
       
       const preservation: ArchivePreservation = {
         id: preservationId,
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId, createWalletAddress } from '@/lib/ids';
 
 export interface LogosIdentity {
   id: string;
@@ -90,7 +91,7 @@ export class LogosSDK {
         throw new Error(`Name ${name} is not available`);
       }
 
-      const registrationId = `reg_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const registrationId = createId('registration');
       const tld = name.split('.').pop() || 'logos';
       
       const logosName: LogosName = {
@@ -100,7 +101,7 @@ export class LogosSDK {
         registeredAt: new Date().toISOString(),
         expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(), // 1 year
         status: 'active',
-        resolver: `0x${Math.random().toString(16).substr(2, 40)}`,
+        resolver: createWalletAddress(),
         records: records || {}
       };
 
@@ -147,7 +148,7 @@ export class LogosSDK {
       return {
         id: response.id || `identity_${name}`,
         name,
-        owner: response.owner || `0x${Math.random().toString(16).substr(2, 40)}`,
+        owner: response.owner || createWalletAddress(),
         createdAt: response.createdAt || new Date().toISOString(),
         expiresAt: response.expiresAt || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
         records: response.records || {},
@@ -183,7 +184,7 @@ export class LogosSDK {
       return {
         id: identityId,
         name: response.name || 'unknown.logos',
-        owner: response.owner || `0x${Math.random().toString(16).substr(2, 40)}`,
+        owner: response.owner || createWalletAddress(),
         createdAt: response.createdAt || new Date().toISOString(),
         expiresAt: response.expiresAt || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
         records: response.records || {},
@@ -209,7 +210,7 @@ export class LogosSDK {
     proof: string
   ): Promise<LogosVerification> {
     try {
-      const verificationId = `ver_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const verificationId = createId('verification');
       
       const verification: LogosVerification = {
         id: verificationId,
@@ -251,7 +252,7 @@ export class LogosSDK {
     comment?: string
   ): Promise<LogosEndorsement> {
     try {
-      const endorsementId = `endorse_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const endorsementId = createId('endorsement');
       
       const endorsement: LogosEndorsement = {
         id: endorsementId,
@@ -416,8 +417,8 @@ export class LogosSDK {
     const count = Math.floor(Math.random() * 10);
     
     return Array.from({ length: count }, (_, i) => ({
-      id: `endorse_${i}_${Date.now()}`,
-      endorser: `0x${Math.random().toString(16).substr(2, 40)}`,
+      id: createId('endorsement'),
+      endorser: createWalletAddress(),
       endorsed: identityId,
       type: types[Math.floor(Math.random() * types.length)],
       weight: Math.floor(Math.random() * 5) + 1,
@@ -435,7 +436,7 @@ export class LogosSDK {
     const count = Math.floor(Math.random() * 3) + 1;
     
     return Array.from({ length: count }, (_, i) => ({
-      id: `ver_${i}_${Date.now()}`,
+      id: createId('verification'),
       identity: identityId,
       type: types[i],
       status: 'verified' as const,
@@ -454,7 +455,7 @@ export class LogosSDK {
       return {
         id: `identity_${i}_${Date.now()}`,
         name: `${query || 'user'}${i}.logos`,
-        owner: `0x${Math.random().toString(16).substr(2, 40)}`,
+        owner: createWalletAddress(),
         createdAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
         expiresAt: new Date(Date.now() + Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
         records: {
@@ -488,7 +489,7 @@ export class LogosSDK {
     if (endpoint.includes('/names/resolve')) {
       return Math.random() > 0.2 ? {
         exists: true,
-        owner: `0x${Math.random().toString(16).substr(2, 40)}`,
+        owner: createWalletAddress(),
         createdAt: new Date().toISOString(),
         records: { email: 'user@example.com' }
       } : { exists: false };
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId, randomToken } from '@/lib/ids';
 
 export interface NillionStorage {
   id: string;
@@ -65,7 +66,7 @@ export class NillionSDK {
       const encryptedData = this.encryptData(dataString);
       const dataHash = CryptoJS.SHA256(dataString).toString();
       
-      const storageId = `nillion_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const storageId = createId('nillionStorage');
       
       const storage: NillionStorage = {
         id: storageId,
@@ -123,7 +124,7 @@ export class NillionSDK {
     encryptedInputs: string[]
   ): Promise<NillionComputeResult> {
     try {
-      const computationId = `comp_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const computationId = createId('computation');
       
       // Simulate secure computation
       const result = await this.performSecureComputation(computationType, encryptedInputs);
@@ -208,7 +209,7 @@ export class NillionSDK {
     privacyLevel: 'maximum' | 'high' | 'medium';
   }> {
     try {
-      const analysisId = `analysis_${Date.now()}`;
+      const analysisId = createId('analysis');
       
       // Simulate privacy-preserving analysis
       const insights = await this.mockNillionCall('/analysis/perform', {
@@ -257,7 +258,7 @@ export class NillionSDK {
       index,
       threshold,
       totalShares,
-      random: Math.random().toString(36)
+      random: randomToken(16)
     };
     return CryptoJS.SHA256(JSON.stringify(shareData)).toString();
   }
@@ -302,7 +303,7 @@ export class NillionSDK {
       computationId,
       result,
       timestamp: Date.now(),
-      nonce: Math.random().toString(36)
+      nonce: randomToken(16)
     };
     return CryptoJS.SHA256(JSON.stringify(proofData)).toString();
   }
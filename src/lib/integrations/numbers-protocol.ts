@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId, createWalletAddress } from '@/lib/ids';
 
 export interface NumbersAsset {
   id: string;
@@ -110,7 +111,7 @@ export class NumbersSDK {
     }
   ): Promise<NumbersAsset> {
     try {
-      const assetId = `asset_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const assetId = createId('asset');
       const fileHash = await this.calculateHash(file);
       
       const asset: NumbersAsset = {
@@ -174,7 +175,7 @@ export class NumbersSDK {
 
       // Hash verification
       const hashVerification: NumbersVerification = {
-        id: `ver_hash_${Date.now()}`,
+        id: createId('verification'),
         assetId: assetId || 'unknown',
         type: 'hash',
         result: 'pass',
@@ -223,7 +224,7 @@ export class NumbersSDK {
         type: response.type || 'image',
         name: response.name || 'Unknown Asset',
         description: response.description,
-        creator: response.creator || `0x${Math.random().toString(16).substr(2, 40)}`,
+        creator: response.creator || createWalletAddress(),
         owner: response.owner || response.creator,
         createdAt: response.createdAt || new Date().toISOString(),
         updatedAt: response.updatedAt || new Date().toISOString(),
@@ -264,7 +265,7 @@ export class NumbersSDK {
     metadata: Record<string, any>
   ): Promise<NumbersCertificate> {
     try {
-      const certificateId = `cert_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const certificateId = createId('certificate');
       
       const certificate: NumbersCertificate = {
         id: certificateId,
@@ -434,7 +435,7 @@ export class NumbersSDK {
     const isAI = Math.random() > 0.7;
     
     return {
-      id: `ver_ai_${Date.now()}`,
+      id: createId('verification'),
       assetId: 'unknown',
       type: 'ai-generated',
       result: isAI ? 'warning' : 'pass',
@@ -455,7 +456,7 @@ export class NumbersSDK {
     const isManipulated = Math.random() > 0.8;
     
     return {
-      id: `ver_manip_${Date.now()}`,
+      id: createId('verification'),
       assetId: 'unknown',
       type: 'manipulated',
       result: isManipulated ? 'warning' : 'pass',
@@ -474,7 +475,7 @@ export class NumbersSDK {
     const isValid = chain.length > 0 && chain[0].data.hash === fileHash;
     
     return {
-      id: `ver_prov_${Date.now()}`,
+      id: createId('verification'),
       assetId,
       type: 'provenance',
       result: isValid ? 'pass' : 'fail',
@@ -494,7 +495,7 @@ export class NumbersSDK {
     actor: string,
     data: Record<string, any>
   ): Promise<NumbersProvenanceRecord> {
-    const recordId = `prov_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const recordId = createId('provenance');
     
     const record: NumbersProvenanceRecord = {
       id: recordId,
@@ -547,7 +548,7 @@ export class NumbersSDK {
         id: `prov_1_${assetId}`,
         assetId,
         action: 'create',
-        actor: `0x${Math.random().toString(16).substr(2, 40)}`,
+        actor: createWalletAddress(),
         timestamp: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
         data: { hash: `hash_${assetId}` },
         signature: `sig_1_${assetId}`
@@ -574,13 +575,13 @@ export class NumbersSDK {
     return Array.from({ length: limit }, (_, i) => {
       const score = Math.random() * 0.3 + 0.7;
       return {
-        id: `asset_${i}_${Date.now()}`,
+        id: createId('asset'),
         hash: `hash_${i}_${Date.now()}`,
         type: types[Math.floor(Math.random() * types.length)],
         name: `${query || 'Asset'} ${i + 1}`,
         description: `Generated asset ${i + 1}`,
-        creator: `0x${Math.random().toString(16).substr(2, 40)}`,
-        owner: `0x${Math.random().toString(16).substr(2, 40)}`,
+        creator: createWalletAddress(),
+        owner: createWalletAddress(),
         createdAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
         updatedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
         metadata: {
@@ -596,7 +597,7 @@ export class NumbersSDK {
         verification: {
           verified: Math.random() > 0.3,
           score,
-          certificates: score > 0.8 ? [`cert_${i}_${Date.now()}`] : [],
+          certificates: score > 0.8 ? [createId('certificate')] : [],
           authenticity: score > 0.9 ? 'original' : score > 0.6 ? 'copy' : 'derivative'
         },
         licensing: {
@@ -623,7 +624,7 @@ export class NumbersSDK {
         hash: `hash_${data.assetId}`,
         type: 'image',
         name: 'Sample Asset',
-        creator: `0x${Math.random().toString(16).substr(2, 40)}`,
+        creator: createWalletAddress(),
         verified: true
       } : { exists: false };
     }
@@ -7,6 +7,7 @@
  */
 
 import CryptoJS from 'crypto-js';
+import { createId, randomToken } from '@/lib/ids';
 
 export interface TorConnection {
   id: string;
@@ -121,7 +122,7 @@ export class TorSDK {
     securityLevel: 'standard' | 'safer' | 'safest' = 'standard'
   ): Promise<TorConnection> {
     try {
-      const connectionId = `tor_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const connectionId = createId('torConnection');
       
       // Build Tor circuit
       const circuit = await this.buildCircuit('general');
@@ -187,7 +188,7 @@ export class TorSDK {
     }>
   ): Promise<TorHiddenService> {
     try {
-      const serviceId = `hs_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const serviceId = createId('hiddenService');
       
       // Generate .onion address and keys
       const { address, privateKey, publicKey } = await this.generateOnionAddress();
@@ -255,7 +256,7 @@ export class TorSDK {
    */
   async buildCircuit(purpose: 'general' | 'secure' | 'streaming' | 'file_transfer'): Promise<TorCircuit> {
     try {
-      const circuitId = `circuit_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+      const circuitId = createId('circuit');
       
       // Select nodes for circuit
       const nodes = await this.selectCircuitNodes(purpose);
@@ -449,7 +450,7 @@ export class TorSDK {
     publicKey: string;
   }> {
     // Generate mock .onion address (in real implementation, use proper Tor key generation)
-    const address = `${Math.random().toString(36).substring(2, 16)}.onion`;
+    const address = `${randomToken(56, 'abcdefghijklmnopqrstuvwxyz234567')}.onion`;
     const privateKey = CryptoJS.lib.WordArray.random(32).toString();
     const publicKey = CryptoJS.lib.WordArray.random(32).toString();
 
@@ -551,7 +552,7 @@ export class TorSDK {
     }
     
     if (endpoint.includes('/circuit/build')) {
-      return { success: true, circuitId: `circuit_${Date.now()}` };
+      return { success: true, circuitId: createId('circuit') };
     }
     
     if (endpoint.includes('/circuit/rotate')) {
@@ -0,0 +1,71 @@
+import { db } from '@/lib/db'
+import { runDueStandingOrders } from '@/lib/finance/standing-orders'
+import { runDueSavingsCircles } from '@/lib/finance/circles'
+import { flagLateInstallments } from '@/lib/finance/loans'
+import { advanceProposals } from '@/lib/governance/proposals'
+import { closeExpiredGoals } from '@/lib/governance/goals'
+import { purgeExpiredIdempotencyKeys } from '@/lib/idempotency'
+
+interface ScheduledJob {
+  name: string
+  intervalMs: number
+  run: () => Promise<unknown>
+}
+
+// Background jobs run by the custom server, each on its own interval
+const jobs: ScheduledJob[] = [
+  {
+    name: 'standing-orders',
+    intervalMs: 60 * 1000,
+    run: () => runDueStandingOrders(db)
+  },
+  {
+    name: 'savings-circles',
+    intervalMs: 60 * 1000,
+    run: () => runDueSavingsCircles(db)
+  },
+  {
+    name: 'loan-installments',
+    intervalMs: 60 * 60 * 1000,
+    run: () => flagLateInstallments(db)
+  },
+  {
+    name: 'proposal-lifecycle',
+    intervalMs: 60 * 1000,
+    run: () => advanceProposals(db)
+  },
+  {
+    name: 'community-goals',
+    intervalMs: 60 * 1000,
+    run: () => closeExpiredGoals(db)
+  },
+  {
+    name: 'idempotency-keys',
+    intervalMs: 60 * 60 * 1000,
+    run: () => purgeExpiredIdempotencyKeys()
+  }
+]
+
+export const startScheduler = () => {
+  const timers = jobs.map(job => {
+    let running = false
+
+    const tick = async () => {
+      // Skip a tick rather than overlap with a slow previous run
+      if (running) return
+      running = true
+      try {
+        await job.run()
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error)
+      } finally {
+        running = false
+      }
+    }
+
+    tick()
+    return setInterval(tick, job.intervalMs)
+  })
+
+  return () => timers.forEach(timer => clearInterval(timer))
+}
@@ -1,8 +1,54 @@
+import type { IncomingMessage } from 'http';
+import { getToken } from 'next-auth/jwt';
 import { Server } from 'socket.io';
 
+// The server instance is kept on globalThis so API routes can push events to clients
+const globalForSocket = globalThis as unknown as {
+  io: Server | undefined
+};
+
+// Room a client joins to receive events addressed to one user
+const userRoom = (userId: string) => `user:${userId}`;
+
+export const emitToUser = (userId: string, event: string, payload: unknown) => {
+  globalForSocket.io?.to(userRoom(userId)).emit(event, payload);
+};
+
+// Community-wide events, such as proposal transitions
+export const emitToAll = (event: string, payload: unknown) => {
+  globalForSocket.io?.emit(event, payload);
+};
+
+const parseCookies = (header = ''): Record<string, string> =>
+  Object.fromEntries(
+    header.split(';')
+      .map((part) => part.trim().split('='))
+      .filter(([name, ...value]) => name && value.length)
+      .map(([name, ...value]) => [name, decodeURIComponent(value.join('='))])
+  );
+
+// The member signed in on the connecting browser, read from the next-auth session cookie
+const getSocketUserId = async (request: IncomingMessage): Promise<string | null> => {
+  const token = await getToken({
+    req: Object.assign(request, { cookies: parseCookies(request.headers.cookie) })
+  });
+  return token?.sub ?? null;
+};
+
 export const setupSocket = (io: Server) => {
+  globalForSocket.io = io;
+
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
+
+    // Per-user notifications such as paid invoices go to the session's own room
+    getSocketUserId(socket.request)
+      .then((userId) => {
+        if (userId) {
+          socket.join(userRoom(userId));
+        }
+      })
+      .catch((error) => console.error('Socket session lookup failed:', error));
     
     // Handle messages
     socket.on('message', (msg: { text: string; senderId: string }) => {
@@ -26,4 +72,4 @@ export const setupSocket = (io: Server) => {
       timestamp: new Date().toISOString(),
     });
   });
-};
\ No newline at end of file
+};
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { randomToken } from "./ids"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -48,7 +49,7 @@ export function formatRelativeTime(date: string | Date): string {
 
 // Generate random ID
 export function generateId(prefix = '', length = 8): string {
-  const random = Math.random().toString(36).substr(2, length)
+  const random = randomToken(length)
   return prefix ? `${prefix}_${random}` : random
 }
 
@@ -0,0 +1,20 @@
+import type { DefaultSession } from 'next-auth'
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string
+      walletAddress: string | null
+    }
+  }
+
+  interface User {
+    walletAddress?: string | null
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    walletAddress?: string | null
+  }
+}